@@ -0,0 +1,128 @@
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Request } from "express";
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+// Header carrying a client-supplied Airtop API key in per-client key mode
+export const AIRTOP_API_KEY_HEADER = "x-airtop-api-key";
+
+// Static tokens never expire, but the bearer middleware requires an expiry
+const NO_EXPIRY = Number.MAX_SAFE_INTEGER;
+
+export interface AuthConfig {
+  // Opaque bearer tokens accepted as-is
+  tokens?: string[];
+  // Shared secret for HS256-signed JWTs
+  jwtSecret?: string;
+}
+
+interface JwtPayload {
+  sub?: string;
+  client_id?: string;
+  scope?: string;
+  exp?: number;
+  nbf?: number;
+}
+
+/**
+ * Build a token verifier for the configured tokens and/or JWT secret.
+ * Returns undefined when no authentication is configured.
+ */
+export function createTokenVerifier(
+  config: AuthConfig,
+): OAuthTokenVerifier | undefined {
+  const tokenDigests = (config.tokens ?? []).map(digest);
+  const { jwtSecret } = config;
+  if (!tokenDigests.length && !jwtSecret) {
+    return undefined;
+  }
+
+  return {
+    verifyAccessToken(token: string): Promise<AuthInfo> {
+      const tokenDigest = digest(token);
+      const index = tokenDigests.findIndex((candidate) =>
+        timingSafeEqual(candidate, tokenDigest),
+      );
+      if (index !== -1) {
+        return Promise.resolve({
+          token,
+          clientId: `token-${index + 1}`,
+          scopes: [],
+          expiresAt: NO_EXPIRY,
+        });
+      }
+      if (jwtSecret && token.split(".").length === 3) {
+        return Promise.resolve(verifyJwt(token, jwtSecret));
+      }
+      return Promise.reject(new InvalidTokenError("Invalid bearer token"));
+    },
+  };
+}
+
+/**
+ * Pick the Airtop API key for a client: its own key from the
+ * x-airtop-api-key header when per-client keys are enabled,
+ * otherwise the server's key.
+ */
+export function resolveAirtopApiKey(
+  req: Request,
+  serverApiKey: string | undefined,
+  allowClientApiKeys: boolean,
+): string | undefined {
+  const clientApiKey = req.header(AIRTOP_API_KEY_HEADER);
+  if (allowClientApiKeys && clientApiKey) {
+    return clientApiKey;
+  }
+  return serverApiKey;
+}
+
+function verifyJwt(token: string, secret: string): AuthInfo {
+  const [encodedHeader, encodedPayload, signature] = token.split(".");
+  const header = decodeSegment<{ alg?: string }>(encodedHeader);
+  if (header.alg !== "HS256") {
+    throw new InvalidTokenError("Unsupported JWT algorithm");
+  }
+
+  const expected = createHmac("sha256", secret)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest();
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new InvalidTokenError("Invalid JWT signature");
+  }
+
+  const payload = decodeSegment<JwtPayload>(encodedPayload);
+  const now = Date.now() / 1000;
+  if (payload.nbf !== undefined && payload.nbf > now) {
+    throw new InvalidTokenError("JWT is not yet valid");
+  }
+  if (payload.exp !== undefined && payload.exp <= now) {
+    throw new InvalidTokenError("JWT has expired");
+  }
+
+  return {
+    token,
+    clientId: payload.client_id ?? payload.sub ?? "jwt",
+    scopes: payload.scope ? payload.scope.split(" ") : [],
+    expiresAt: payload.exp ?? NO_EXPIRY,
+  };
+}
+
+// Decode a JWT header or payload, which must be a JSON object
+function decodeSegment<T extends object>(segment: string): T {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidTokenError("Malformed JWT");
+  }
+  if (!decoded || typeof decoded !== "object" || Array.isArray(decoded)) {
+    throw new InvalidTokenError("Malformed JWT");
+  }
+  return decoded as T;
+}
+
+function digest(value: string) {
+  return createHash("sha256").update(value).digest();
+}
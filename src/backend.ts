@@ -0,0 +1,116 @@
+import { AirtopClient } from "@airtop/sdk";
+import { CdpPageInput } from "./cdp-input.js";
+import { KeyChord } from "./keys.js";
+
+type AirtopFiles = AirtopClient["files"];
+type AirtopProfiles = AirtopClient["profiles"];
+type AirtopSessions = AirtopClient["sessions"];
+type AirtopWindows = AirtopClient["windows"];
+
+// Viewport coordinates in CSS pixels
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Outcome of choosing an option in the <select> at a point: the chosen
+// label, the labels available when none matched, or undefined when the
+// element there isn't a <select>
+export type SelectOptionOutcome =
+  | { selected: string }
+  | { available: string[] }
+  | undefined;
+
+// Formats the page can be read in directly, rather than through Airtop
+export type PageTextFormat = "markdown" | "links";
+
+export interface PageText {
+  title: string;
+  url: string;
+  text: string;
+}
+
+/**
+ * Low-level page input for actions Airtop has no endpoint for. Elements are
+ * still found from natural language: an Airtop hover moves the pointer onto
+ * them and `pointerPosition` reports where it landed.
+ */
+export interface PageInput {
+  // Forget the last pointer position and record the next one
+  trackPointer(sessionId: string, windowId: string): Promise<void>;
+  pointerPosition(
+    sessionId: string,
+    windowId: string,
+  ): Promise<Point | undefined>;
+  pressKeys(
+    sessionId: string,
+    windowId: string,
+    chords: KeyChord[],
+  ): Promise<void>;
+  selectOption(
+    sessionId: string,
+    windowId: string,
+    at: Point,
+    option: string,
+  ): Promise<SelectOptionOutcome>;
+  drag(
+    sessionId: string,
+    windowId: string,
+    from: Point,
+    to: Point,
+  ): Promise<void>;
+  // Read the page as markdown, or as a markdown list of its links
+  readPage(
+    sessionId: string,
+    windowId: string,
+    format: PageTextFormat,
+    signal?: AbortSignal,
+  ): Promise<PageText>;
+  // Close the connection to a session, e.g. once it is terminated
+  disconnect(sessionId: string): void;
+}
+
+/**
+ * The browser operations the tools rely on: a subset of AirtopClient plus
+ * page input over CDP. Tests inject an in-memory implementation instead.
+ */
+export interface BrowserBackend {
+  sessions: Pick<
+    AirtopSessions,
+    "create" | "getInfo" | "terminate" | "saveProfileOnTermination"
+  >;
+  windows: Pick<
+    AirtopWindows,
+    | "create"
+    | "list"
+    | "close"
+    | "getWindowInfo"
+    | "loadUrl"
+    | "pageQuery"
+    | "paginatedExtraction"
+    | "click"
+    | "hover"
+    | "type"
+    | "scroll"
+    | "scrapeContent"
+    | "screenshot"
+    | "monitor"
+    | "uploadFileAndSelectInput"
+  >;
+  profiles: Pick<AirtopProfiles, "delete">;
+  files: Pick<AirtopFiles, "list" | "waitForDownloadAvailable" | "download">;
+  input: PageInput;
+}
+
+export function createAirtopBackend(apiKey: string): BrowserBackend {
+  const client = new AirtopClient({
+    apiKey,
+  });
+  return {
+    sessions: client.sessions,
+    windows: client.windows,
+    profiles: client.profiles,
+    files: client.files,
+    input: new CdpPageInput(apiKey, client),
+  };
+}
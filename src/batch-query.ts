@@ -0,0 +1,311 @@
+import { Issue } from "@airtop/sdk/api/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { BrowserBackend } from "./backend.js";
+import { SessionDefaults } from "./config.js";
+import { WaitUntil, waitUntilInput } from "./navigation.js";
+import { describeProgress } from "./progress.js";
+import { SessionLifecycleManager } from "./session-lifecycle.js";
+import { SessionRegistry } from "./session-registry.js";
+import {
+  compileOutputSchema,
+  JsonSchema,
+  outputSchemaInput,
+  OutputValidator,
+  reportInvalidOutputSchema,
+} from "./structured-output.js";
+import {
+  classifyError,
+  classifyIssues,
+  errorResult,
+  ErrorCategory,
+  reportAirtopErrors,
+} from "./tool-errors.js";
+import { ToolExtra } from "./tool-pipeline.js";
+
+const MAX_URLS = 100;
+const DEFAULT_CONCURRENCY = 5;
+const MAX_CONCURRENCY = 20;
+// Windows open at once in each session the tool starts for itself
+const WINDOWS_PER_SESSION = 5;
+// Used when the call doesn't set its own timeout
+const DEFAULT_URL_TIMEOUT_SECONDS = 120;
+
+export interface UrlResult {
+  url: string;
+  status: "ok" | "error" | "timeout" | "skipped";
+  result?: unknown;
+  error?: string;
+  errorCategory?: ErrorCategory;
+  durationMs?: number;
+}
+
+class QueryError extends Error {
+  constructor(
+    message: string,
+    readonly category: ErrorCategory = "validation",
+  ) {
+    super(message);
+  }
+}
+
+function issuesError(errors: Issue[]) {
+  return new QueryError(
+    errors.map((error) => error.message).join("\n"),
+    classifyIssues(errors),
+  );
+}
+
+/**
+ * Register the batchQuery tool, which runs one pageQuery prompt over many
+ * URLs in parallel windows and returns a result per URL.
+ */
+export function registerBatchQueryTool(
+  server: McpServer,
+  airtopClient: BrowserBackend,
+  sessionRegistry: SessionRegistry,
+  sessionLifecycle: SessionLifecycleManager,
+  sessionDefaults: SessionDefaults = {},
+) {
+  // Open the URL in a window of its own, query it and close the window
+  async function queryUrl(
+    sessionId: string,
+    url: string,
+    prompt: string,
+    validator: OutputValidator | undefined,
+    waitUntil: WaitUntil | undefined,
+    timeoutSeconds: number,
+    signal: AbortSignal,
+  ): Promise<UrlResult> {
+    sessionLifecycle.touch(sessionId);
+    const startedAt = Date.now();
+    const timeout = AbortSignal.timeout(timeoutSeconds * 1000);
+    const requestOptions = { abortSignal: AbortSignal.any([signal, timeout]) };
+    let windowId: string | undefined;
+    try {
+      const window = await airtopClient.windows.create(
+        sessionId,
+        { url, waitUntil },
+        requestOptions,
+      );
+      if (window.errors?.length) {
+        throw issuesError(window.errors);
+      }
+      windowId = window.data.windowId;
+      const response = await airtopClient.windows.pageQuery(
+        sessionId,
+        windowId,
+        {
+          prompt,
+          ...(validator && {
+            configuration: { outputSchema: validator.schema },
+          }),
+        },
+        requestOptions,
+      );
+      if (response.errors?.length) {
+        throw issuesError(response.errors);
+      }
+      let result: unknown = response.data.modelResponse;
+      if (validator) {
+        const outcome = validator.check(response.data.modelResponse);
+        if (!outcome.ok) {
+          throw new QueryError(
+            `Response did not match outputSchema: ${outcome.errors.join("; ")}`,
+          );
+        }
+        result = outcome.value;
+      }
+      return { url, status: "ok", result, durationMs: Date.now() - startedAt };
+    } catch (err) {
+      return {
+        url,
+        status: timeout.aborted ? "timeout" : "error",
+        error: timeout.aborted
+          ? `Timed out after ${timeoutSeconds} seconds`
+          : err instanceof QueryError
+            ? err.message
+            : `Internal error: ${String(err)}`,
+        ...(!timeout.aborted && {
+          errorCategory:
+            err instanceof QueryError ? err.category : classifyError(err),
+        }),
+        durationMs: Date.now() - startedAt,
+      };
+    } finally {
+      if (windowId) {
+        await airtopClient.windows.close(sessionId, windowId).catch((error) => {
+          console.warn(
+            `Failed to close batchQuery window ${windowId}: ${String(error)}`,
+          );
+        });
+      }
+    }
+  }
+
+  // Start the sessions the batch runs in, stopping early at the session
+  // limit as long as there is at least one
+  async function startSessions(count: number) {
+    const sessionIds: string[] = [];
+    while (sessionIds.length < count) {
+      const releaseSession = sessionLifecycle.reserveSession();
+      if (!releaseSession) {
+        break;
+      }
+      try {
+        const session = await airtopClient.sessions.create(
+          Object.keys(sessionDefaults).length
+            ? { configuration: sessionDefaults }
+            : undefined,
+        );
+        if (session.errors) {
+          if (!sessionIds.length) {
+            return { errors: session.errors };
+          }
+          break;
+        }
+        sessionRegistry.addSession(session.data.id);
+        sessionIds.push(session.data.id);
+      } finally {
+        releaseSession();
+      }
+    }
+    return { sessionIds };
+  }
+
+  server.tool(
+    "batchQuery",
+    `Run the same pageQuery prompt over many URLs in parallel and get a result per URL. Each URL is opened in its own window,
+     queried and closed again. URLs that fail are reported individually without stopping the rest.`,
+    {
+      urls: z.array(z.string()).min(1).max(MAX_URLS).describe("Pages to query"),
+      prompt: z.string().describe("The AI prompt to run on each page"),
+      outputSchema: outputSchemaInput.optional(),
+      sessionId: z
+        .string()
+        .optional()
+        .describe(
+          "Session to open the windows in, e.g. one that is logged in (default: start sessions for the batch and terminate them after)",
+        ),
+      concurrency: z
+        .number()
+        .int()
+        .positive()
+        .max(MAX_CONCURRENCY)
+        .optional()
+        .describe(
+          `How many pages to query at once (default: ${DEFAULT_CONCURRENCY})`,
+        ),
+      waitUntil: waitUntilInput,
+      timeoutSeconds: z
+        .number()
+        .positive()
+        .optional()
+        .describe(
+          `Give up on a page after this many seconds (default: ${DEFAULT_URL_TIMEOUT_SECONDS})`,
+        ),
+    },
+    async (
+      {
+        urls,
+        prompt,
+        outputSchema,
+        sessionId,
+        concurrency = DEFAULT_CONCURRENCY,
+        waitUntil,
+        timeoutSeconds = DEFAULT_URL_TIMEOUT_SECONDS,
+      }: {
+        urls: string[];
+        prompt: string;
+        outputSchema?: JsonSchema | string;
+        sessionId?: string;
+        concurrency?: number;
+        waitUntil?: WaitUntil;
+        timeoutSeconds?: number;
+      },
+      extra: ToolExtra,
+    ) => {
+      console.warn("batchQuery request", urls.length, prompt);
+      let validator: OutputValidator | undefined;
+      try {
+        validator = outputSchema
+          ? compileOutputSchema(outputSchema)
+          : undefined;
+      } catch (err) {
+        return reportInvalidOutputSchema(err);
+      }
+
+      const workers = Math.min(concurrency, urls.length);
+      let sessionIds = sessionId ? [sessionId] : [];
+      if (!sessionId) {
+        const started = await startSessions(
+          Math.ceil(workers / WINDOWS_PER_SESSION),
+        );
+        if (started.errors) {
+          return reportAirtopErrors(started.errors);
+        }
+        if (!started.sessionIds.length) {
+          return errorResult(
+            "Session limit reached. Pass the sessionId of a session you already have, or terminate one with the terminateSession tool.",
+            "rate_limited",
+          );
+        }
+        sessionIds = started.sessionIds;
+      }
+
+      const results: UrlResult[] = [];
+      let next = 0;
+      let finished = 0;
+      describeProgress(extra, { message: `Queried 0 of ${urls.length} URLs` });
+      try {
+        await Promise.all(
+          Array.from({ length: workers }, async (_, worker) => {
+            const workerSessionId = sessionIds[worker % sessionIds.length];
+            while (next < urls.length) {
+              const index = next++;
+              if (extra.signal.aborted) {
+                results[index] = { url: urls[index], status: "skipped" };
+                continue;
+              }
+              results[index] = await queryUrl(
+                workerSessionId,
+                urls[index],
+                prompt,
+                validator,
+                waitUntil,
+                timeoutSeconds,
+                extra.signal,
+              );
+              finished++;
+              describeProgress(extra, {
+                message: `Queried ${finished} of ${urls.length} URLs`,
+              });
+            }
+          }),
+        );
+      } finally {
+        // Sessions started for the batch aren't needed once it is done
+        if (!sessionId) {
+          await Promise.allSettled(
+            sessionIds.map((id) => sessionLifecycle.terminate(id)),
+          );
+        }
+      }
+
+      const succeeded = results.filter(({ status }) => status === "ok").length;
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              succeeded,
+              failed: urls.length - succeeded,
+              results,
+            }),
+          },
+        ],
+        isError: succeeded === 0,
+      };
+    },
+  );
+}
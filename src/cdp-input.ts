@@ -0,0 +1,499 @@
+import { AirtopClient } from "@airtop/sdk";
+import WebSocket from "ws";
+import {
+  PageInput,
+  PageText,
+  PageTextFormat,
+  Point,
+  SelectOptionOutcome,
+} from "./backend.js";
+import { KeyChord, MODIFIER_BITS, MODIFIER_KEYS } from "./keys.js";
+
+// Give up on a CDP command that gets no reply in this time
+const COMMAND_TIMEOUT_MS = 30_000;
+// Pointer moves between pressing and releasing the button, so pages see a drag
+const DRAG_STEPS = 10;
+
+interface PendingCommand {
+  resolve: (result: Record<string, unknown>) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface CdpResponse {
+  id?: number;
+  result?: Record<string, unknown>;
+  error?: { message: string };
+}
+
+// A CDP websocket to one Airtop browser, multiplexing page sessions
+class CdpConnection {
+  private nextId = 1;
+  private pending = new Map<number, PendingCommand>();
+
+  constructor(private socket: WebSocket) {
+    socket.on("message", (data) => {
+      let message: CdpResponse;
+      try {
+        // Messages arrive as Buffers with the default binaryType
+        message = JSON.parse((data as Buffer).toString()) as CdpResponse;
+      } catch (error) {
+        console.warn(`Ignoring CDP message that isn't JSON: ${String(error)}`);
+        return;
+      }
+      const command = message.id && this.pending.get(message.id);
+      if (!command) {
+        return;
+      }
+      this.pending.delete(message.id!);
+      clearTimeout(command.timer);
+      if (message.error) {
+        command.reject(new Error(`CDP error: ${message.error.message}`));
+      } else {
+        command.resolve(message.result ?? {});
+      }
+    });
+    // Errors once the socket is open, e.g. a reset connection, fail the
+    // commands waiting on it rather than crashing the process
+    socket.on("error", (error) => this.failPending(error));
+    socket.on("close", () =>
+      this.failPending(new Error("CDP connection closed")),
+    );
+  }
+
+  static open(url: string, apiKey: string) {
+    return new Promise<CdpConnection>((resolve, reject) => {
+      const socket = new WebSocket(url, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+      });
+      socket.once("open", () => resolve(new CdpConnection(socket)));
+      socket.once("error", reject);
+    });
+  }
+
+  get closed() {
+    return this.socket.readyState !== WebSocket.OPEN;
+  }
+
+  close() {
+    this.socket.close();
+  }
+
+  send(
+    method: string,
+    params: object = {},
+    sessionId?: string,
+    signal?: AbortSignal,
+  ) {
+    const id = this.nextId++;
+    return new Promise<Record<string, unknown>>((resolve, reject) => {
+      signal?.throwIfAborted();
+      // Stop waiting for the reply once the caller gives up on it
+      const onAbort = () => {
+        this.pending.delete(id);
+        clearTimeout(timer);
+        reject(signal!.reason as Error);
+      };
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        signal?.removeEventListener("abort", onAbort);
+        reject(new Error(`CDP ${method} timed out`));
+      }, COMMAND_TIMEOUT_MS);
+      this.pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+        timer,
+      });
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.socket.send(JSON.stringify({ id, method, params, sessionId }));
+    });
+  }
+
+  private failPending(error: Error) {
+    for (const command of this.pending.values()) {
+      clearTimeout(command.timer);
+      command.reject(error);
+    }
+    this.pending.clear();
+  }
+}
+
+// Runs in the page: remember where the pointer last moved
+const TRACK_POINTER = `(() => {
+  if (!window.__mcpPointerTracked) {
+    window.__mcpPointerTracked = true;
+    document.addEventListener("mousemove", (event) => {
+      window.__mcpPointer = { x: event.clientX, y: event.clientY };
+    }, true);
+  }
+  window.__mcpPointer = undefined;
+})()`;
+
+// Runs in the page: choose an option, by label or value, in the <select>
+// at a point. Called with x, y and the option.
+const SELECT_OPTION_AT = `((x, y, option) => {
+  const element = document.elementFromPoint(x, y);
+  const select = element instanceof HTMLLabelElement
+    ? element.control
+    : element && element.closest("select");
+  if (!(select instanceof HTMLSelectElement)) {
+    return undefined;
+  }
+  const options = Array.from(select.options);
+  const wanted = option.trim().toLowerCase();
+  const match =
+    options.find((candidate) =>
+      candidate.label.trim().toLowerCase() === wanted || candidate.value === option) ||
+    options.find((candidate) => candidate.label.toLowerCase().includes(wanted));
+  if (!match) {
+    return { available: options.map((candidate) => candidate.label) };
+  }
+  select.value = match.value;
+  select.dispatchEvent(new Event("input", { bubbles: true }));
+  select.dispatchEvent(new Event("change", { bubbles: true }));
+  return { selected: match.label };
+})`;
+
+// Runs in the page: convert the visible document to markdown
+const PAGE_MARKDOWN = `(() => {
+  const skipped = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "svg", "CANVAS", "IFRAME", "HEAD"]);
+  const blocks = new Set(["P", "DIV", "SECTION", "ARTICLE", "MAIN", "HEADER", "FOOTER", "NAV", "ASIDE", "FORM", "FIGURE", "DL", "DT", "DD"]);
+  const hidden = (element) =>
+    element.hidden ||
+    element.getAttribute("aria-hidden") === "true" ||
+    (element.checkVisibility && !element.checkVisibility());
+  const children = (element, depth) =>
+    Array.from(element.childNodes).map((child) => convert(child, depth)).join("");
+  const list = (element, depth) => {
+    let index = 0;
+    return "\\n" + Array.from(element.children)
+      .filter((item) => item.tagName === "LI" && !hidden(item))
+      .map((item) => {
+        index++;
+        const marker = element.tagName === "OL" ? index + ". " : "- ";
+        const text = children(item, depth + 1).trim().replace(/\\n+/g, "\\n" + "  ".repeat(depth + 1));
+        return "  ".repeat(depth) + marker + text;
+      })
+      .join("\\n") + "\\n\\n";
+  };
+  const table = (element) => {
+    const rows = Array.from(element.rows).map((row) =>
+      "| " + Array.from(row.cells)
+        .map((cell) => cell.innerText.replace(/\\s+/g, " ").replace(/\\|/g, "\\\\|").trim())
+        .join(" | ") + " |");
+    if (!rows.length) {
+      return "";
+    }
+    const columns = element.rows[0].cells.length;
+    rows.splice(1, 0, "|" + " --- |".repeat(columns));
+    return "\\n\\n" + rows.join("\\n") + "\\n\\n";
+  };
+  const convert = (node, depth) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return node.textContent.replace(/\\s+/g, " ");
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE || skipped.has(node.tagName) || hidden(node)) {
+      return "";
+    }
+    const tag = node.tagName;
+    if (/^H[1-6]$/.test(tag)) {
+      return "\\n\\n" + "#".repeat(Number(tag[1])) + " " + children(node, depth).trim() + "\\n\\n";
+    }
+    switch (tag) {
+      case "BR":
+        return "\\n";
+      case "HR":
+        return "\\n\\n---\\n\\n";
+      case "A": {
+        const text = children(node, depth).trim();
+        const href = node.getAttribute("href");
+        return text && href && !href.startsWith("javascript:") ? "[" + text + "](" + node.href + ")" : text;
+      }
+      case "STRONG":
+      case "B": {
+        const text = children(node, depth).trim();
+        return text ? "**" + text + "**" : "";
+      }
+      case "EM":
+      case "I": {
+        const text = children(node, depth).trim();
+        return text ? "_" + text + "_" : "";
+      }
+      case "CODE":
+        return "\`" + node.textContent + "\`";
+      case "PRE":
+        return "\\n\\n\`\`\`\\n" + node.textContent.replace(/\\n$/, "") + "\\n\`\`\`\\n\\n";
+      case "IMG":
+        return node.alt ? "![" + node.alt + "](" + node.src + ")" : "";
+      case "UL":
+      case "OL":
+        return list(node, depth);
+      case "TABLE":
+        return table(node);
+      case "BLOCKQUOTE":
+        return "\\n\\n" + children(node, depth).trim().split("\\n").map((line) => "> " + line).join("\\n") + "\\n\\n";
+      default:
+        return blocks.has(tag) ? "\\n\\n" + children(node, depth) + "\\n\\n" : children(node, depth);
+    }
+  };
+  const text = convert(document.body, 0)
+    .split("\\n")
+    .map((line) => line.replace(/[ \\t]+$/, ""))
+    .join("\\n")
+    .replace(/\\n{3,}/g, "\\n\\n")
+    .trim();
+  return { title: document.title, url: location.href, text };
+})()`;
+
+// Runs in the page: list its links as markdown, once each
+const PAGE_LINKS = `(() => {
+  const seen = new Set();
+  const lines = [];
+  for (const link of Array.from(document.links)) {
+    const text = (link.innerText || link.title || link.getAttribute("aria-label") || "").replace(/\\s+/g, " ").trim();
+    const key = text + " " + link.href;
+    if (link.protocol === "javascript:" || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    lines.push("- [" + (text || link.href) + "](" + link.href + ")");
+  }
+  return { title: document.title, url: location.href, text: lines.join("\\n") };
+})()`;
+
+/**
+ * PageInput over the Chrome DevTools Protocol connection Airtop exposes for
+ * each session. Connections are opened on first use and reused.
+ */
+export class CdpPageInput implements PageInput {
+  private connections = new Map<string, Promise<CdpConnection>>();
+  // CDP session attached to each window's target, keyed by session/window
+  private targets = new Map<string, Promise<string>>();
+
+  constructor(
+    private apiKey: string,
+    private client: Pick<AirtopClient, "sessions" | "windows">,
+  ) {}
+
+  async trackPointer(sessionId: string, windowId: string) {
+    // Move away first, so hovering the element the pointer is already on
+    // still reports a position
+    await this.dispatch(sessionId, windowId, "Input.dispatchMouseEvent", {
+      type: "mouseMoved",
+      x: 0,
+      y: 0,
+    });
+    await this.evaluate(sessionId, windowId, TRACK_POINTER);
+  }
+
+  async pointerPosition(sessionId: string, windowId: string) {
+    return (await this.evaluate(sessionId, windowId, "window.__mcpPointer")) as
+      | Point
+      | undefined;
+  }
+
+  async pressKeys(sessionId: string, windowId: string, chords: KeyChord[]) {
+    for (const { modifiers, key } of chords) {
+      let bits = 0;
+      for (const modifier of modifiers) {
+        bits |= MODIFIER_BITS[modifier];
+        await this.keyEvent(sessionId, windowId, "rawKeyDown", {
+          ...MODIFIER_KEYS[modifier],
+          modifiers: bits,
+        });
+      }
+      // Shortcuts like Control+A don't insert text
+      const typesText = !(bits & ~MODIFIER_BITS.Shift) && key.text;
+      await this.keyEvent(
+        sessionId,
+        windowId,
+        typesText ? "keyDown" : "rawKeyDown",
+        {
+          ...key,
+          text: typesText || undefined,
+          modifiers: bits,
+        },
+      );
+      await this.keyEvent(sessionId, windowId, "keyUp", {
+        ...key,
+        text: undefined,
+        modifiers: bits,
+      });
+      for (const modifier of [...modifiers].reverse()) {
+        bits &= ~MODIFIER_BITS[modifier];
+        await this.keyEvent(sessionId, windowId, "keyUp", {
+          ...MODIFIER_KEYS[modifier],
+          modifiers: bits,
+        });
+      }
+    }
+  }
+
+  async selectOption(
+    sessionId: string,
+    windowId: string,
+    at: Point,
+    option: string,
+  ) {
+    return (await this.evaluate(
+      sessionId,
+      windowId,
+      `${SELECT_OPTION_AT}(${at.x}, ${at.y}, ${JSON.stringify(option)})`,
+    )) as SelectOptionOutcome;
+  }
+
+  async drag(sessionId: string, windowId: string, from: Point, to: Point) {
+    const mouse = (params: object) =>
+      this.dispatch(sessionId, windowId, "Input.dispatchMouseEvent", params);
+    await mouse({ type: "mouseMoved", ...from });
+    await mouse({
+      type: "mousePressed",
+      ...from,
+      button: "left",
+      clickCount: 1,
+    });
+    for (let step = 1; step <= DRAG_STEPS; step++) {
+      await mouse({
+        type: "mouseMoved",
+        x: from.x + ((to.x - from.x) * step) / DRAG_STEPS,
+        y: from.y + ((to.y - from.y) * step) / DRAG_STEPS,
+        button: "left",
+        buttons: 1,
+      });
+    }
+    await mouse({
+      type: "mouseReleased",
+      ...to,
+      button: "left",
+      clickCount: 1,
+    });
+  }
+
+  async readPage(
+    sessionId: string,
+    windowId: string,
+    format: PageTextFormat,
+    signal?: AbortSignal,
+  ) {
+    return (await this.evaluate(
+      sessionId,
+      windowId,
+      format === "markdown" ? PAGE_MARKDOWN : PAGE_LINKS,
+      signal,
+    )) as PageText;
+  }
+
+  disconnect(sessionId: string) {
+    const connection = this.connections.get(sessionId);
+    this.forget(sessionId);
+    // A connection still opening is closed as soon as it opens
+    connection?.then(
+      (open) => open.close(),
+      () => {},
+    );
+  }
+
+  private keyEvent(
+    sessionId: string,
+    windowId: string,
+    type: "keyDown" | "rawKeyDown" | "keyUp",
+    { keyCode, ...event }: Record<string, unknown>,
+  ) {
+    return this.dispatch(sessionId, windowId, "Input.dispatchKeyEvent", {
+      type,
+      ...event,
+      windowsVirtualKeyCode: keyCode,
+    });
+  }
+
+  private async evaluate(
+    sessionId: string,
+    windowId: string,
+    expression: string,
+    signal?: AbortSignal,
+  ) {
+    const { result, exceptionDetails } = (await this.dispatch(
+      sessionId,
+      windowId,
+      "Runtime.evaluate",
+      { expression, returnByValue: true },
+      signal,
+    )) as {
+      result?: { value?: unknown };
+      exceptionDetails?: { text: string };
+    };
+    if (exceptionDetails) {
+      throw new Error(`Script error in page: ${exceptionDetails.text}`);
+    }
+    return result?.value;
+  }
+
+  private async dispatch(
+    sessionId: string,
+    windowId: string,
+    method: string,
+    params: object,
+    signal?: AbortSignal,
+  ) {
+    const connection = await this.connect(sessionId);
+    const target = await this.attach(connection, sessionId, windowId);
+    return connection.send(method, params, target, signal);
+  }
+
+  private async connect(sessionId: string) {
+    const existing = this.connections.get(sessionId);
+    if (existing && !(await existing.catch(() => undefined))?.closed) {
+      return existing;
+    }
+    this.forget(sessionId);
+    const connection = this.client.sessions
+      .getInfo(sessionId)
+      .then(({ data }) => {
+        if (!data.cdpWsUrl) {
+          throw new Error(`Session ${sessionId} has no CDP endpoint`);
+        }
+        return CdpConnection.open(data.cdpWsUrl, this.apiKey);
+      });
+    this.connections.set(sessionId, connection);
+    connection.catch(() => this.forget(sessionId));
+    return connection;
+  }
+
+  private attach(
+    connection: CdpConnection,
+    sessionId: string,
+    windowId: string,
+  ) {
+    const key = `${sessionId}/${windowId}`;
+    let target = this.targets.get(key);
+    if (!target) {
+      target = this.client.windows
+        .getWindowInfo(sessionId, windowId)
+        .then(({ data }) =>
+          connection.send("Target.attachToTarget", {
+            targetId: data.targetId,
+            flatten: true,
+          }),
+        )
+        .then(({ sessionId: cdpSessionId }) => cdpSessionId as string);
+      this.targets.set(key, target);
+      target.catch(() => this.targets.delete(key));
+    }
+    return target;
+  }
+
+  private forget(sessionId: string) {
+    this.connections.delete(sessionId);
+    for (const key of this.targets.keys()) {
+      if (key.startsWith(`${sessionId}/`)) {
+        this.targets.delete(key);
+      }
+    }
+  }
+}
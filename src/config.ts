@@ -0,0 +1,577 @@
+import { readFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import { LOG_FORMATS, LOG_LEVELS } from "./logging.js";
+import { TOOL_PRESET_NAMES } from "./tool-filter.js";
+
+export const CONFIG_FILE_NAME = "airtop-mcp.config.json";
+export const DEFAULT_PORT = 3456;
+export const DEFAULT_HOST = "127.0.0.1";
+export const DEFAULT_MONITOR_TIMEOUT_SECONDS = 30;
+// Airtop's own default, used when a session's configuration doesn't set one
+export const DEFAULT_SESSION_TIMEOUT_MINUTES = 10;
+export const DEFAULT_PROFILES_FILE = path.join(
+  os.homedir(),
+  ".airtop-mcp",
+  "profiles.json",
+);
+export const DEFAULT_MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+export const DEFAULT_MAX_INLINE_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+
+// Applied to every session this server creates, unless a call overrides them
+const sessionDefaultsSchema = z
+  .object({
+    timeoutMinutes: z.number().int().positive().optional(),
+    proxy: z.union([z.boolean(), z.object({}).passthrough()]).optional(),
+    solveCaptcha: z.boolean().optional(),
+    extensionIds: z.array(z.string()).optional(),
+  })
+  .strict();
+
+// Which tools to register; see tool-filter.ts
+const toolsSchema = z
+  .object({
+    preset: z.enum(TOOL_PRESET_NAMES).optional(),
+    allow: z.array(z.string()).optional(),
+    deny: z.array(z.string()).optional(),
+  })
+  .strict();
+
+// File upload and download limits; see files.ts
+const filesSchema = z
+  .object({
+    uploadDirs: z.array(z.string().min(1)).optional(),
+    maxUploadBytes: z.number().int().positive().optional(),
+    downloadDir: z.string().min(1).optional(),
+    maxInlineDownloadBytes: z.number().int().positive().optional(),
+  })
+  .strict();
+
+// Usage budgets; see usage.ts
+const budgetsSchema = z
+  .object({
+    credits: z.number().positive().optional(),
+    aiCalls: z.number().int().positive().optional(),
+    sessionMinutes: z.number().positive().optional(),
+    sessionCredits: z.number().positive().optional(),
+    sessionAiCalls: z.number().int().positive().optional(),
+  })
+  .strict();
+
+// Warm session pool; see session-pool.ts
+const poolSchema = z
+  .object({
+    size: z.number().int().min(0).optional(),
+    maxAgeMinutes: z.number().positive().optional(),
+  })
+  .strict();
+
+// Bearer auth and per-client Airtop keys in http mode; see auth.ts
+const authSchema = z
+  .object({
+    tokens: z.array(z.string().min(1)).optional(),
+    jwtSecret: z.string().min(1).optional(),
+    clientApiKeys: z.boolean().optional(),
+  })
+  .strict();
+
+// Session cap and idle timeout; see session-lifecycle.ts
+const sessionLimitsSchema = z
+  .object({
+    maxSessions: z.number().int().positive().optional(),
+    idleTimeoutMinutes: z.number().positive().optional(),
+  })
+  .strict();
+
+// Tool call recording; see trace.ts
+const tracesSchema = z
+  .object({
+    record: z.boolean().optional(),
+    dir: z.string().min(1).optional(),
+  })
+  .strict();
+
+export const configSchema = z
+  .object({
+    host: z.string().min(1).default(DEFAULT_HOST),
+    port: z.number().int().min(0).max(65535).default(DEFAULT_PORT),
+    transport: z.enum(["stdio", "http"]).default("stdio"),
+    logLevel: z.enum(LOG_LEVELS).default("info"),
+    // JSON by default in http mode, text on stdio
+    logFormat: z.enum(LOG_FORMATS).optional(),
+    monitorTimeoutSeconds: z
+      .number()
+      .positive()
+      .default(DEFAULT_MONITOR_TIMEOUT_SECONDS),
+    // Where the profile registry is kept, see profile-registry.ts
+    profilesFile: z.string().min(1).default(DEFAULT_PROFILES_FILE),
+    // Encrypted secrets file, see secrets.ts
+    secretsFile: z.string().min(1).optional(),
+    // Directory of extra prompt templates, see prompts.ts
+    promptsDir: z.string().min(1).optional(),
+    sessionDefaults: sessionDefaultsSchema.default({}),
+    tools: toolsSchema.default({}),
+    files: filesSchema.default({}),
+    budgets: budgetsSchema.default({}),
+    pool: poolSchema.default({}),
+    auth: authSchema.default({}),
+    sessionLimits: sessionLimitsSchema.default({}),
+    traces: tracesSchema.default({}),
+  })
+  .strict();
+
+export type ServerConfig = z.infer<typeof configSchema>;
+export type SessionDefaults = z.infer<typeof sessionDefaultsSchema>;
+export type ToolsConfig = z.infer<typeof toolsSchema>;
+export type FilesConfig = z.infer<typeof filesSchema>;
+export type BudgetsConfig = z.infer<typeof budgetsSchema>;
+export type PoolConfig = z.infer<typeof poolSchema>;
+export type AuthSettings = z.infer<typeof authSchema>;
+export type SessionLimitsConfig = z.infer<typeof sessionLimitsSchema>;
+export type TracesConfig = z.infer<typeof tracesSchema>;
+
+// One config layer before defaults are applied
+const layerSchema = configSchema.partial();
+type ConfigLayer = z.infer<typeof layerSchema>;
+
+type SettingType = "string" | "number" | "boolean" | "list";
+
+interface Setting {
+  path:
+    | [keyof ServerConfig]
+    | ["sessionDefaults", keyof SessionDefaults]
+    | ["tools", keyof ToolsConfig]
+    | ["files", keyof FilesConfig]
+    | ["budgets", keyof BudgetsConfig]
+    | ["pool", keyof PoolConfig]
+    | ["auth", keyof AuthSettings]
+    | ["sessionLimits", keyof SessionLimitsConfig]
+    | ["traces", keyof TracesConfig];
+  // Environment variables, first match wins
+  env: string[];
+  flag: string;
+  type: SettingType;
+}
+
+// Settings that can also be given as environment variables and CLI flags
+const SETTINGS: Setting[] = [
+  { path: ["host"], env: ["AIRTOP_MCP_HOST"], flag: "host", type: "string" },
+  {
+    path: ["port"],
+    env: ["AIRTOP_MCP_PORT", "PORT"],
+    flag: "port",
+    type: "number",
+  },
+  {
+    path: ["transport"],
+    env: ["AIRTOP_MCP_TRANSPORT"],
+    flag: "transport",
+    type: "string",
+  },
+  {
+    path: ["logLevel"],
+    env: ["AIRTOP_LOG_LEVEL"],
+    flag: "log-level",
+    type: "string",
+  },
+  {
+    path: ["logFormat"],
+    env: ["AIRTOP_LOG_FORMAT"],
+    flag: "log-format",
+    type: "string",
+  },
+  {
+    path: ["monitorTimeoutSeconds"],
+    env: ["AIRTOP_MONITOR_TIMEOUT_SECONDS"],
+    flag: "monitor-timeout",
+    type: "number",
+  },
+  {
+    path: ["profilesFile"],
+    env: ["AIRTOP_PROFILES_FILE"],
+    flag: "profiles-file",
+    type: "string",
+  },
+  {
+    path: ["secretsFile"],
+    env: ["AIRTOP_SECRETS_FILE"],
+    flag: "secrets-file",
+    type: "string",
+  },
+  {
+    path: ["promptsDir"],
+    env: ["AIRTOP_PROMPTS_DIR"],
+    flag: "prompts-dir",
+    type: "string",
+  },
+  {
+    path: ["sessionDefaults", "timeoutMinutes"],
+    env: ["AIRTOP_SESSION_TIMEOUT_MINUTES"],
+    flag: "session-timeout",
+    type: "number",
+  },
+  {
+    path: ["sessionDefaults", "proxy"],
+    env: ["AIRTOP_SESSION_PROXY"],
+    flag: "proxy",
+    type: "boolean",
+  },
+  {
+    path: ["sessionDefaults", "solveCaptcha"],
+    env: ["AIRTOP_SESSION_SOLVE_CAPTCHA"],
+    flag: "solve-captcha",
+    type: "boolean",
+  },
+  {
+    path: ["sessionDefaults", "extensionIds"],
+    env: ["AIRTOP_SESSION_EXTENSION_IDS"],
+    flag: "extension-ids",
+    type: "list",
+  },
+  {
+    path: ["tools", "preset"],
+    env: ["AIRTOP_TOOL_PRESET"],
+    flag: "tool-preset",
+    type: "string",
+  },
+  {
+    path: ["tools", "allow"],
+    env: ["AIRTOP_ALLOW_TOOLS"],
+    flag: "allow-tools",
+    type: "list",
+  },
+  {
+    path: ["tools", "deny"],
+    env: ["AIRTOP_DENY_TOOLS"],
+    flag: "deny-tools",
+    type: "list",
+  },
+  {
+    path: ["files", "uploadDirs"],
+    env: ["AIRTOP_UPLOAD_DIRS"],
+    flag: "upload-dirs",
+    type: "list",
+  },
+  {
+    path: ["files", "maxUploadBytes"],
+    env: ["AIRTOP_MAX_UPLOAD_BYTES"],
+    flag: "max-upload-bytes",
+    type: "number",
+  },
+  {
+    path: ["files", "downloadDir"],
+    env: ["AIRTOP_DOWNLOAD_DIR"],
+    flag: "download-dir",
+    type: "string",
+  },
+  {
+    path: ["files", "maxInlineDownloadBytes"],
+    env: ["AIRTOP_MAX_INLINE_DOWNLOAD_BYTES"],
+    flag: "max-inline-download-bytes",
+    type: "number",
+  },
+  {
+    path: ["budgets", "credits"],
+    env: ["AIRTOP_BUDGET_CREDITS"],
+    flag: "budget-credits",
+    type: "number",
+  },
+  {
+    path: ["budgets", "aiCalls"],
+    env: ["AIRTOP_BUDGET_AI_CALLS"],
+    flag: "budget-ai-calls",
+    type: "number",
+  },
+  {
+    path: ["budgets", "sessionMinutes"],
+    env: ["AIRTOP_BUDGET_SESSION_MINUTES"],
+    flag: "budget-session-minutes",
+    type: "number",
+  },
+  {
+    path: ["budgets", "sessionCredits"],
+    env: ["AIRTOP_BUDGET_SESSION_CREDITS"],
+    flag: "budget-session-credits",
+    type: "number",
+  },
+  {
+    path: ["budgets", "sessionAiCalls"],
+    env: ["AIRTOP_BUDGET_SESSION_AI_CALLS"],
+    flag: "budget-session-ai-calls",
+    type: "number",
+  },
+  {
+    path: ["pool", "size"],
+    env: ["AIRTOP_POOL_SIZE"],
+    flag: "pool-size",
+    type: "number",
+  },
+  {
+    path: ["pool", "maxAgeMinutes"],
+    env: ["AIRTOP_POOL_MAX_AGE_MINUTES"],
+    flag: "pool-max-age-minutes",
+    type: "number",
+  },
+  {
+    path: ["auth", "tokens"],
+    env: ["MCP_AUTH_TOKENS"],
+    flag: "auth-tokens",
+    type: "list",
+  },
+  {
+    path: ["auth", "jwtSecret"],
+    env: ["MCP_AUTH_JWT_SECRET"],
+    flag: "auth-jwt-secret",
+    type: "string",
+  },
+  {
+    path: ["auth", "clientApiKeys"],
+    env: ["AIRTOP_CLIENT_API_KEYS"],
+    flag: "client-api-keys",
+    type: "boolean",
+  },
+  {
+    path: ["sessionLimits", "maxSessions"],
+    env: ["AIRTOP_MAX_SESSIONS"],
+    flag: "max-sessions",
+    type: "number",
+  },
+  {
+    path: ["sessionLimits", "idleTimeoutMinutes"],
+    env: ["AIRTOP_SESSION_IDLE_MINUTES"],
+    flag: "session-idle-minutes",
+    type: "number",
+  },
+  {
+    path: ["traces", "record"],
+    env: ["AIRTOP_RECORD_TRACES"],
+    flag: "record-traces",
+    type: "boolean",
+  },
+  {
+    path: ["traces", "dir"],
+    env: ["AIRTOP_TRACE_DIR"],
+    flag: "trace-dir",
+    type: "string",
+  },
+];
+
+export class ConfigError extends Error {}
+
+export interface CliOptions {
+  help: boolean;
+  version: boolean;
+  configFile?: string;
+  replay?: string;
+  session?: string;
+  // Plaintext secrets JSON to encrypt into the secrets file format
+  encryptSecrets?: string;
+  // Raw setting values keyed by flag name
+  settings: Record<string, string | boolean | undefined>;
+}
+
+/**
+ * Parse command line arguments, rejecting unknown flags.
+ */
+export function parseCli(argv = process.argv.slice(2)): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        help: { type: "boolean", short: "h" },
+        version: { type: "boolean", short: "v" },
+        config: { type: "string" },
+        listen: { type: "boolean" },
+        "read-only": { type: "boolean" },
+        replay: { type: "string" },
+        session: { type: "string" },
+        "encrypt-secrets": { type: "string" },
+        ...Object.fromEntries(
+          SETTINGS.map(({ flag, type }) => [
+            flag,
+            { type: type === "boolean" ? "boolean" : "string" } as const,
+          ]),
+        ),
+      },
+    });
+  } catch (error) {
+    throw new ConfigError(
+      `${error instanceof Error ? error.message : String(error)}\nRun with --help to list the available options.`,
+    );
+  }
+
+  const {
+    help,
+    version,
+    config,
+    listen,
+    "read-only": readOnly,
+    replay,
+    session,
+    "encrypt-secrets": encryptSecrets,
+    ...settings
+  } = parsed.values as Record<string, string | boolean | undefined>;
+  // --listen predates --transport and stays as a shorthand for it
+  if (listen && settings.transport === undefined) {
+    settings.transport = "http";
+  }
+  if (readOnly && settings["tool-preset"] === undefined) {
+    settings["tool-preset"] = "read-only";
+  }
+  return {
+    help: !!help,
+    version: !!version,
+    configFile: config as string | undefined,
+    replay: replay as string | undefined,
+    session: session as string | undefined,
+    encryptSecrets: encryptSecrets as string | undefined,
+    settings,
+  };
+}
+
+// Convert a string setting to the type its schema expects, leaving values
+// that don't convert for zod to report
+function convert(value: string | boolean, type: SettingType): unknown {
+  if (typeof value === "boolean" || type === "string") {
+    return value;
+  }
+  switch (type) {
+    case "number":
+      return value.trim() === "" ? value : Number(value);
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : value;
+    case "list":
+      return value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+  }
+}
+
+function layerFromSettings(
+  values: (setting: Setting) => string | boolean | undefined,
+) {
+  const layer: Record<string, unknown> = {};
+  for (const setting of SETTINGS) {
+    const value = values(setting);
+    if (value === undefined) {
+      continue;
+    }
+    const [key, nested] = setting.path;
+    if (nested) {
+      const parent = (layer[key] ?? {}) as Record<string, unknown>;
+      parent[nested] = convert(value, setting.type);
+      layer[key] = parent;
+    } else {
+      layer[key] = convert(value, setting.type);
+    }
+  }
+  return layer;
+}
+
+function settingName(
+  issuePath: (string | number)[],
+  name: (setting: Setting) => string,
+) {
+  const setting = SETTINGS.find(({ path }) =>
+    path.every((key, index) => issuePath[index] === key),
+  );
+  return setting ? name(setting) : issuePath.join(".");
+}
+
+function validateLayer(
+  source: string,
+  raw: unknown,
+  name: (issuePath: (string | number)[]) => string,
+): ConfigLayer {
+  const result = layerSchema.safeParse(raw);
+  if (result.success) {
+    return result.data;
+  }
+  const issues = result.error.issues.map((issue) => {
+    const where = issue.path.length ? `${name(issue.path)}: ` : "";
+    return `  - ${where}${issue.message}`;
+  });
+  throw new ConfigError(
+    `Invalid configuration in ${source}:\n${issues.join("\n")}`,
+  );
+}
+
+async function readConfigFile(file: string, required: boolean) {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (error) {
+    if (!required && (error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw new ConfigError(`Cannot read config file ${file}: ${String(error)}`);
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch (error) {
+    throw new ConfigError(
+      `Config file ${file} is not valid JSON: ${String(error)}`,
+    );
+  }
+}
+
+/**
+ * Resolve the server configuration. Later sources win:
+ * defaults, then the config file, then environment variables, then CLI flags.
+ *
+ * The config file is --config, else AIRTOP_MCP_CONFIG, else
+ * airtop-mcp.config.json in the working directory if it exists.
+ */
+export async function loadConfig(
+  cli: CliOptions,
+  env = process.env,
+  cwd = process.cwd(),
+): Promise<ServerConfig> {
+  const explicitFile = cli.configFile ?? env.AIRTOP_MCP_CONFIG;
+  const file = path.resolve(cwd, explicitFile ?? CONFIG_FILE_NAME);
+  const fileRaw = await readConfigFile(file, !!explicitFile);
+
+  const layers = [
+    fileRaw === undefined
+      ? {}
+      : validateLayer(file, fileRaw, (issuePath) => issuePath.join(".")),
+    validateLayer(
+      "environment",
+      layerFromSettings((setting) =>
+        setting.env.map((name) => env[name]).find((value) => value),
+      ),
+      (issuePath) =>
+        settingName(issuePath, (setting) => setting.env.join(" / ")),
+    ),
+    validateLayer(
+      "command line",
+      layerFromSettings((setting) => cli.settings[setting.flag]),
+      (issuePath) => settingName(issuePath, (setting) => `--${setting.flag}`),
+    ),
+  ];
+
+  return configSchema.parse(
+    layers.reduce<ConfigLayer>(
+      (merged, layer) => ({
+        ...merged,
+        ...layer,
+        sessionDefaults: {
+          ...merged.sessionDefaults,
+          ...layer.sessionDefaults,
+        },
+        tools: { ...merged.tools, ...layer.tools },
+        files: { ...merged.files, ...layer.files },
+        budgets: { ...merged.budgets, ...layer.budgets },
+        pool: { ...merged.pool, ...layer.pool },
+        auth: { ...merged.auth, ...layer.auth },
+        sessionLimits: { ...merged.sessionLimits, ...layer.sessionLimits },
+        traces: { ...merged.traces, ...layer.traces },
+      }),
+      {},
+    ),
+  );
+}
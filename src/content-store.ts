@@ -0,0 +1,127 @@
+import { randomUUID } from "node:crypto";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+const CONTENT_URI = "airtop://content";
+// Stored content is dropped oldest first beyond this many entries
+const MAX_STORED_CONTENT = 50;
+
+// Page content kept so it can be read a page at a time
+export interface StoredContent {
+  id: string;
+  title?: string;
+  url?: string;
+  // How the content was read, e.g. markdown
+  format: string;
+  mimeType: string;
+  text: string;
+  // Offset in text where each page starts
+  pageStarts: number[];
+}
+
+/**
+ * Split text into pages of at most pageLength characters, breaking after a
+ * newline when there is one in the second half of the page.
+ */
+export function splitPages(text: string, pageLength: number) {
+  const starts = [0];
+  let start = 0;
+  while (text.length - start > pageLength) {
+    let end = start + pageLength;
+    const newline = text.lastIndexOf("\n", end - 1);
+    if (newline >= start + pageLength / 2) {
+      end = newline + 1;
+    }
+    starts.push(end);
+    start = end;
+  }
+  return starts;
+}
+
+export function contentPageUri(contentId: string, page: number) {
+  return `${CONTENT_URI}/${contentId}/pages/${page}`;
+}
+
+/**
+ * Large page content scraped by this server, held in memory for reading in
+ * pages through continuation cursors and resources.
+ */
+export class ContentStore {
+  private entries = new Map<string, StoredContent>();
+
+  constructor(private maxEntries = MAX_STORED_CONTENT) {}
+
+  save(content: Omit<StoredContent, "id" | "pageStarts">, pageLength: number) {
+    const entry: StoredContent = {
+      ...content,
+      id: randomUUID(),
+      pageStarts: splitPages(content.text, pageLength),
+    };
+    this.entries.set(entry.id, entry);
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(id);
+    }
+    return entry;
+  }
+
+  get(id: string) {
+    return this.entries.get(id);
+  }
+
+  // Text of a page, counting from 0
+  page(entry: StoredContent, index: number) {
+    return entry.text.slice(
+      entry.pageStarts[index],
+      entry.pageStarts[index + 1],
+    );
+  }
+}
+
+/**
+ * Publish stored content as resources, one per page, for clients given
+ * resource links to it.
+ */
+export function registerContentResources(
+  server: McpServer,
+  contentStore: ContentStore,
+) {
+  server.resource(
+    "content-page",
+    new ResourceTemplate(`${CONTENT_URI}/{contentId}/pages/{page}`, {
+      list: undefined,
+    }),
+    {
+      description: "A page of content scraped from a browser window",
+    },
+    (uri, { contentId, page }) => {
+      const entry = contentStore.get(String(contentId));
+      const index = Number(page) - 1;
+      if (
+        !entry ||
+        !Number.isInteger(index) ||
+        index < 0 ||
+        index >= entry.pageStarts.length
+      ) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown or expired content page: ${uri.href}`,
+        );
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: entry.mimeType,
+            text: contentStore.page(entry, index),
+          },
+        ],
+      };
+    },
+  );
+}
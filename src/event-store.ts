@@ -0,0 +1,58 @@
+import { randomUUID } from "node:crypto";
+import {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+// Maximum number of events retained per stream for resumption
+const MAX_EVENTS_PER_STREAM = 500;
+
+interface StoredEvent {
+  eventId: EventId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * In-memory event store backing resumable Streamable HTTP streams.
+ * One store is created per client session, so it is discarded together
+ * with the session's transport.
+ */
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<StreamId, StoredEvent[]>();
+  private eventStreams = new Map<EventId, StreamId>();
+
+  storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${randomUUID()}`;
+    const events = this.streams.get(streamId) ?? [];
+    events.push({ eventId, message });
+    if (events.length > MAX_EVENTS_PER_STREAM) {
+      const dropped = events.shift();
+      if (dropped) {
+        this.eventStreams.delete(dropped.eventId);
+      }
+    }
+    this.streams.set(streamId, events);
+    this.eventStreams.set(eventId, streamId);
+    return Promise.resolve(eventId);
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    {
+      send,
+    }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const streamId = this.eventStreams.get(lastEventId);
+    if (!streamId) {
+      return "";
+    }
+    const events = this.streams.get(streamId) ?? [];
+    const index = events.findIndex((event) => event.eventId === lastEventId);
+    for (const event of events.slice(index + 1)) {
+      await send(event.eventId, event.message);
+    }
+    return streamId;
+  }
+}
@@ -0,0 +1,446 @@
+import { ExternalFile } from "@airtop/sdk/api/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  access,
+  mkdir,
+  mkdtemp,
+  readFile,
+  realpath,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { z } from "zod";
+import { BrowserBackend } from "./backend.js";
+import {
+  DEFAULT_MAX_INLINE_DOWNLOAD_BYTES,
+  DEFAULT_MAX_UPLOAD_BYTES,
+} from "./config.js";
+import { SessionLifecycleManager } from "./session-lifecycle.js";
+import { errorResult, jsonResult, reportAirtopErrors } from "./tool-errors.js";
+import { ToolExtra } from "./tool-pipeline.js";
+
+// How often downloadFile checks whether the download has reached Airtop
+const DOWNLOAD_POLL_MS = 1000;
+const DEFAULT_DOWNLOAD_WAIT_SECONDS = 10;
+// Downloads listed per request; sessions rarely download more
+const DOWNLOAD_LIST_LIMIT = 100;
+// Room for the JSON-RPC envelope and fileInput's other arguments
+const REQUEST_OVERHEAD_BYTES = 64 * 1024;
+
+// Content types for embedded downloads, by extension
+const MIME_TYPES: Record<string, string> = {
+  ".csv": "text/csv",
+  ".gif": "image/gif",
+  ".html": "text/html",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".txt": "text/plain",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+};
+
+export interface FileOptions {
+  // Directories fileInput may upload from; without any, only inline content
+  // can be uploaded
+  uploadDirs?: string[];
+  maxUploadBytes?: number;
+  // Where downloadFile saves files; without one, files are returned inline
+  downloadDir?: string;
+  maxInlineDownloadBytes?: number;
+}
+
+/**
+ * The largest request body the HTTP transports must accept for fileInput to
+ * take a file of maxUploadBytes as base64 content, which is 4/3 its size.
+ */
+export function maxRequestBodyBytes(maxUploadBytes = DEFAULT_MAX_UPLOAD_BYTES) {
+  return Math.ceil(maxUploadBytes / 3) * 4 + REQUEST_OVERHEAD_BYTES;
+}
+
+function isInside(dir: string, file: string) {
+  const relative = path.relative(dir, file);
+  return (
+    relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative)
+  );
+}
+
+// Resolve symlinks in an upload path and check it is a file inside one of
+// the allowed directories, returning an error result if not
+async function checkUploadPath(
+  filePath: string,
+  uploadDirs: string[],
+  maxBytes: number,
+) {
+  if (!uploadDirs.length) {
+    return {
+      failure: errorResult(
+        "Uploading files by path is disabled. Pass the file as base64 content instead, or configure uploadDirs.",
+        "validation",
+      ),
+    };
+  }
+  let resolved: string;
+  try {
+    resolved = await realpath(filePath);
+  } catch {
+    return {
+      failure: errorResult(`File ${filePath} does not exist`, "not_found"),
+    };
+  }
+  const allowedDirs = await Promise.all(
+    uploadDirs.map((dir) => realpath(dir).catch(() => path.resolve(dir))),
+  );
+  if (!allowedDirs.some((dir) => isInside(dir, resolved))) {
+    return {
+      failure: errorResult(
+        `File ${filePath} is outside the directories uploads are allowed from: ${uploadDirs.join(", ")}`,
+        "validation",
+      ),
+    };
+  }
+  const stats = await stat(resolved);
+  if (!stats.isFile()) {
+    return {
+      failure: errorResult(`${filePath} is not a file`, "validation"),
+    };
+  }
+  if (stats.size > maxBytes) {
+    return {
+      failure: errorResult(
+        `File ${filePath} is ${stats.size} bytes, more than the ${maxBytes} byte upload limit`,
+        "validation",
+      ),
+    };
+  }
+  return { resolved };
+}
+
+// Pick a path in dir for fileName that doesn't overwrite an earlier download
+async function unusedPath(dir: string, fileName: string) {
+  const { name, ext } = path.parse(path.basename(fileName));
+  for (let attempt = 0; ; attempt++) {
+    const candidate = path.join(
+      dir,
+      attempt ? `${name} (${attempt})${ext}` : `${name}${ext}`,
+    );
+    try {
+      await access(candidate);
+    } catch {
+      return candidate;
+    }
+  }
+}
+
+// Run operation with a scratch directory that is removed afterwards
+async function withTemporaryDir<T>(operation: (dir: string) => Promise<T>) {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "airtop-mcp-"));
+  try {
+    return await operation(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Register fileInput, which uploads files from allowed directories or inline
+ * content, and downloadFile, which fetches files the browser downloaded.
+ */
+export function registerFileTools(
+  server: McpServer,
+  airtopClient: BrowserBackend,
+  sessionLifecycle: SessionLifecycleManager,
+  options: FileOptions = {},
+) {
+  const uploadDirs = options.uploadDirs ?? [];
+  const maxUploadBytes = options.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES;
+  const maxInlineDownloadBytes =
+    options.maxInlineDownloadBytes ?? DEFAULT_MAX_INLINE_DOWNLOAD_BYTES;
+
+  async function upload(
+    sessionId: string,
+    windowId: string,
+    elementDescription: string,
+    uploadFilePath: string,
+    fileName?: string,
+  ) {
+    const result = await airtopClient.windows.uploadFileAndSelectInput(
+      sessionId,
+      windowId,
+      { elementDescription, uploadFilePath, fileName },
+    );
+    if (result.aiResponse.errors?.length) {
+      return reportAirtopErrors(result.aiResponse.errors);
+    }
+    return jsonResult({
+      fileId: result.fileId,
+      success: true,
+      message: "File uploaded successfully",
+    });
+  }
+
+  server.tool(
+    "fileInput",
+    `Upload a file to a file input element in the browser window. Pass either a filePath inside an allowed upload directory, or base64 content with a fileName. Files may be at most ${maxUploadBytes} bytes.`,
+    {
+      sessionId: z.string().describe("The session ID"),
+      windowId: z.string().describe("The window ID"),
+      elementDescription: z
+        .string()
+        .describe(
+          "Natural language description of the file input element (e.g., 'file upload button', 'browse files input')",
+        ),
+      filePath: z
+        .string()
+        .optional()
+        .describe("Local path to the file to upload"),
+      content: z
+        .string()
+        .optional()
+        .describe("The file contents, base64 encoded, instead of a filePath"),
+      fileName: z
+        .string()
+        .optional()
+        .describe(
+          "Name to give the uploaded file; required with content, defaults to the name in filePath",
+        ),
+    },
+    async ({
+      sessionId,
+      windowId,
+      elementDescription,
+      filePath,
+      content,
+      fileName,
+    }: {
+      sessionId: string;
+      windowId: string;
+      elementDescription: string;
+      filePath?: string;
+      content?: string;
+      fileName?: string;
+    }) => {
+      console.warn("fileInput request", elementDescription, filePath, fileName);
+      sessionLifecycle.touch(sessionId);
+      if ((filePath === undefined) === (content === undefined)) {
+        return errorResult(
+          "Pass exactly one of filePath or content",
+          "validation",
+        );
+      }
+
+      if (filePath !== undefined) {
+        const checked = await checkUploadPath(
+          filePath,
+          uploadDirs,
+          maxUploadBytes,
+        );
+        if (checked.failure) {
+          return checked.failure;
+        }
+        return upload(
+          sessionId,
+          windowId,
+          elementDescription,
+          checked.resolved,
+          fileName,
+        );
+      }
+
+      if (!fileName) {
+        return errorResult(
+          "fileName is required when uploading content",
+          "validation",
+        );
+      }
+      const bytes = Buffer.from(content!, "base64");
+      if (!bytes.length) {
+        return errorResult("content is empty or not base64", "validation");
+      }
+      if (bytes.length > maxUploadBytes) {
+        return errorResult(
+          `content is ${bytes.length} bytes, more than the ${maxUploadBytes} byte upload limit`,
+          "validation",
+        );
+      }
+      // Airtop uploads from disk, so stage the content in a scratch file
+      return withTemporaryDir(async (dir) => {
+        const staged = path.join(dir, path.basename(fileName));
+        await writeFile(staged, bytes);
+        return upload(
+          sessionId,
+          windowId,
+          elementDescription,
+          staged,
+          fileName,
+        );
+      });
+    },
+  );
+
+  server.tool(
+    "downloadFile",
+    options.downloadDir
+      ? "Get a file the browser downloaded in a session, e.g. after clicking a download link. The file is saved on the server and its path returned."
+      : "Get a file the browser downloaded in a session, e.g. after clicking a download link. The file is returned as an embedded resource.",
+    {
+      sessionId: z.string().describe("The session ID"),
+      fileName: z
+        .string()
+        .optional()
+        .describe(
+          "Name of the downloaded file; defaults to the latest download",
+        ),
+      fileId: z
+        .string()
+        .optional()
+        .describe("Airtop ID of the downloaded file"),
+      waitSeconds: z
+        .number()
+        .min(0)
+        .max(120)
+        .optional()
+        .describe(
+          `How long to wait for a download that hasn't finished yet (default: ${DEFAULT_DOWNLOAD_WAIT_SECONDS})`,
+        ),
+      returnContent: z
+        .boolean()
+        .optional()
+        .describe(
+          "Also return the file as an embedded resource when it is saved on the server",
+        ),
+    },
+    async (
+      {
+        sessionId,
+        fileName,
+        fileId,
+        waitSeconds = DEFAULT_DOWNLOAD_WAIT_SECONDS,
+        returnContent = false,
+      }: {
+        sessionId: string;
+        fileName?: string;
+        fileId?: string;
+        waitSeconds?: number;
+        returnContent?: boolean;
+      },
+      extra: ToolExtra,
+    ) => {
+      console.warn("downloadFile request", sessionId, fileName, fileId);
+      sessionLifecycle.touch(sessionId);
+      const deadline = Date.now() + waitSeconds * 1000;
+      let downloads: ExternalFile[];
+      let match: ExternalFile | undefined;
+      for (;;) {
+        const listed = await airtopClient.files.list(
+          { sessionIds: [sessionId], limit: DOWNLOAD_LIST_LIMIT },
+          { abortSignal: extra.signal },
+        );
+        if (listed.errors?.length) {
+          return reportAirtopErrors(listed.errors);
+        }
+        downloads = (listed.data.files ?? []).filter(
+          (candidate) =>
+            candidate.fileType === "browser_download" && !candidate.deleted,
+        );
+        match = fileId
+          ? downloads.find((candidate) => candidate.id === fileId)
+          : fileName
+            ? downloads.find((candidate) => candidate.fileName === fileName)
+            : downloads.sort(
+                (a, b) =>
+                  new Date(b.uploadStartTime).getTime() -
+                  new Date(a.uploadStartTime).getTime(),
+              )[0];
+        if (match || Date.now() >= deadline) {
+          break;
+        }
+        // Rejects once the client cancels, which ends the polling
+        await sleep(DOWNLOAD_POLL_MS, undefined, { signal: extra.signal });
+      }
+      if (!match) {
+        const wanted = fileId ?? fileName;
+        const known = downloads.map((download) => download.fileName);
+        return errorResult(
+          `No download${wanted ? ` matching ${wanted}` : ""} in session ${sessionId}. ${
+            known.length
+              ? `Downloads: ${known.join(", ")}`
+              : "Click the download link first, then call downloadFile."
+          }`,
+          "not_found",
+        );
+      }
+
+      const file = match;
+      let fileBytes = file.fileBytes;
+      if (file.status !== "available") {
+        fileBytes = (
+          await airtopClient.files.waitForDownloadAvailable(file.id, {
+            abortSignal: extra.signal,
+          })
+        ).data.fileBytes;
+      }
+      const inline = !options.downloadDir || returnContent;
+      if (inline && fileBytes > maxInlineDownloadBytes) {
+        return errorResult(
+          `${file.fileName} is ${fileBytes} bytes, more than the ${maxInlineDownloadBytes} byte limit for returning files inline.${
+            options.downloadDir
+              ? " Call again without returnContent."
+              : " Configure downloadDir to save larger files."
+          }`,
+          "validation",
+        );
+      }
+
+      const details = {
+        fileId: file.id,
+        fileName: file.fileName,
+        fileBytes,
+      };
+      const save = async (dir: string) => {
+        await mkdir(dir, { recursive: true });
+        const saved = await unusedPath(dir, file.fileName);
+        await airtopClient.files.download(file.id, saved, undefined, {
+          abortSignal: extra.signal,
+        });
+        return saved;
+      };
+      const embed = async (saved: string) => ({
+        type: "resource" as const,
+        resource: {
+          uri: `airtop://files/${file.id}`,
+          mimeType:
+            MIME_TYPES[path.extname(file.fileName).toLowerCase()] ??
+            "application/octet-stream",
+          blob: (await readFile(saved)).toString("base64"),
+        },
+      });
+
+      if (options.downloadDir) {
+        const saved = await save(options.downloadDir);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ ...details, savedTo: saved }),
+            },
+            ...(returnContent ? [await embed(saved)] : []),
+          ],
+        };
+      }
+      return withTemporaryDir(async (dir) => ({
+        content: [
+          { type: "text" as const, text: JSON.stringify(details) },
+          await embed(await save(dir)),
+        ],
+      }));
+    },
+  );
+}
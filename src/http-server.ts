@@ -0,0 +1,245 @@
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import express, { NextFunction, Request, Response } from "express";
+import { randomUUID } from "node:crypto";
+import {
+  AIRTOP_API_KEY_HEADER,
+  AuthConfig,
+  createTokenVerifier,
+  resolveAirtopApiKey,
+} from "./auth.js";
+import { InMemoryEventStore } from "./event-store.js";
+import { maxRequestBodyBytes } from "./files.js";
+import { requestLogContext } from "./logging.js";
+import { createMcpServer, McpServerOptions } from "./mcp-server.js";
+import { METRICS_CONTENT_TYPE, ServerMetrics } from "./metrics.js";
+import { countSessions } from "./session-lifecycle.js";
+
+export interface HttpServerOptions {
+  // Airtop API key for clients that don't send their own
+  apiKey?: string;
+  // Let clients send their own Airtop key in the x-airtop-api-key header
+  allowClientApiKeys?: boolean;
+  // Bearer tokens and JWT secret; endpoints are open when neither is set
+  auth?: AuthConfig;
+  port?: number;
+  // Options each client's McpServer is created with
+  server?: McpServerOptions;
+}
+
+/**
+ * Build the express app serving Streamable HTTP on /mcp, legacy SSE on
+ * /sse + /messages, and the health and metrics endpoints. Call
+ * markShuttingDown once the server stops taking new clients.
+ */
+export function createHttpApp({
+  apiKey,
+  allowClientApiKeys = false,
+  auth = {},
+  port = 0,
+  server: options = {},
+}: HttpServerOptions) {
+  const metrics = options.metrics ?? new ServerMetrics();
+  const serverOptions = { ...options, metrics };
+  const app = express();
+  app.use(requestLogContext);
+  const verifier = createTokenVerifier(auth);
+  if (!verifier) {
+    console.warn(
+      "No auth tokens or JWT secret configured, HTTP endpoints are unauthenticated",
+    );
+  }
+  const requireAuth = verifier
+    ? requireBearerAuth({ verifier })
+    : (_req: Request, _res: Response, next: NextFunction) => next();
+  // Each client session gets its own McpServer so that concurrent agents
+  // don't share tool state or trample each other's transport
+  const streamableTransports: {
+    [sessionId: string]: StreamableHTTPServerTransport;
+  } = {};
+  const sseTransports: { [sessionId: string]: SSEServerTransport } = {};
+  // Authenticated client that opened each session, so one token
+  // can't drive (and bill) another client's session
+  const sessionOwners: { [sessionId: string]: string | undefined } = {};
+  const isSessionOwner = (req: Request, sessionId: string) =>
+    sessionOwners[sessionId] === req.auth?.clientId;
+  // Large enough for fileInput's base64 content, which the default
+  // 100 kB limit would reject
+  const parseJson = express.json({
+    limit: maxRequestBodyBytes(serverOptions.files?.maxUploadBytes),
+  });
+
+  // Probes and metrics are left unauthenticated for orchestrators and
+  // scrapers; they expose counts, never session content
+  let shuttingDown = false;
+  metrics.gauge(
+    "airtop_mcp_active_transports",
+    "Connected MCP clients by transport.",
+    () => [
+      [
+        { transport: "streamable_http" },
+        Object.keys(streamableTransports).length,
+      ],
+      [{ transport: "sse" }, Object.keys(sseTransports).length],
+    ],
+  );
+  const { pool } = serverOptions;
+  if (pool) {
+    metrics.gauge(
+      "airtop_mcp_pool_sessions",
+      "Pooled browser sessions by state (idle or leased).",
+      () =>
+        Object.entries(pool.counts()).map(([state, count]) => [
+          { state },
+          count,
+        ]),
+    );
+  }
+  app.get("/healthz", (_req: Request, res: Response) => {
+    res.json({ status: "ok" });
+  });
+  // Not ready while shutting down or when no more sessions can be opened,
+  // so load balancers send new clients to other instances
+  app.get("/readyz", (_req: Request, res: Response) => {
+    const { maxSessions } = serverOptions.sessionLimits ?? {};
+    const sessions = countSessions();
+    const status = shuttingDown
+      ? "shutting_down"
+      : maxSessions && sessions >= maxSessions
+        ? "at_capacity"
+        : "ready";
+    res
+      .status(status === "ready" ? 200 : 503)
+      .json({ status, sessions, maxSessions });
+  });
+  app.get("/metrics", (_req: Request, res: Response) => {
+    res.type(METRICS_CONTENT_TYPE).send(metrics.render());
+  });
+
+  app.post(
+    "/mcp",
+    requireAuth,
+    parseJson,
+    async (req: Request, res: Response) => {
+      const sessionId = req.header("mcp-session-id");
+      console.warn("mcp post request", sessionId);
+
+      if (sessionId && streamableTransports[sessionId]) {
+        if (!isSessionOwner(req, sessionId)) {
+          res.status(403).send("Session belongs to another client");
+          return;
+        }
+        await streamableTransports[sessionId].handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (sessionId || !isInitializeRequest(req.body)) {
+        res.status(400).json({
+          jsonrpc: "2.0",
+          error: {
+            code: -32000,
+            message: sessionId
+              ? "No transport found for mcp-session-id"
+              : "Bad Request: missing mcp-session-id",
+          },
+          id: null,
+        });
+        return;
+      }
+
+      const clientApiKey = resolveAirtopApiKey(req, apiKey, allowClientApiKeys);
+      if (!clientApiKey) {
+        res.status(401).send(`Missing ${AIRTOP_API_KEY_HEADER} header`);
+        return;
+      }
+      const clientId = req.auth?.clientId;
+      const server = createMcpServer(clientApiKey, port, serverOptions);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: new InMemoryEventStore(),
+        onsessioninitialized: (newSessionId) => {
+          console.warn("mcp session initialized", newSessionId, clientId);
+          streamableTransports[newSessionId] = transport;
+          sessionOwners[newSessionId] = clientId;
+        },
+      });
+      // The server closes along with its transport; closing it from here
+      // would close the transport again and recurse
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          console.warn("mcp session closed", transport.sessionId);
+          delete streamableTransports[transport.sessionId];
+          delete sessionOwners[transport.sessionId];
+        }
+      };
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    },
+  );
+
+  // GET opens (or resumes, via Last-Event-ID) the server-to-client stream,
+  // DELETE tears the session down
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.header("mcp-session-id");
+    console.warn(`mcp ${req.method.toLowerCase()} request`, sessionId);
+    const transport = sessionId ? streamableTransports[sessionId] : undefined;
+    if (!sessionId || !transport) {
+      res.status(400).send("Invalid or missing mcp-session-id");
+      return;
+    }
+    if (!isSessionOwner(req, sessionId)) {
+      res.status(403).send("Session belongs to another client");
+      return;
+    }
+    await transport.handleRequest(req, res);
+  };
+  app.get("/mcp", requireAuth, handleSessionRequest);
+  app.delete("/mcp", requireAuth, handleSessionRequest);
+
+  // Legacy HTTP+SSE transport for clients that don't support Streamable HTTP
+  app.get("/sse", requireAuth, async (req: Request, res: Response) => {
+    console.warn("sse request");
+    const clientApiKey = resolveAirtopApiKey(req, apiKey, allowClientApiKeys);
+    if (!clientApiKey) {
+      res.status(401).send(`Missing ${AIRTOP_API_KEY_HEADER} header`);
+      return;
+    }
+    const server = createMcpServer(clientApiKey, port, serverOptions);
+    const transport = new SSEServerTransport("/messages", res);
+    sseTransports[transport.sessionId] = transport;
+    sessionOwners[transport.sessionId] = req.auth?.clientId;
+    res.on("close", () => {
+      delete sseTransports[transport.sessionId];
+      delete sessionOwners[transport.sessionId];
+      void server.close();
+    });
+    await server.connect(transport);
+  });
+
+  app.post(
+    "/messages",
+    requireAuth,
+    parseJson,
+    async (req: Request, res: Response) => {
+      const sessionId = req.query.sessionId as string;
+      const transport = sseTransports[sessionId];
+      console.warn("post message request", sessionId, !!transport);
+      if (transport && !isSessionOwner(req, sessionId)) {
+        res.status(403).send("Session belongs to another client");
+      } else if (transport) {
+        await transport.handlePostMessage(req, res, req.body);
+      } else {
+        res.status(400).send("No transport found for sessionId");
+      }
+    },
+  );
+
+  return {
+    app,
+    markShuttingDown: () => {
+      shuttingDown = true;
+    },
+  };
+}
@@ -0,0 +1,309 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ElicitRequest,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { BrowserBackend } from "./backend.js";
+import { describeProgress } from "./progress.js";
+import { SessionLifecycleManager } from "./session-lifecycle.js";
+import { HumanActionOutcome, SessionRegistry } from "./session-registry.js";
+import { errorResult, jsonResult, reportAirtopErrors } from "./tool-errors.js";
+import { ToolExtra } from "./tool-pipeline.js";
+import { BudgetExceededError, UsageTracker } from "./usage.js";
+
+const DEFAULT_TIMEOUT_SECONDS = 300;
+const MAX_TIMEOUT_SECONDS = 30 * 60;
+// When the client can't ask the user, the page is checked with a paid AI
+// call, at intervals that double from the first to the longest
+const FIRST_POLL_INTERVAL_MS = 5000;
+const MAX_POLL_INTERVAL_MS = 2 * 60 * 1000;
+// Enough to cover the longest timeout at these intervals
+const MAX_POLLS = 20;
+
+const DONE_SCHEMA = JSON.stringify({
+  type: "object",
+  properties: { done: { type: "boolean" } },
+  required: ["done"],
+});
+
+const fieldSchema = z.object({
+  name: z
+    .string()
+    .regex(/^\w+$/)
+    .describe("Key the value is returned under, e.g. 'code'"),
+  description: z
+    .string()
+    .optional()
+    .describe(
+      "What to ask the user for, e.g. 'The 6-digit code from your authenticator app'",
+    ),
+  type: z
+    .enum(["string", "number", "boolean"])
+    .optional()
+    .describe("Type of value (default: string)"),
+  required: z
+    .boolean()
+    .optional()
+    .describe("Whether the user must fill it in (default: true)"),
+});
+
+type Field = z.infer<typeof fieldSchema>;
+
+type RequestedSchema = ElicitRequest["params"]["requestedSchema"];
+
+function fieldProperty({
+  name,
+  description,
+  type = "string",
+}: Field): RequestedSchema["properties"][string] {
+  switch (type) {
+    case "number":
+      return { type: "number", title: name, description };
+    case "boolean":
+      return { type: "boolean", title: name, description };
+    default:
+      return { type: "string", title: name, description };
+  }
+}
+
+function formSchema(fields: Field[]): RequestedSchema {
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      fields.map((field) => [field.name, fieldProperty(field)]),
+    ),
+    required: fields
+      .filter(({ required = true }) => required)
+      .map(({ name }) => name),
+  };
+}
+
+function isDone(modelResponse: string) {
+  try {
+    return (JSON.parse(modelResponse) as { done?: unknown }).done === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Register the requestHumanAction tool, which hands a window over to the
+ * user through its live view. Clients that support elicitation ask the user
+ * to confirm when they are done, optionally filling in a form; with other
+ * clients the page is polled until a condition holds. The outcome is kept
+ * on the window for the session resources.
+ */
+export function registerHumanActionTool(
+  server: McpServer,
+  airtopClient: BrowserBackend,
+  sessionRegistry: SessionRegistry,
+  sessionLifecycle: SessionLifecycleManager,
+  usage: UsageTracker,
+) {
+  async function askUser(
+    message: string,
+    fields: Field[],
+    timeoutSeconds: number,
+    signal: AbortSignal,
+  ) {
+    try {
+      const result = await server.server.elicitInput(
+        { message, requestedSchema: formSchema(fields) },
+        { signal, timeout: timeoutSeconds * 1000 },
+      );
+      const outcomes = {
+        accept: "completed",
+        decline: "declined",
+        cancel: "cancelled",
+      } as const;
+      return {
+        outcome: outcomes[result.action] as HumanActionOutcome,
+        values: result.action === "accept" ? result.content : undefined,
+      };
+    } catch (error) {
+      if (
+        error instanceof McpError &&
+        error.code === (ErrorCode.RequestTimeout as number)
+      ) {
+        return { outcome: "timed_out" as const };
+      }
+      throw error;
+    }
+  }
+
+  async function pollPage(
+    sessionId: string,
+    windowId: string,
+    condition: string,
+    timeoutSeconds: number,
+    signal: AbortSignal,
+  ) {
+    const deadline = Date.now() + timeoutSeconds * 1000;
+    let interval = FIRST_POLL_INTERVAL_MS;
+    for (let polls = 1; ; polls++) {
+      try {
+        usage.checkAiCall(sessionId);
+      } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          return {
+            failure: errorResult(
+              `Stopped waiting for the user: ${error.message}`,
+              "budget_exceeded",
+            ),
+          };
+        }
+        throw error;
+      }
+      const result = await airtopClient.windows.pageQuery(
+        sessionId,
+        windowId,
+        {
+          prompt: `Is the following true of the page? ${condition}. Answer with done set to true or false.`,
+          configuration: { outputSchema: DONE_SCHEMA },
+        },
+        { abortSignal: signal },
+      );
+      if (result.errors?.length) {
+        return { failure: reportAirtopErrors(result.errors) };
+      }
+      if (isDone(result.data.modelResponse)) {
+        return { outcome: "completed" as const };
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0 || polls >= MAX_POLLS) {
+        return { outcome: "timed_out" as const };
+      }
+      await sleep(Math.min(interval, remaining), undefined, { signal });
+      interval = Math.min(interval * 2, MAX_POLL_INTERVAL_MS);
+    }
+  }
+
+  server.tool(
+    "requestHumanAction",
+    `Hand the browser window to the user for something only they can do, such as logging in or solving a challenge,
+     and wait until they are done. Returns the live view URL and an outcome: completed, declined, cancelled or timed_out.
+     Pass fields to also ask the user for values, e.g. a 2FA code. If the client can't prompt the user itself,
+     share the live view URL from "getWindowInfo" with the user before calling this.`,
+    {
+      sessionId: z.string().describe("The session ID"),
+      windowId: z.string().describe("The window ID"),
+      instructions: z
+        .string()
+        .describe(
+          "What the user should do, e.g. 'Log in to your GitHub account'",
+        ),
+      fields: z
+        .array(fieldSchema)
+        .optional()
+        .describe(
+          "Values to ask the user for once they are done, when the client can show forms",
+        ),
+      doneCondition: z
+        .string()
+        .optional()
+        .describe(
+          "Condition on the page that shows the user is done, checked when the client can't ask the user (e.g. 'the account menu is visible')",
+        ),
+      timeoutSeconds: z
+        .number()
+        .positive()
+        .max(MAX_TIMEOUT_SECONDS)
+        .optional()
+        .describe(
+          `How long to wait for the user (default: ${DEFAULT_TIMEOUT_SECONDS})`,
+        ),
+    },
+    async (
+      {
+        sessionId,
+        windowId,
+        instructions,
+        fields = [],
+        doneCondition,
+        timeoutSeconds = DEFAULT_TIMEOUT_SECONDS,
+      }: {
+        sessionId: string;
+        windowId: string;
+        instructions: string;
+        fields?: Field[];
+        doneCondition?: string;
+        timeoutSeconds?: number;
+      },
+      extra: ToolExtra,
+    ) => {
+      console.warn("requestHumanAction request", instructions, timeoutSeconds);
+      sessionLifecycle.touch(sessionId);
+
+      const window = await airtopClient.windows.getWindowInfo(
+        sessionId,
+        windowId,
+        undefined,
+        { abortSignal: extra.signal },
+      );
+      if (window.errors?.length) {
+        return reportAirtopErrors(window.errors);
+      }
+      const { liveViewUrl } = window.data;
+      sessionRegistry.updateWindow(sessionId, windowId, { liveViewUrl });
+      describeProgress(extra, {
+        totalSeconds: timeoutSeconds,
+        message: `Waiting for the user at ${liveViewUrl}: ${instructions}`,
+      });
+
+      const requestedAt = new Date();
+      const record = (outcome: HumanActionOutcome) => {
+        console.warn(`requestHumanAction ${outcome}`, sessionId, windowId);
+        sessionRegistry.updateWindow(sessionId, windowId, {
+          humanAction: {
+            instructions,
+            outcome,
+            requestedAt,
+            finishedAt: new Date(),
+          },
+        });
+      };
+
+      const elicitation = !!server.server.getClientCapabilities()?.elicitation;
+      try {
+        if (elicitation) {
+          const { outcome, values } = await askUser(
+            `${instructions}\n\nUse the browser here: ${liveViewUrl}\n\nSubmit when you are done.`,
+            fields,
+            timeoutSeconds,
+            extra.signal,
+          );
+          record(outcome);
+          return jsonResult({ outcome, liveViewUrl, values });
+        }
+
+        const polled = await pollPage(
+          sessionId,
+          windowId,
+          doneCondition ?? `The user has finished this: ${instructions}`,
+          timeoutSeconds,
+          extra.signal,
+        );
+        if (polled.failure) {
+          return polled.failure;
+        }
+        record(polled.outcome);
+        return jsonResult({
+          outcome: polled.outcome,
+          liveViewUrl,
+          // Without elicitation the user couldn't be shown the form
+          missingFields: fields.length
+            ? fields.map(({ name }) => name)
+            : undefined,
+        });
+      } catch (error) {
+        if (extra.signal.aborted) {
+          record("cancelled");
+        }
+        throw error;
+      }
+    },
+  );
+}
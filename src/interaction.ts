@@ -0,0 +1,242 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { BrowserBackend } from "./backend.js";
+import { KeyChord, parseKeyChord } from "./keys.js";
+import { SessionLifecycleManager } from "./session-lifecycle.js";
+import { errorResult, jsonResult, reportAirtopErrors } from "./tool-errors.js";
+
+/**
+ * Register interaction tools beyond click, type and scroll: hover, key
+ * presses, dropdown selection and drag and drop. Airtop finds elements from
+ * their description; key presses, selection and dragging go over CDP.
+ */
+export function registerInteractionTools(
+  server: McpServer,
+  airtopClient: BrowserBackend,
+  sessionLifecycle: SessionLifecycleManager,
+) {
+  // Find an element by hovering it, returning where the pointer landed
+  async function locate(
+    sessionId: string,
+    windowId: string,
+    elementDescription: string,
+  ) {
+    await airtopClient.input.trackPointer(sessionId, windowId);
+    const hovered = await airtopClient.windows.hover(sessionId, windowId, {
+      elementDescription,
+    });
+    if (hovered.errors?.length) {
+      return { failure: reportAirtopErrors(hovered.errors) };
+    }
+    const point = await airtopClient.input.pointerPosition(sessionId, windowId);
+    if (!point) {
+      return {
+        failure: errorResult(
+          `Could not find ${elementDescription} on the page`,
+          "not_found",
+        ),
+      };
+    }
+    return { point };
+  }
+
+  server.tool(
+    "hover",
+    "Move the mouse over an element, e.g. to open a menu or show a tooltip",
+    {
+      sessionId: z.string().describe("The session ID"),
+      windowId: z.string().describe("The window ID"),
+      elementDescription: z
+        .string()
+        .describe(
+          "Natural language description of the element to hover (e.g., 'the Products menu')",
+        ),
+    },
+    async ({
+      sessionId,
+      windowId,
+      elementDescription,
+    }: {
+      sessionId: string;
+      windowId: string;
+      elementDescription: string;
+    }) => {
+      console.warn("hover request", elementDescription);
+      sessionLifecycle.touch(sessionId);
+      const result = await airtopClient.windows.hover(sessionId, windowId, {
+        elementDescription,
+      });
+      if (result.errors?.length) {
+        return reportAirtopErrors(result.errors);
+      }
+      return jsonResult(result.data);
+    },
+  );
+
+  server.tool(
+    "pressKeys",
+    "Press keys or key combinations in order, e.g. Enter, Escape, Control+A or Shift+Tab",
+    {
+      sessionId: z.string().describe("The session ID"),
+      windowId: z.string().describe("The window ID"),
+      keys: z
+        .array(z.string())
+        .min(1)
+        .describe(
+          'Keys to press, in order. Join modifiers with "+": ["Control+A", "Backspace"]. Named keys include Enter, Tab, Escape, Backspace, Delete, Space, ArrowUp/Down/Left/Right, Home, End, PageUp, PageDown and F1-F12.',
+        ),
+      elementDescription: z
+        .string()
+        .optional()
+        .describe(
+          "Element to click first so it has focus (natural language description)",
+        ),
+    },
+    async ({
+      sessionId,
+      windowId,
+      keys,
+      elementDescription,
+    }: {
+      sessionId: string;
+      windowId: string;
+      keys: string[];
+      elementDescription?: string;
+    }) => {
+      console.warn("pressKeys request", keys, elementDescription);
+      sessionLifecycle.touch(sessionId);
+      const chords: KeyChord[] = [];
+      const unknown: string[] = [];
+      for (const key of keys) {
+        const chord = parseKeyChord(key);
+        if (chord) {
+          chords.push(chord);
+        } else {
+          unknown.push(key);
+        }
+      }
+      if (unknown.length) {
+        return errorResult(
+          `Unknown keys: ${unknown.join(", ")}. Use a single character or a key name like Enter, joined to Control, Alt, Shift or Meta with "+".`,
+          "validation",
+        );
+      }
+      if (elementDescription) {
+        const focused = await airtopClient.windows.click(sessionId, windowId, {
+          elementDescription,
+        });
+        if (focused.errors?.length) {
+          return reportAirtopErrors(focused.errors);
+        }
+      }
+      await airtopClient.input.pressKeys(sessionId, windowId, chords);
+      return jsonResult({ pressed: keys });
+    },
+  );
+
+  server.tool(
+    "selectOption",
+    "Choose an option in a dropdown, by its visible label or value",
+    {
+      sessionId: z.string().describe("The session ID"),
+      windowId: z.string().describe("The window ID"),
+      elementDescription: z
+        .string()
+        .describe(
+          "Natural language description of the dropdown (e.g., 'the country dropdown')",
+        ),
+      option: z.string().describe("Label or value of the option to choose"),
+    },
+    async ({
+      sessionId,
+      windowId,
+      elementDescription,
+      option,
+    }: {
+      sessionId: string;
+      windowId: string;
+      elementDescription: string;
+      option: string;
+    }) => {
+      console.warn("selectOption request", elementDescription, option);
+      sessionLifecycle.touch(sessionId);
+      const located = await locate(sessionId, windowId, elementDescription);
+      if (located.failure) {
+        return located.failure;
+      }
+      const outcome = await airtopClient.input.selectOption(
+        sessionId,
+        windowId,
+        located.point,
+        option,
+      );
+      if (outcome && "available" in outcome) {
+        return errorResult(
+          `No option matching "${option}" in ${elementDescription}. Options: ${outcome.available.join(", ")}`,
+          "validation",
+        );
+      }
+      if (outcome) {
+        return jsonResult(outcome);
+      }
+
+      // Not a native <select>: open the dropdown and click the option
+      for (const description of [
+        elementDescription,
+        `the "${option}" option in the list opened from ${elementDescription}`,
+      ]) {
+        const clicked = await airtopClient.windows.click(sessionId, windowId, {
+          elementDescription: description,
+        });
+        if (clicked.errors?.length) {
+          return reportAirtopErrors(clicked.errors);
+        }
+      }
+      return jsonResult({ selected: option });
+    },
+  );
+
+  server.tool(
+    "drag",
+    "Drag an element and drop it onto another, e.g. to reorder a list or move a card. Both should be visible in the window.",
+    {
+      sessionId: z.string().describe("The session ID"),
+      windowId: z.string().describe("The window ID"),
+      sourceDescription: z
+        .string()
+        .describe("Natural language description of the element to drag"),
+      targetDescription: z
+        .string()
+        .describe("Natural language description of where to drop it"),
+    },
+    async ({
+      sessionId,
+      windowId,
+      sourceDescription,
+      targetDescription,
+    }: {
+      sessionId: string;
+      windowId: string;
+      sourceDescription: string;
+      targetDescription: string;
+    }) => {
+      console.warn("drag request", sourceDescription, targetDescription);
+      sessionLifecycle.touch(sessionId);
+      const source = await locate(sessionId, windowId, sourceDescription);
+      if (source.failure) {
+        return source.failure;
+      }
+      const target = await locate(sessionId, windowId, targetDescription);
+      if (target.failure) {
+        return target.failure;
+      }
+      await airtopClient.input.drag(
+        sessionId,
+        windowId,
+        source.point,
+        target.point,
+      );
+      return jsonResult({ from: source.point, to: target.point });
+    },
+  );
+}
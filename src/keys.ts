@@ -0,0 +1,128 @@
+// How a key is reported to the page, as in KeyboardEvent
+export interface KeyDefinition {
+  key: string;
+  code: string;
+  keyCode: number;
+  // Inserted into editable elements when pressed without Control, Alt or Meta
+  text?: string;
+}
+
+export type Modifier = "Alt" | "Control" | "Meta" | "Shift";
+
+// A key pressed while holding modifiers, such as Control+A
+export interface KeyChord {
+  modifiers: Modifier[];
+  key: KeyDefinition;
+}
+
+// Bit flags CDP expects in Input.dispatchKeyEvent
+export const MODIFIER_BITS: Record<Modifier, number> = {
+  Alt: 1,
+  Control: 2,
+  Meta: 4,
+  Shift: 8,
+};
+
+export const MODIFIER_KEYS: Record<Modifier, KeyDefinition> = {
+  Alt: { key: "Alt", code: "AltLeft", keyCode: 18 },
+  Control: { key: "Control", code: "ControlLeft", keyCode: 17 },
+  Meta: { key: "Meta", code: "MetaLeft", keyCode: 91 },
+  Shift: { key: "Shift", code: "ShiftLeft", keyCode: 16 },
+};
+
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+  alt: "Alt",
+  option: "Alt",
+  control: "Control",
+  ctrl: "Control",
+  meta: "Meta",
+  cmd: "Meta",
+  command: "Meta",
+  shift: "Shift",
+};
+
+const NAMED_KEYS: Record<string, KeyDefinition> = {
+  enter: { key: "Enter", code: "Enter", keyCode: 13, text: "\r" },
+  tab: { key: "Tab", code: "Tab", keyCode: 9 },
+  escape: { key: "Escape", code: "Escape", keyCode: 27 },
+  backspace: { key: "Backspace", code: "Backspace", keyCode: 8 },
+  delete: { key: "Delete", code: "Delete", keyCode: 46 },
+  insert: { key: "Insert", code: "Insert", keyCode: 45 },
+  space: { key: " ", code: "Space", keyCode: 32, text: " " },
+  arrowup: { key: "ArrowUp", code: "ArrowUp", keyCode: 38 },
+  arrowdown: { key: "ArrowDown", code: "ArrowDown", keyCode: 40 },
+  arrowleft: { key: "ArrowLeft", code: "ArrowLeft", keyCode: 37 },
+  arrowright: { key: "ArrowRight", code: "ArrowRight", keyCode: 39 },
+  home: { key: "Home", code: "Home", keyCode: 36 },
+  end: { key: "End", code: "End", keyCode: 35 },
+  pageup: { key: "PageUp", code: "PageUp", keyCode: 33 },
+  pagedown: { key: "PageDown", code: "PageDown", keyCode: 34 },
+};
+for (let n = 1; n <= 12; n++) {
+  NAMED_KEYS[`f${n}`] = { key: `F${n}`, code: `F${n}`, keyCode: 111 + n };
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  return: "enter",
+  esc: "escape",
+  del: "delete",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+};
+
+function characterKey(char: string, shift: boolean): KeyDefinition {
+  if (/^[a-z]$/i.test(char)) {
+    const upper = char.toUpperCase();
+    const key = shift ? upper : char.toLowerCase();
+    return {
+      key,
+      code: `Key${upper}`,
+      keyCode: upper.charCodeAt(0),
+      text: key,
+    };
+  }
+  if (/^\d$/.test(char)) {
+    return {
+      key: char,
+      code: `Digit${char}`,
+      keyCode: char.charCodeAt(0),
+      text: char,
+    };
+  }
+  return { key: char, code: "", keyCode: 0, text: char };
+}
+
+/**
+ * Parse a key or key combination such as "Enter", "Control+A" or
+ * "Shift+Tab". Names are case-insensitive. Returns undefined for names
+ * that aren't known keys.
+ */
+export function parseKeyChord(chord: string): KeyChord | undefined {
+  // "+" on its own, or as the last key of a combination, is the plus key
+  const parts = chord.endsWith("+")
+    ? [...chord.slice(0, -1).split("+").filter(Boolean), "+"]
+    : chord.split("+");
+  const name = parts.pop()?.trim();
+  if (!name) {
+    return undefined;
+  }
+  const modifiers: Modifier[] = [];
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part.trim().toLowerCase()];
+    if (!modifier) {
+      return undefined;
+    }
+    modifiers.push(modifier);
+  }
+  if (name.length === 1) {
+    return {
+      modifiers,
+      key: characterKey(name, modifiers.includes("Shift")),
+    };
+  }
+  const lower = name.toLowerCase();
+  const key = NAMED_KEYS[KEY_ALIASES[lower] ?? lower];
+  return key && { modifiers, key };
+}
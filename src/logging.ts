@@ -0,0 +1,117 @@
+import { NextFunction, Request, Response } from "express";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { format } from "node:util";
+import { ToolMiddleware } from "./tool-pipeline.js";
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// Console methods written at each level. Tool activity is logged with
+// console.warn because stdout carries the protocol in stdio mode.
+const CONSOLE_METHODS: Record<
+  Exclude<LogLevel, "silent">,
+  (keyof Console)[]
+> = {
+  debug: ["debug", "trace"],
+  info: ["info", "log"],
+  warn: ["warn"],
+  error: ["error"],
+};
+
+/**
+ * Silence console methods below the given level.
+ */
+export function applyLogLevel(level: LogLevel) {
+  const threshold = LOG_LEVELS.indexOf(level);
+  for (const [methodLevel, methods] of Object.entries(CONSOLE_METHODS)) {
+    if (LOG_LEVELS.indexOf(methodLevel as LogLevel) < threshold) {
+      for (const method of methods) {
+        (console as unknown as Record<string, unknown>)[method] = () => {};
+      }
+    }
+  }
+}
+
+export const LOG_FORMATS = ["text", "json"] as const;
+
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+// Fields identifying what a log line relates to, e.g. the HTTP request
+type LogContext = Record<string, string | number | undefined>;
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run fn with fields added to every JSON log line written while it runs,
+ * including from async work it starts.
+ */
+export function withLogContext<T>(fields: LogContext, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+/**
+ * Format one JSON log line, with the current log context.
+ */
+export function formatLogLine(
+  level: Exclude<LogLevel, "silent">,
+  args: unknown[],
+  time = new Date(),
+) {
+  return `${JSON.stringify({
+    time: time.toISOString(),
+    level,
+    ...logContext.getStore(),
+    message: format(...args),
+  })}\n`;
+}
+
+/**
+ * Write console output as JSON lines to stderr, for log collectors. Apply
+ * before applyLogLevel, which silences methods by replacing them.
+ */
+export function applyLogFormat(
+  logFormat: LogFormat,
+  write: (line: string) => void = (line) => process.stderr.write(line),
+) {
+  if (logFormat === "text") {
+    return;
+  }
+  for (const [level, methods] of Object.entries(CONSOLE_METHODS)) {
+    for (const method of methods) {
+      (console as unknown as Record<string, unknown>)[method] = (
+        ...args: unknown[]
+      ) => write(formatLogLine(level as Exclude<LogLevel, "silent">, args));
+    }
+  }
+}
+
+/**
+ * Tag log lines written during a tool call with the tool and MCP request.
+ */
+export function logContextMiddleware(): ToolMiddleware {
+  return ({ name, extra }, next) =>
+    withLogContext(
+      {
+        tool: name,
+        mcpSessionId: extra.sessionId,
+        mcpRequestId: extra.requestId,
+      },
+      next,
+    );
+}
+
+/**
+ * Give every HTTP request an ID, taken from X-Request-Id when the caller
+ * sent one, echo it back and add it to the request's log lines.
+ */
+export function requestLogContext(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const requestId = req.header("x-request-id") || randomUUID();
+  res.setHeader("x-request-id", requestId);
+  withLogContext({ requestId }, next);
+}
@@ -1,21 +1,75 @@
-import { AirtopClient, AirtopError } from "@airtop/sdk";
-import { Issue } from "@airtop/sdk/api/index.js";
+import { AiPromptResponse } from "@airtop/sdk/api/index.js";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import { z } from "zod";
+import { BrowserBackend, createAirtopBackend } from "./backend.js";
+import { registerBatchQueryTool } from "./batch-query.js";
+import { DEFAULT_MONITOR_TIMEOUT_SECONDS, SessionDefaults } from "./config.js";
+import { ContentStore, registerContentResources } from "./content-store.js";
+import { FileOptions, registerFileTools } from "./files.js";
+import { registerHumanActionTool } from "./human-action.js";
+import { registerInteractionTools } from "./interaction.js";
+import {
+  registerNavigationTools,
+  WaitUntil,
+  waitUntilInput,
+  waitUntilTimeoutInput,
+} from "./navigation.js";
+import { logContextMiddleware } from "./logging.js";
+import { ServerMetrics } from "./metrics.js";
+import { ProfileRegistry } from "./profile-registry.js";
+import { describeProgress, progressMiddleware } from "./progress.js";
+import { PromptTemplate, registerPrompts } from "./prompts.js";
+import { registerProfileTools } from "./profiles.js";
+import { registerSessionResources } from "./resources.js";
+import {
+  redactionMiddleware,
+  SecretStore,
+  unknownSecretsMessage,
+} from "./secrets.js";
+import { registerRunStepsTool } from "./run-steps.js";
+import { registerScrapeTool } from "./scrape.js";
+import {
+  cancellationMiddleware,
+  DEFAULT_RETRY_POLICY,
+  errorHandlingMiddleware,
+  errorResult,
+  reportAirtopErrors,
+  retryReadOnlyCalls,
+  RetryPolicy,
+} from "./tool-errors.js";
+import {
+  createToolFilter,
+  ToolFilterOptions,
+  unknownToolNames,
+} from "./tool-filter.js";
+import { ToolPipeline } from "./tool-pipeline.js";
+import { meterBackend, registerUsageTools, UsageTracker, UsageTrackers } from "./usage.js";
+import {
+  DEFAULT_TRACE_DIR,
+  registerTraceTools,
+  TraceRecorder,
+} from "./trace.js";
+import {
+  compileOutputSchema,
+  JsonSchema,
+  OutputValidator,
+  outputSchemaInput,
+  reportInvalidOutputSchema,
+  reportValidationErrors,
+  structuredResultShape,
+} from "./structured-output.js";
+import {
+  SessionLifecycleManager,
+  SessionLimits,
+} from "./session-lifecycle.js";
+import { SessionRegistry } from "./session-registry.js";
+import { registerSessionPoolTools, SessionPool } from "./session-pool.js";
 
-// Define the expected response type for uploadFileAndSelectInput
-interface UploadFileResponse {
-  fileId: string;
-  [key: string]: unknown;
-}
 
-// Session tracking for profile management
-interface SessionMetadata {
-  sessionId: string;
-  profileName?: string;
-  createdAt: Date;
-}
+// Screenshot defaults chosen to keep images within model context limits
+const DEFAULT_SCREENSHOT_WIDTH = 1280;
+const MAX_SCREENSHOT_PAGES = 10;
 
 // Configuration interface for createSessionWithOptions
 interface SessionOptionsConfig {
@@ -27,9 +81,61 @@ interface SessionOptionsConfig {
   baseProfileId?: string;
 }
 
-export function createMcpServer(apiKey: string, port: number) {
-  // Session tracking for profile management
-  const sessionRegistry = new Map<string, SessionMetadata>();
+export interface TraceOptions {
+  // Directory trace files are written to and replayed from
+  dir: string;
+  // Record every tool call made through this server
+  record: boolean;
+}
+
+export interface McpServerOptions {
+  sessionLimits?: SessionLimits;
+  traces?: TraceOptions;
+  // Browser backend to use instead of the Airtop API, e.g. a fake in tests
+  backend?: BrowserBackend;
+  // Overrides for how read-only calls are retried on transient failures
+  retry?: Partial<RetryPolicy>;
+  // Configuration applied to every new session unless the call overrides it
+  sessionDefaults?: SessionDefaults;
+  monitorTimeoutSeconds?: number;
+  // Which tools to register, e.g. only read-only ones
+  tools?: ToolFilterOptions;
+  // Credentials tools accept as {{secret:NAME}} placeholders
+  secrets?: SecretStore;
+  // Browser profiles used so far, shared by every client of the process
+  profiles?: ProfileRegistry;
+  // Where uploads may come from and downloads go, and size limits
+  files?: FileOptions;
+  // How often long tool calls report progress to clients that ask for it
+  progressIntervalMs?: number;
+  // Process-wide metrics that tool calls are counted and timed in
+  metrics?: ServerMetrics;
+  // Prompt templates added to the built-in workflow prompts
+  prompts?: PromptTemplate[];
+  // Airtop usage and budgets: one tracker shared by every client of the
+  // process, or one per Airtop API key
+  usage?: UsageTracker | UsageTrackers;
+  // Warm sessions handed out by acquireSession, shared by every client
+  pool?: SessionPool;
+}
+
+export function createMcpServer(
+  apiKey: string,
+  port: number,
+  options: McpServerOptions = {},
+) {
+  // Session and window tracking for profile management and resources
+  const sessionRegistry = new SessionRegistry();
+  const isToolEnabled = createToolFilter(options.tools);
+  const sessionDefaults = options.sessionDefaults ?? {};
+  const monitorTimeoutSeconds =
+    options.monitorTimeoutSeconds ?? DEFAULT_MONITOR_TIMEOUT_SECONDS;
+  const secrets = options.secrets ?? new SecretStore();
+  const profileRegistry = options.profiles ?? new ProfileRegistry();
+  const usage =
+    options.usage instanceof UsageTrackers
+      ? options.usage.forKey(apiKey)
+      : (options.usage ?? new UsageTracker());
 
   const server = new McpServer(
     {
@@ -39,30 +145,66 @@ export function createMcpServer(apiKey: string, port: number) {
       description: `MCP server for Airtop integration`,
     },
     {
-      instructions: `
-    This server is used to create and manage browser sessions and windows using the Airtop API, 
-    which is a browser automation tool that lets you control a browser from a remote server.
-
-    You can create a session using the "createSession" tool, which gives you access to a single browser,
-    returning JSON with a session ID.
-
-    Once you have a session, you can create windows using the "createWindow" tool.
-    This returns JSON with a window ID.
+      instructions: buildInstructions(isToolEnabled),
+    },
+  );
 
-    You can query the content of a window using the "pageQuery" tool, passing in the session ID and window ID.
-    This returns JSON with a content summary.
+  // Every tool call runs through the pipeline, which hosts cross-cutting
+  // behavior such as trace recording, and drops tools filtered out by config
+  const toolPipeline = new ToolPipeline(server, isToolEnabled);
+  toolPipeline.use(logContextMiddleware());
+  if (options.metrics) {
+    toolPipeline.use(options.metrics.middleware);
+  }
+  const traceDir = options.traces?.dir ?? DEFAULT_TRACE_DIR;
+  if (options.traces?.record) {
+    const recorder = new TraceRecorder(traceDir, (value) =>
+      secrets.redact(value),
+    );
+    toolPipeline.use(recorder.middleware);
+    console.warn(`Recording tool calls to ${recorder.file}`);
+  }
+  toolPipeline.use(redactionMiddleware(secrets));
+  toolPipeline.use(progressMiddleware(options.progressIntervalMs));
+  // Inside the recorder, so traces capture the final categorized result
+  toolPipeline.use(errorHandlingMiddleware());
+  toolPipeline.use(cancellationMiddleware());
 
-    You can also let the user interact with the window using the "getWindowInfo" tool,
-    which returns a live view URL that you can share with the user, for them to interact with the window.
+  // Initialize Airtop client, metered so budgets are enforced, with
+  // read-only calls retried on transient failures
+  const airtopClient = retryReadOnlyCalls(
+    meterBackend(options.backend ?? createAirtopBackend(apiKey), usage),
+    { ...DEFAULT_RETRY_POLICY, ...options.retry },
+  );
 
-    Try to reuse the same session and windows for multiple queries to save on costs.`,
+  // Enforce session limits and clean up sessions when the client disconnects
+  const sessionLifecycle = new SessionLifecycleManager(
+    sessionRegistry,
+    async (sessionId) => {
+      airtopClient.input.disconnect(sessionId);
+      // Pooled sessions are replaced as well as terminated
+      if (options.pool?.owns(sessionId)) {
+        await options.pool.recycle(sessionId, sessionRegistry);
+      } else {
+        await airtopClient.sessions.terminate(sessionId);
+      }
+      profileRegistry.recordSaved(sessionId);
     },
+    options.sessionLimits,
   );
+  server.server.onclose = () => {
+    void sessionLifecycle.dispose();
+  };
 
-  // Initialize Airtop client
-  const airtopClient = new AirtopClient({
-    apiKey,
-  });
+  registerSessionResources(server, sessionRegistry);
+  // Scraped content too long to return at once, read in pages
+  const contentStore = new ContentStore();
+  registerContentResources(server, contentStore);
+  registerPrompts(server, isToolEnabled, options.prompts);
+  registerUsageTools(server, usage);
+  if (options.pool) {
+    registerSessionPoolTools(server, options.pool, airtopClient, sessionRegistry, sessionLifecycle, profileRegistry, usage);
+  }
 
   // Register tools
   server.tool(
@@ -70,18 +212,31 @@ export function createMcpServer(apiKey: string, port: number) {
     "Create a new Airtop browser session",
     async () => {
       console.warn("createSession request");
-      const session = await airtopClient.sessions.create();
-      if (session.errors) {
-        return reportAirtopErrors(session.errors);
+      const releaseSession = sessionLifecycle.reserveSession();
+      if (!releaseSession) {
+        return reportSessionLimit();
+      }
+      try {
+        const session = await airtopClient.sessions.create(
+          Object.keys(sessionDefaults).length
+            ? { configuration: sessionDefaults }
+            : undefined,
+        );
+        if (session.errors) {
+          return reportAirtopErrors(session.errors);
+        }
+        sessionRegistry.addSession(session.data.id);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(session.data),
+            },
+          ],
+        };
+      } finally {
+        releaseSession();
       }
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(session.data),
-          },
-        ],
-      };
     },
   );
 
@@ -99,29 +254,42 @@ export function createMcpServer(apiKey: string, port: number) {
         timeoutMinutes: z.number().optional().describe("Session timeout in minutes (default: 10)"),
         extensionIds: z.array(z.string()).optional().describe("Google Web Store extension IDs to load"),
         baseProfileId: z.string().optional().describe("Deprecated: Use profileName instead")
-      }).optional().describe("Session configuration options")
+      }).optional().describe("Session configuration options"),
+      profileNotes: z.string().optional().describe("Notes to keep with the profile, e.g. which account it is logged in as")
     },
-    async ({ configuration }: { configuration?: SessionOptionsConfig }) => {
+    async ({ configuration, profileNotes }: { configuration?: SessionOptionsConfig; profileNotes?: string }) => {
       // Log only non-sensitive fields to avoid exposing credentials
       const { profileName, solveCaptcha, timeoutMinutes, extensionIds } = configuration || {};
       console.warn("createSessionWithOptions request", { profileName, solveCaptcha, timeoutMinutes, extensionIds });
       
-      // Create session with configuration
-      const sessionRequest = configuration ? { configuration } : {};
-      const session = await airtopClient.sessions.create(sessionRequest);
+      const releaseSession = sessionLifecycle.reserveSession();
+      if (!releaseSession) {
+        return reportSessionLimit();
+      }
+
+      // Create session with configuration, on top of the server's defaults
+      const sessionConfiguration = { ...sessionDefaults, ...configuration };
+      const sessionRequest = Object.keys(sessionConfiguration).length
+        ? { configuration: sessionConfiguration }
+        : {};
+      let session;
+      try {
+        session = await airtopClient.sessions.create(sessionRequest);
+        // Track session for profile management
+        if (!session.errors && session.data?.id) {
+          sessionRegistry.addSession(session.data.id, {
+            profileName: configuration?.profileName,
+          });
+        }
+      } finally {
+        releaseSession();
+      }
       
       if (session.errors) {
         return reportAirtopErrors(session.errors);
       }
-
-      // Track session for profile management
       if (session.data?.id && configuration?.profileName) {
-        sessionRegistry.set(session.data.id, {
-          sessionId: session.data.id,
-          profileName: configuration.profileName,
-          createdAt: new Date()
-        });
-        
+        profileRegistry.recordUse(configuration.profileName, session.data.id, profileNotes);
         // Set up profile saving on termination
         try {
           await airtopClient.sessions.saveProfileOnTermination(
@@ -147,17 +315,37 @@ export function createMcpServer(apiKey: string, port: number) {
   );
   server.tool(
     "createWindow",
-    "Create a new browser window in the session",
+    "Create a new browser window in the session. To open another page in a window you already have, use navigate instead.",
     {
       sessionId: z.string(),
       url: z.string(),
+      screenResolution: z.string().regex(/^\d+x\d+$/).optional().describe("Fixed window size as WIDTHxHEIGHT, e.g. 1280x720 (default: fit the live view)"),
+      waitUntil: waitUntilInput,
+      waitUntilTimeoutSeconds: waitUntilTimeoutInput,
     },
-    async ({ sessionId, url }: { sessionId: string; url: string }) => {
+    async ({ sessionId, url, screenResolution, waitUntil, waitUntilTimeoutSeconds }: {
+      sessionId: string;
+      url: string;
+      screenResolution?: string;
+      waitUntil?: WaitUntil;
+      waitUntilTimeoutSeconds?: number;
+    }, extra) => {
       console.warn("createWindow request", sessionId, url);
-      const window = await airtopClient.windows.create(sessionId, { url });
+      sessionLifecycle.touch(sessionId);
+      const window = await airtopClient.windows.create(sessionId, {
+        url,
+        screenResolution,
+        waitUntil,
+        waitUntilTimeoutSeconds,
+      }, { abortSignal: extra.signal });
       if (window.errors?.length) {
         return reportAirtopErrors(window.errors);
       }
+      sessionRegistry.addWindow(
+        sessionId,
+        window.data.windowId,
+        window.data.url ?? url,
+      );
       return {
         content: [
           {
@@ -169,56 +357,56 @@ export function createMcpServer(apiKey: string, port: number) {
     },
   );
 
-  server.tool(
+  server.registerTool(
     "pageQuery",
-    "Query the current page content using AI",
     {
-      sessionId: z.string().describe("The session ID"),
-      windowId: z.string().describe("The window ID"),
-      prompt: z.string().describe("The AI prompt to use"),
+      description: "Query the current page content using AI. Pass an outputSchema to get validated structured output.",
+      inputSchema: {
+        sessionId: z.string().describe("The session ID"),
+        windowId: z.string().describe("The window ID"),
+        prompt: z.string().describe("The AI prompt to use"),
+        outputSchema: outputSchemaInput.optional(),
+      },
+      outputSchema: structuredResultShape,
     },
-    async ({
-      sessionId,
-      windowId,
-      prompt,
-    }: {
-      sessionId: string;
-      windowId: string;
-      prompt: string;
-    }) => {
+    async (
+      {
+        sessionId,
+        windowId,
+        prompt,
+        outputSchema,
+      }: {
+        sessionId: string;
+        windowId: string;
+        prompt: string;
+        outputSchema?: JsonSchema | string;
+      },
+      extra,
+    ) => {
       console.warn("pageQuery request", prompt);
+      sessionLifecycle.touch(sessionId);
+      let validator: OutputValidator | undefined;
       try {
-        const contentSummary = await airtopClient.windows.pageQuery(
-          sessionId,
-          windowId,
-          {
-            prompt,
-          },
-        );
-        console.warn("pageQuery response", contentSummary);
-        if (contentSummary?.errors) {
-          return reportAirtopErrors(contentSummary.errors);
-        }
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(contentSummary.data),
-            },
-          ],
-        };
+        validator = outputSchema ? compileOutputSchema(outputSchema) : undefined;
       } catch (err) {
-        console.error("pageQuery failed:", err);
-        return {
-          content: [
+        return reportInvalidOutputSchema(err);
+      }
+      return queryStructured(
+        "pageQuery",
+        () =>
+          airtopClient.windows.pageQuery(
+            sessionId,
+            windowId,
             {
-              type: "text",
-              text: `Internal error during pageQuery: ${String(err)}`,
+              prompt,
+              ...(validator && {
+                configuration: { outputSchema: validator.schema },
+              }),
             },
-          ],
-          isError: true,
-        };
-      }
+            { abortSignal: extra.signal },
+          ),
+        validator,
+      );
     },
   );
 
@@ -229,10 +417,8 @@ export function createMcpServer(apiKey: string, port: number) {
       sessionId: z.string().describe("The session ID"),
     },
     async ({ sessionId }: { sessionId: string }) => {
-      // Clean up session tracking
-      sessionRegistry.delete(sessionId);
-      
-      await airtopClient.sessions.terminate(sessionId);
+      // Clean up session tracking; termination saves any configured profile
+      await sessionLifecycle.terminate(sessionId);
       return {
         content: [
           {
@@ -259,6 +445,7 @@ export function createMcpServer(apiKey: string, port: number) {
       sessionId: string;
       windowId: string;
     }) => {
+      sessionLifecycle.touch(sessionId);
       const window = await airtopClient.windows.getWindowInfo(
         sessionId,
         windowId,
@@ -266,6 +453,9 @@ export function createMcpServer(apiKey: string, port: number) {
       if (window.errors?.length) {
         return reportAirtopErrors(window.errors);
       }
+      sessionRegistry.updateWindow(sessionId, windowId, {
+        liveViewUrl: window.data.liveViewUrl,
+      });
       return {
         content: [
           {
@@ -277,44 +467,58 @@ export function createMcpServer(apiKey: string, port: number) {
     },
   );
   // tool for airtopClient.windows.paginatedExtraction
-  server.tool(
+  server.registerTool(
     "paginatedExtraction",
-    "Extract data from a paginated list",
     {
-      sessionId: z.string().describe("The session ID"),
-      windowId: z.string().describe("The window ID"),
-      prompt: z.string().describe("The AI prompt to use"),
-      outputSchema: z.string().describe("JSONSchema for the output").optional(),
+      description: "Extract data from a paginated list. Pass an outputSchema to get validated structured output.",
+      inputSchema: {
+        sessionId: z.string().describe("The session ID"),
+        windowId: z.string().describe("The window ID"),
+        prompt: z.string().describe("The AI prompt to use"),
+        outputSchema: outputSchemaInput.optional(),
+      },
+      outputSchema: structuredResultShape,
     },
-    async ({
-      sessionId,
-      windowId,
-      prompt,
-      outputSchema,
-    }: {
-      sessionId: string;
-      windowId: string;
-      prompt: string;
-      outputSchema?: string | undefined;
-    }) => {
-      const data = await airtopClient.windows.paginatedExtraction(
+    async (
+      {
         sessionId,
         windowId,
-        {
-          prompt,
-          configuration: {
-            outputSchema,
-          },
-        },
+        prompt,
+        outputSchema,
+      }: {
+        sessionId: string;
+        windowId: string;
+        prompt: string;
+        outputSchema?: JsonSchema | string;
+      },
+      extra,
+    ) => {
+      sessionLifecycle.touch(sessionId);
+      describeProgress(extra, { message: "Extracting from paginated pages" });
+      let validator: OutputValidator | undefined;
+      try {
+        validator = outputSchema ? compileOutputSchema(outputSchema) : undefined;
+      } catch (err) {
+        return reportInvalidOutputSchema(err);
+      }
+      return queryStructured(
+        "paginatedExtraction",
+        () =>
+          airtopClient.windows.paginatedExtraction(
+            sessionId,
+            windowId,
+            {
+              prompt,
+              ...(validator && {
+                configuration: {
+                  outputSchema: JSON.stringify(validator.schema),
+                },
+              }),
+            },
+            { abortSignal: extra.signal },
+          ),
+        validator,
       );
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(data),
-          },
-        ],
-      };
     },
   );
   
@@ -329,44 +533,36 @@ export function createMcpServer(apiKey: string, port: number) {
       coordinate: z.object({
         x: z.number(),
         y: z.number()
-      }).optional().describe("Optional exact coordinates to click")
+      }).optional().describe("Optional exact coordinates to click"),
+      clickType: z.enum(["click", "doubleClick", "rightClick"]).optional().describe('"click" (default), "doubleClick" or "rightClick"')
     },
-    async ({ sessionId, windowId, elementDescription, coordinate }: {
+    async ({ sessionId, windowId, elementDescription, coordinate, clickType }: {
       sessionId: string;
       windowId: string;
       elementDescription: string;
       coordinate?: { x: number; y: number };
-    }) => {
-      console.warn("click request", elementDescription, coordinate);
+      clickType?: "click" | "doubleClick" | "rightClick";
+    }, extra) => {
+      console.warn("click request", elementDescription, coordinate, clickType);
+      sessionLifecycle.touch(sessionId);
       
-      const clickRequest = coordinate 
-        ? { coordinate, elementDescription }
-        : { elementDescription };
-      try {
-        const result = await airtopClient.windows.click(sessionId, windowId, clickRequest);
-        if (result?.errors) {
-          return reportAirtopErrors(result.errors);
-        }
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result.data),
-            },
-          ],
-        };
-      } catch (err) {
-        console.error("click failed:", err);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Internal error during click: ${String(err)}`,
-            },
-          ],
-          isError: true,
-        };
+      const clickRequest = {
+        elementDescription,
+        ...(coordinate && { coordinate }),
+        ...(clickType && { configuration: { clickType } })
+      };
+      const result = await airtopClient.windows.click(sessionId, windowId, clickRequest, { abortSignal: extra.signal });
+      if (result.errors?.length) {
+        return reportAirtopErrors(result.errors);
       }
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result.data),
+          },
+        ],
+      };
     },
   );
 
@@ -377,22 +573,35 @@ export function createMcpServer(apiKey: string, port: number) {
       sessionId: z.string().describe("The session ID"),
       windowId: z.string().describe("The window ID"),
       elementDescription: z.string().optional().describe("Element to scroll to (natural language description)"),
+      direction: z.enum(["up", "down", "left", "right"]).optional().describe("Scroll this way by `amount`"),
+      amount: z.string().regex(/^\d+(\.\d+)?(px|%)$/).optional().default("100%").describe('How far to scroll in `direction`: pixels ("400px") or a percentage of the viewport ("50%", the most is "100%", the default)'),
+      toEdge: z.enum(["top", "bottom", "left", "right"]).optional().describe("Scroll all the way to this edge"),
+      scrollWithin: z.string().optional().describe("Scrollable area to scroll instead of the page (natural language description)"),
     },
-    async ({ sessionId, windowId, elementDescription }: {
+    async ({ sessionId, windowId, elementDescription, direction, amount, toEdge, scrollWithin }: {
       sessionId: string;
       windowId: string;
       elementDescription?: string;
-    }) => {
-      console.warn("scroll request", elementDescription);
+      direction?: "up" | "down" | "left" | "right";
+      amount?: string;
+      toEdge?: "top" | "bottom" | "left" | "right";
+      scrollWithin?: string;
+    }, extra) => {
+      console.warn("scroll request", elementDescription, direction, amount, toEdge);
+      sessionLifecycle.touch(sessionId);
       
-      // Simple scroll implementation - scroll to element or general scroll
-      const scrollRequest = elementDescription 
-        ? { scrollToElement: elementDescription }
-        : {};
+      const scrollRequest = {
+        ...(elementDescription && { scrollToElement: elementDescription }),
+        ...(direction && { scrollBy: scrollByConfig(direction, amount ?? "100%") }),
+        ...(toEdge && {
+          scrollToEdge: toEdge === "top" || toEdge === "bottom" ? { yAxis: toEdge } : { xAxis: toEdge },
+        }),
+        ...(scrollWithin && { scrollWithin }),
+      };
         
-      const result = await airtopClient.windows.scroll(sessionId, windowId, scrollRequest);
+      const result = await airtopClient.windows.scroll(sessionId, windowId, scrollRequest, { abortSignal: extra.signal });
       
-      if (result.errors) {
+      if (result.errors?.length) {
         return reportAirtopErrors(result.errors);
       }
       
@@ -413,25 +622,37 @@ export function createMcpServer(apiKey: string, port: number) {
     {
       sessionId: z.string().describe("The session ID"),
       windowId: z.string().describe("The window ID"),
-      text: z.string().describe("Text to type"),
-      elementDescription: z.string().optional().describe("Natural language description of the element to type into (e.g., 'the search box', 'email input field')")
+      text: z.string().describe("Text to type. Write passwords and other credentials as {{secret:NAME}} placeholders, which the server fills in."),
+      elementDescription: z.string().optional().describe("Natural language description of the element to type into (e.g., 'the search box', 'email input field')"),
+      clearFirst: z.boolean().optional().describe("Clear the field before typing"),
+      pressEnter: z.boolean().optional().describe("Press Enter after typing, e.g. to submit a search")
     },
-    async ({ sessionId, windowId, text, elementDescription }: {
+    async ({ sessionId, windowId, text, elementDescription, clearFirst, pressEnter }: {
       sessionId: string;
       windowId: string;
       text: string;
       elementDescription?: string;
-    }) => {
+      clearFirst?: boolean;
+      pressEnter?: boolean;
+    }, extra) => {
       console.warn("type request", text, elementDescription);
+      sessionLifecycle.touch(sessionId);
       
+      const unknownSecrets = secrets.unknownNames(text);
+      if (unknownSecrets.length) {
+        return errorResult(unknownSecretsMessage(unknownSecrets), "validation");
+      }
       const typeRequest = {
-        text,
-        ...(elementDescription && { elementDescription })
+        // Resolved only now, so the model and logs see the placeholder
+        text: secrets.resolve(text),
+        ...(elementDescription && { elementDescription }),
+        ...(clearFirst !== undefined && { clearInputField: clearFirst }),
+        ...(pressEnter !== undefined && { pressEnterKey: pressEnter })
       };
         
-      const result = await airtopClient.windows.type(sessionId, windowId, typeRequest);
+      const result = await airtopClient.windows.type(sessionId, windowId, typeRequest, { abortSignal: extra.signal });
       
-      if (result.errors) {
+      if (result.errors?.length) {
         return reportAirtopErrors(result.errors);
       }
       
@@ -446,96 +667,6 @@ export function createMcpServer(apiKey: string, port: number) {
     },
   );
 
-  server.tool(
-    "scrape",
-    "Scrape/extract content from the browser window",
-    {
-      sessionId: z.string().describe("The session ID"),
-      windowId: z.string().describe("The window ID"),
-    },
-    async ({ sessionId, windowId }: {
-      sessionId: string;
-      windowId: string;
-    }) => {
-      console.warn("scrape request");
-      try {
-        const result = await airtopClient.windows.scrapeContent(sessionId, windowId);
-        if (result?.errors) {
-          return reportAirtopErrors(result.errors);
-        }
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result.data),
-            },
-          ],
-        };
-      } catch (err) {
-        console.error("scrape failed:", err);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Internal error during scrape: ${String(err)}`,
-            },
-          ],
-          isError: true,
-        };
-      }
-    },
-  );
-
-  server.tool(
-    "fileInput",
-    "Upload a file to a file input element in the browser window",
-    {
-      sessionId: z.string().describe("The session ID"),
-      windowId: z.string().describe("The window ID"),
-      elementDescription: z.string().describe("Natural language description of the file input element (e.g., 'file upload button', 'browse files input')"),
-      filePath: z.string().describe("Local path to the file to upload")
-    },
-    async ({ sessionId, windowId, elementDescription, filePath }: {
-      sessionId: string;
-      windowId: string;
-      elementDescription: string;
-      filePath: string;
-    }) => {
-      try {
-        const result: UploadFileResponse = await airtopClient.windows.uploadFileAndSelectInput(
-          sessionId, 
-          windowId, 
-          {
-            elementDescription,
-            uploadFilePath: filePath
-          }
-        );
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({ 
-                fileId: result.fileId, 
-                success: true,
-                message: "File uploaded successfully" 
-              }),
-            },
-          ],
-        };
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `File upload failed: ${String(error)}`,
-            },
-          ],
-          isError: true,
-        };
-      }
-    }
-  );
-
   server.tool(
     "monitorForCondition",
     "Monitor the browser window for specific conditions or changes",
@@ -543,22 +674,27 @@ export function createMcpServer(apiKey: string, port: number) {
       sessionId: z.string().describe("The session ID"),
       windowId: z.string().describe("The window ID"),
       condition: z.string().describe("Natural language description of the condition to monitor for (e.g., 'wait for page to load', 'wait for login to complete')"),
-      timeoutSeconds: z.number().optional().default(30).describe("Timeout in seconds (default: 30)")
+      timeoutSeconds: z.number().optional().default(monitorTimeoutSeconds).describe(`Timeout in seconds (default: ${monitorTimeoutSeconds})`)
     },
-    async ({ sessionId, windowId, condition, timeoutSeconds = 30 }: {
+    async ({ sessionId, windowId, condition, timeoutSeconds = monitorTimeoutSeconds }: {
       sessionId: string;
       windowId: string;
       condition: string;
       timeoutSeconds?: number;
-    }) => {
+    }, extra) => {
       console.warn("monitorForCondition request", condition, timeoutSeconds);
+      sessionLifecycle.touch(sessionId);
+      describeProgress(extra, {
+        totalSeconds: timeoutSeconds,
+        message: `Waiting for: ${condition}`,
+      });
         
       const result = await airtopClient.windows.monitor(sessionId, windowId, {
         condition,
         timeThresholdSeconds: timeoutSeconds
-      });
+      }, { abortSignal: extra.signal });
       
-      if (result.errors) {
+      if (result.errors?.length) {
         return reportAirtopErrors(result.errors);
       }
       
@@ -573,38 +709,277 @@ export function createMcpServer(apiKey: string, port: number) {
     },
   );
 
+  server.tool(
+    "screenshot",
+    "Take a screenshot of the browser window so you can see the page. Returns image content.",
+    {
+      sessionId: z.string().describe("The session ID"),
+      windowId: z.string().describe("The window ID"),
+      elementDescription: z.string().optional().describe("Natural language description of an element to scroll into view and capture (e.g., 'the pricing table')"),
+      fullPage: z.boolean().optional().default(false).describe("Capture the whole page by scrolling through it, returning one image per viewport"),
+      maxPages: z.number().int().min(1).max(MAX_SCREENSHOT_PAGES).optional().default(5).describe(`Maximum number of viewport images for full page capture (default: 5, max: ${MAX_SCREENSHOT_PAGES})`),
+      maxWidth: z.number().int().positive().optional().default(DEFAULT_SCREENSHOT_WIDTH).describe(`Scale the image down to fit this width in pixels (default: ${DEFAULT_SCREENSHOT_WIDTH})`),
+      maxHeight: z.number().int().positive().optional().describe("Scale the image down to fit this height in pixels"),
+      quality: z.number().int().min(1).max(100).optional().describe("JPEG quality (1-100), lower values produce smaller images"),
+    },
+    async ({ sessionId, windowId, elementDescription, fullPage = false, maxPages = 5, maxWidth, maxHeight, quality }: {
+      sessionId: string;
+      windowId: string;
+      elementDescription?: string;
+      fullPage?: boolean;
+      maxPages?: number;
+      maxWidth?: number;
+      maxHeight?: number;
+      quality?: number;
+    }, extra) => {
+      console.warn("screenshot request", { elementDescription, fullPage, maxWidth, maxHeight, quality });
+      sessionLifecycle.touch(sessionId);
+
+      // Airtop only captures the viewport, so scroll the target into view first
+      const scrollRequest = elementDescription
+        ? { scrollToElement: elementDescription }
+        : fullPage
+          ? { scrollToEdge: { yAxis: "top" } }
+          : undefined;
+      const screenshotRequest = {
+        configuration: {
+          screenshot: { maxWidth, maxHeight, quality, scope: "viewport" as const },
+        },
+      };
+      const requestOptions = { abortSignal: extra.signal };
+
+      if (scrollRequest) {
+        const scrolled = await airtopClient.windows.scroll(sessionId, windowId, scrollRequest, requestOptions);
+        if (scrolled.errors?.length) {
+          return reportAirtopErrors(scrolled.errors);
+        }
+      }
+
+      const images: { type: "image"; data: string; mimeType: string }[] = [];
+      const pages = fullPage && !elementDescription ? maxPages : 1;
+      for (let page = 0; page < pages; page++) {
+        if (page > 0) {
+          const scrolled = await airtopClient.windows.scroll(sessionId, windowId, {
+            scrollBy: { yAxis: "100%" },
+          }, requestOptions);
+          if (scrolled.errors?.length) {
+            return reportAirtopErrors(scrolled.errors);
+          }
+        }
+        const result = await airtopClient.windows.screenshot(sessionId, windowId, screenshotRequest, requestOptions);
+        if (result.errors?.length) {
+          return reportAirtopErrors(result.errors);
+        }
+        const image = parseDataUrl(result.meta.screenshots?.[0]?.dataUrl);
+        if (!image) {
+          break;
+        }
+        // An identical capture means scrolling hit the bottom of the page
+        if (images.some((previous) => previous.data === image.data)) {
+          break;
+        }
+        images.push({ type: "image", ...image });
+      }
+
+      if (!images.length) {
+        return errorResult("Airtop did not return a screenshot", "internal");
+      }
+      return { content: images };
+    },
+  );
+
+  registerNavigationTools(server, airtopClient, sessionRegistry, sessionLifecycle);
+  registerHumanActionTool(server, airtopClient, sessionRegistry, sessionLifecycle, usage);
+  registerInteractionTools(server, airtopClient, sessionLifecycle);
+  registerProfileTools(server, airtopClient, profileRegistry);
+  registerFileTools(server, airtopClient, sessionLifecycle, options.files);
+  registerScrapeTool(server, airtopClient, sessionLifecycle, contentStore);
+  registerRunStepsTool(server, airtopClient, sessionRegistry, sessionLifecycle, secrets);
+  registerBatchQueryTool(server, airtopClient, sessionRegistry, sessionLifecycle, sessionDefaults);
+  registerTraceTools(server, toolPipeline, traceDir);
+
+  const unknownTools = unknownToolNames(options.tools ?? {}, [
+    ...toolPipeline.toolNames,
+    ...toolPipeline.disabledToolNames,
+  ]);
+  if (unknownTools.length) {
+    console.warn(`Ignoring unknown tools in tool filter: ${unknownTools.join(", ")}`);
+  }
+
   return server;
 }
-export function reportAirtopErrors(errors: AirtopError[] | Issue[]) {
-  // Log the raw errors for debugging purposes
-  try {
-    console.error("Airtop API returned errors:", errors);
-  } catch (_) {
-    // ignore logging issues
+
+// Paragraphs of the server instructions, each included only when all of its
+// tools are registered
+const INSTRUCTION_SECTIONS: { tools: string[]; text: string }[] = [
+  {
+    tools: [],
+    text: `This server is used to create and manage browser sessions and windows using the Airtop API, 
+    which is a browser automation tool that lets you control a browser from a remote server.`,
+  },
+  {
+    tools: ["createSession"],
+    text: `You can create a session using the "createSession" tool, which gives you access to a single browser,
+    returning JSON with a session ID.`,
+  },
+  {
+    tools: ["acquireSession", "releaseSession"],
+    text: `"acquireSession" hands you a browser that is already running, which is quicker than creating a session.
+    Call "releaseSession" once you are done with it, so it can be reused.`,
+  },
+  {
+    tools: ["createWindow"],
+    text: `Once you have a session, you can create windows using the "createWindow" tool.
+    This returns JSON with a window ID.`,
+  },
+  {
+    tools: ["navigate"],
+    text: `To open another page in a window you already have, use the "navigate" tool instead of creating a new window.
+    "goBack", "goForward" and "reload" move through the window's history.`,
+  },
+  {
+    tools: ["listWindows", "closeWindow"],
+    text: `Use "listWindows" to see which windows are open in a session, and "closeWindow" to close ones you no longer need.`,
+  },
+  {
+    tools: ["listProfiles"],
+    text: `Browser profiles keep logins between sessions. Use "listProfiles" to find an existing profile to pass as
+    profileName to "createSessionWithOptions" before creating a new one.`,
+  },
+  {
+    tools: ["pageQuery"],
+    text: `You can query the content of a window using the "pageQuery" tool, passing in the session ID and window ID.
+    This returns JSON with a content summary.`,
+  },
+  {
+    tools: ["batchQuery"],
+    text: `To ask the same question of many pages, use "batchQuery" with the list of URLs instead of opening and
+    querying each one yourself. It returns one result per URL and reports the ones that failed.`,
+  },
+  {
+    tools: ["scrape"],
+    text: `"scrape" returns long pages a page at a time: pass its "nextCursor" back to read on.
+    Use format "markdown" to keep the page structure, or "links" to see where the page leads.`,
+  },
+  {
+    tools: ["getWindowInfo"],
+    text: `You can also let the user interact with the window using the "getWindowInfo" tool,
+    which returns a live view URL that you can share with the user, for them to interact with the window.`,
+  },
+  {
+    tools: ["requestHumanAction"],
+    text: `When the user has to do something themselves, such as logging in or entering a 2FA code, use the
+    "requestHumanAction" tool. It waits until they are done and tells you whether they completed, declined or timed out.`,
+  },
+  {
+    tools: ["selectOption", "pressKeys"],
+    text: `Use "selectOption" to choose from dropdowns rather than clicking through them,
+    and "pressKeys" for keys and shortcuts such as Escape or Control+A.`,
+  },
+  {
+    tools: ["downloadFile"],
+    text: `When clicking a link downloads a file, use the "downloadFile" tool to get the file.`,
+  },
+  {
+    tools: ["runSteps"],
+    text: `For predictable sequences such as filling in a login form, use the "runSteps" tool to run
+    several clicks, typing, scrolling, waits and queries in one call.`,
+  },
+  {
+    tools: [],
+    text: `Sessions and windows you have opened are listed as resources under "airtop://sessions",
+    so you can find them again instead of creating new ones.`,
+  },
+  {
+    tools: [],
+    text: `Try to reuse the same session and windows for multiple queries to save on costs.`,
+  },
+  {
+    tools: ["getUsage"],
+    text: `"getUsage" reports the session minutes, AI calls and credits used so far, and any budgets.
+    Once a budget is used up, new sessions and AI calls fail with the budget_exceeded error category.`,
+  },
+];
+
+function buildInstructions(isToolEnabled: (name: string) => boolean) {
+  const sections = INSTRUCTION_SECTIONS.filter(({ tools }) =>
+    tools.every(isToolEnabled),
+  ).map(({ text }) => text);
+  return `\n    ${sections.join("\n\n    ")}`;
+}
+
+// Attempts at an AI query before giving up on a response that doesn't match its schema
+const STRUCTURED_QUERY_ATTEMPTS = 2;
+
+/**
+ * Run an AI query and return its response as structured content,
+ * validated against the caller's schema when one was given.
+ */
+async function queryStructured(
+  toolName: string,
+  query: () => Promise<AiPromptResponse>,
+  validator?: OutputValidator,
+) {
+  for (let attempt = 1; ; attempt++) {
+    const response = await query();
+    console.warn(`${toolName} response`, response);
+    if (response?.errors?.length) {
+      return reportAirtopErrors(response.errors);
+    }
+    if (!validator) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(response.data),
+          } as const,
+        ],
+        structuredContent: { result: response.data.modelResponse },
+      };
+    }
+
+    const outcome = validator.check(response.data.modelResponse);
+    if (outcome.ok) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(outcome.value),
+          } as const,
+        ],
+        structuredContent: { result: outcome.value },
+      };
+    }
+    if (attempt >= STRUCTURED_QUERY_ATTEMPTS) {
+      return reportValidationErrors(outcome.errors);
+    }
+    console.warn(
+      `${toolName} response did not match outputSchema, retrying`,
+      outcome.errors,
+    );
   }
+}
 
-  const formatted =
-    Array.isArray(errors) && errors.length > 0
-      ? errors
-          .map((e) => {
-            if (!e) return "Unknown error (empty)";
-            // If it's an object with a message property
-            // prefer that, otherwise JSON stringify the entry
-            // also handle plain strings
-            if (typeof e === "string") return e;
-            // @ts-ignore
-            return e.message ?? JSON.stringify(e);
-          })
-          .join("\n")
-      : String(errors);
-
-  return {
-    content: [
-      {
-        type: "text",
-        text: `Errors from the API:\n${formatted}`,
-      } as const,
-    ],
-    isError: true,
-  };
+// Airtop scrolls by signed pixel or percentage amounts on each axis
+function scrollByConfig(
+  direction: "up" | "down" | "left" | "right",
+  amount: string,
+) {
+  const signed = direction === "up" || direction === "left" ? `-${amount}` : amount;
+  return direction === "up" || direction === "down"
+    ? { yAxis: signed }
+    : { xAxis: signed };
+}
+
+// Split a base64 data URL into MCP image content fields
+function parseDataUrl(dataUrl?: string) {
+  const match = dataUrl?.match(/^data:([^;,]+);base64,(.*)$/s);
+  return match ? { mimeType: match[1], data: match[2] } : undefined;
+}
+
+function reportSessionLimit() {
+  return errorResult(
+    "Session limit reached. Terminate an existing session with the terminateSession tool, or reuse one listed under airtop://sessions.",
+    "rate_limited",
+  );
 }
@@ -0,0 +1,224 @@
+import { countSessions, countWindows } from "./session-lifecycle.js";
+import { ToolMiddleware } from "./tool-pipeline.js";
+
+// Tool latency buckets in seconds, from quick reads to long waits and
+// paginated extractions
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+// Series are keyed by their rendered labels
+function seriesKey(labels: Labels) {
+  return formatLabels(labels);
+}
+
+interface Metric {
+  render(): string[];
+}
+
+function header(name: string, help: string, type: string) {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export class Counter implements Metric {
+  private series = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = seriesKey(labels);
+    this.series.set(key, (this.series.get(key) ?? 0) + amount);
+  }
+
+  get(labels: Labels = {}) {
+    return this.series.get(seriesKey(labels)) ?? 0;
+  }
+
+  render() {
+    return [
+      ...header(this.name, this.help, "counter"),
+      ...[...this.series].map(([key, value]) => `${this.name}${key} ${value}`),
+    ];
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  // Observations at or below each bucket's bound, not cumulative
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly bounds: number[],
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels,
+        buckets: this.bounds.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+    const bucket = this.bounds.findIndex((bound) => value <= bound);
+    if (bucket >= 0) {
+      series.buckets[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  render() {
+    const lines = header(this.name, this.help, "histogram");
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      let cumulative = 0;
+      this.bounds.forEach((bound, index) => {
+        cumulative += buckets[index];
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`,
+      );
+    }
+    return lines;
+  }
+}
+
+// A gauge read when metrics are scraped, one value per label set
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly collect: () => [Labels, number][],
+  ) {}
+
+  render() {
+    return [
+      ...header(this.name, this.help, "gauge"),
+      ...this.collect().map(
+        ([labels, value]) => `${this.name}${formatLabels(labels)} ${value}`,
+      ),
+    ];
+  }
+}
+
+/**
+ * Metrics for the whole process, shared by every client's server and
+ * rendered in the Prometheus text format on /metrics.
+ */
+export class ServerMetrics {
+  private metrics: Metric[] = [];
+
+  readonly toolCalls = this.add(
+    new Counter(
+      "airtop_mcp_tool_calls_total",
+      "Tool calls by tool and outcome (success or error).",
+    ),
+  );
+  readonly toolDuration = this.add(
+    new Histogram(
+      "airtop_mcp_tool_duration_seconds",
+      "Time taken by tool calls, in seconds.",
+      DURATION_BUCKETS,
+    ),
+  );
+  readonly toolErrors = this.add(
+    new Counter(
+      "airtop_mcp_tool_errors_total",
+      "Failed tool calls by tool and error category.",
+    ),
+  );
+
+  constructor() {
+    this.gauge(
+      "airtop_mcp_active_sessions",
+      "Browser sessions open across all clients.",
+      () => [[{}, countSessions()]],
+    );
+    this.gauge(
+      "airtop_mcp_active_windows",
+      "Browser windows open across all clients.",
+      () => [[{}, countWindows()]],
+    );
+  }
+
+  gauge(name: string, help: string, collect: () => [Labels, number][]) {
+    return this.add(new Gauge(name, help, collect));
+  }
+
+  render() {
+    return `${this.metrics.flatMap((metric) => metric.render()).join("\n")}\n`;
+  }
+
+  /**
+   * Count and time every tool call, and count failures by the category
+   * the error handling middleware gave them.
+   */
+  get middleware(): ToolMiddleware {
+    return async ({ name }, next) => {
+      const started = performance.now();
+      let outcome = "error";
+      try {
+        const result = await next();
+        if (result.isError) {
+          const category = result._meta?.errorCategory;
+          this.toolErrors.inc({
+            tool: name,
+            category: typeof category === "string" ? category : "unknown",
+          });
+        } else {
+          outcome = "success";
+        }
+        return result;
+      } catch (error) {
+        this.toolErrors.inc({ tool: name, category: "unknown" });
+        throw error;
+      } finally {
+        this.toolCalls.inc({ tool: name, outcome });
+        this.toolDuration.observe(
+          { tool: name },
+          (performance.now() - started) / 1000,
+        );
+      }
+    };
+  }
+
+  private add<T extends Metric>(metric: T) {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
@@ -0,0 +1,238 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { BrowserBackend } from "./backend.js";
+import { SessionLifecycleManager } from "./session-lifecycle.js";
+import { SessionRegistry, serializeWindow } from "./session-registry.js";
+import { errorResult, jsonResult, reportAirtopErrors } from "./tool-errors.js";
+
+export const waitUntilInput = z
+  .enum(["load", "domContentLoaded", "complete", "noWait"])
+  .optional()
+  .default("load")
+  .describe(
+    'When the page counts as loaded: "load", "domContentLoaded", "complete", or "noWait" to return immediately (default: "load")',
+  );
+
+export type WaitUntil = z.infer<typeof waitUntilInput>;
+
+export const waitUntilTimeoutInput = z
+  .number()
+  .int()
+  .positive()
+  .optional()
+  .describe("Maximum seconds to wait for the page to load");
+
+interface LoadArgs {
+  sessionId: string;
+  windowId: string;
+  waitUntil?: WaitUntil;
+  waitUntilTimeoutSeconds?: number;
+}
+
+/**
+ * The URL a window shows according to Airtop, which differs from the one it
+ * was asked to load when the page redirected.
+ */
+export async function currentWindowUrl(
+  airtopClient: BrowserBackend,
+  sessionId: string,
+  windowId: string,
+) {
+  const listed = await airtopClient.windows.list(sessionId);
+  if (listed.errors?.length) {
+    return undefined;
+  }
+  return listed.data.windows?.find((window) => window.windowId === windowId)
+    ?.url;
+}
+
+/**
+ * Register tools that move existing windows between pages and manage the
+ * windows open in a session, keeping the session registry in sync.
+ */
+export function registerNavigationTools(
+  server: McpServer,
+  airtopClient: BrowserBackend,
+  sessionRegistry: SessionRegistry,
+  sessionLifecycle: SessionLifecycleManager,
+) {
+  // Ask Airtop which windows are open and where, so pages reached by
+  // clicking links are known before moving through history
+  async function refreshWindows(sessionId: string) {
+    const listed = await airtopClient.windows.list(sessionId);
+    if (listed.errors?.length) {
+      return { errors: listed.errors };
+    }
+    return {
+      windows: sessionRegistry.syncWindows(
+        sessionId,
+        listed.data.windows ?? [],
+      ),
+    };
+  }
+
+  async function load(
+    { sessionId, windowId, waitUntil, waitUntilTimeoutSeconds }: LoadArgs,
+    url: string,
+    signal: AbortSignal,
+  ) {
+    const loaded = await airtopClient.windows.loadUrl(
+      sessionId,
+      windowId,
+      { url, waitUntil, waitUntilTimeoutSeconds },
+      { abortSignal: signal },
+    );
+    return loaded.errors?.length ? loaded.errors : undefined;
+  }
+
+  // Load the page `offset` entries away in the window's history
+  async function moveInHistory(
+    args: LoadArgs,
+    offset: number,
+    signal: AbortSignal,
+  ) {
+    const { sessionId, windowId } = args;
+    sessionLifecycle.touch(sessionId);
+    const refreshed = await refreshWindows(sessionId);
+    if (refreshed.errors) {
+      return reportAirtopErrors(refreshed.errors);
+    }
+    if (!sessionRegistry.getWindow(sessionId, windowId)) {
+      return errorResult(
+        `Window ${windowId} is not open in session ${sessionId}`,
+        "not_found",
+      );
+    }
+    const url = sessionRegistry.historyEntry(sessionId, windowId, offset);
+    if (url === undefined) {
+      return errorResult(
+        offset === 0
+          ? `Window ${windowId} has no page to reload`
+          : `Window ${windowId} has no ${offset < 0 ? "earlier" : "later"} page in its history`,
+        "validation",
+      );
+    }
+    const errors = await load(args, url, signal);
+    if (errors) {
+      return reportAirtopErrors(errors);
+    }
+    sessionRegistry.moveInHistory(sessionId, windowId, offset);
+    const loadedUrl = await currentWindowUrl(airtopClient, sessionId, windowId);
+    const window =
+      loadedUrl && loadedUrl !== url
+        ? sessionRegistry.recordRedirect(sessionId, windowId, loadedUrl)
+        : sessionRegistry.getWindow(sessionId, windowId);
+    return jsonResult(window && serializeWindow(window));
+  }
+
+  const loadArgs = {
+    sessionId: z.string().describe("The session ID"),
+    windowId: z.string().describe("The window ID"),
+    waitUntil: waitUntilInput,
+    waitUntilTimeoutSeconds: waitUntilTimeoutInput,
+  };
+
+  server.tool(
+    "navigate",
+    "Load a URL in an existing browser window. Use this instead of creating a new window for each page.",
+    {
+      ...loadArgs,
+      url: z.string().describe("URL to load"),
+    },
+    async (args: LoadArgs & { url: string }, extra) => {
+      console.warn("navigate request", args.windowId, args.url);
+      sessionLifecycle.touch(args.sessionId);
+      const errors = await load(args, args.url, extra.signal);
+      if (errors) {
+        return reportAirtopErrors(errors);
+      }
+      // Where the page ended up, so history doesn't keep URLs that redirect
+      const loadedUrl = await currentWindowUrl(
+        airtopClient,
+        args.sessionId,
+        args.windowId,
+      );
+      const window = sessionRegistry.recordNavigation(
+        args.sessionId,
+        args.windowId,
+        loadedUrl ?? args.url,
+      );
+      return jsonResult(serializeWindow(window));
+    },
+  );
+
+  server.tool(
+    "goBack",
+    "Go back to the previous page in a browser window",
+    loadArgs,
+    async (args: LoadArgs, extra) => {
+      console.warn("goBack request", args.windowId);
+      return moveInHistory(args, -1, extra.signal);
+    },
+  );
+
+  server.tool(
+    "goForward",
+    "Go forward to the next page in a browser window, after going back",
+    loadArgs,
+    async (args: LoadArgs, extra) => {
+      console.warn("goForward request", args.windowId);
+      return moveInHistory(args, 1, extra.signal);
+    },
+  );
+
+  server.tool(
+    "reload",
+    "Reload the current page in a browser window",
+    loadArgs,
+    async (args: LoadArgs, extra) => {
+      console.warn("reload request", args.windowId);
+      return moveInHistory(args, 0, extra.signal);
+    },
+  );
+
+  server.tool(
+    "closeWindow",
+    "Close a browser window you no longer need. The session stays open.",
+    {
+      sessionId: z.string().describe("The session ID"),
+      windowId: z.string().describe("The window ID"),
+    },
+    async ({
+      sessionId,
+      windowId,
+    }: {
+      sessionId: string;
+      windowId: string;
+    }) => {
+      console.warn("closeWindow request", windowId);
+      sessionLifecycle.touch(sessionId);
+      const closed = await airtopClient.windows.close(sessionId, windowId);
+      if (closed.errors?.length) {
+        return reportAirtopErrors(closed.errors);
+      }
+      sessionRegistry.removeWindow(sessionId, windowId);
+      return jsonResult({ sessionId, windowId, closed: true });
+    },
+  );
+
+  server.tool(
+    "listWindows",
+    "List the windows open in a session, with the page each one shows",
+    {
+      sessionId: z.string().describe("The session ID"),
+    },
+    async ({ sessionId }: { sessionId: string }) => {
+      console.warn("listWindows request", sessionId);
+      sessionLifecycle.touch(sessionId);
+      const refreshed = await refreshWindows(sessionId);
+      if (refreshed.errors) {
+        return reportAirtopErrors(refreshed.errors);
+      }
+      return jsonResult({
+        sessionId,
+        windows: refreshed.windows.map(serializeWindow),
+      });
+    },
+  );
+}
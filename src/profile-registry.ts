@@ -0,0 +1,132 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// What this server knows about an Airtop browser profile. Airtop has no
+// API to list profiles, so this covers profiles used through the server.
+export interface ProfileRecord {
+  name: string;
+  // Session that first used the profile
+  createdBySessionId?: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  // When a session using the profile last terminated, saving it
+  lastSavedAt?: string;
+  notes?: string;
+}
+
+interface ProfileFile {
+  profiles: ProfileRecord[];
+}
+
+/**
+ * Records the browser profiles sessions load and save, persisted to a JSON
+ * file when one is given so the record survives restarts. One registry is
+ * shared by every client of the process.
+ */
+export class ProfileRegistry {
+  private profiles = new Map<string, ProfileRecord>();
+  // Profiles that will be saved when their session terminates, by session
+  private pendingSaves = new Map<string, string>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(readonly file?: string) {}
+
+  static async load(file: string) {
+    const registry = new ProfileRegistry(file);
+    let text: string | undefined;
+    try {
+      text = await readFile(file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+    if (text !== undefined) {
+      const { profiles } = JSON.parse(text) as ProfileFile;
+      for (const profile of profiles) {
+        registry.profiles.set(profile.name, profile);
+      }
+    }
+    return registry;
+  }
+
+  list() {
+    return [...this.profiles.values()].sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  get(name: string) {
+    return this.profiles.get(name);
+  }
+
+  // A session loaded the profile and will save it on termination
+  recordUse(name: string, sessionId: string, notes?: string) {
+    const now = new Date().toISOString();
+    const profile = this.profiles.get(name) ?? {
+      name,
+      createdBySessionId: sessionId,
+      createdAt: now,
+    };
+    profile.lastUsedAt = now;
+    if (notes !== undefined) {
+      profile.notes = notes;
+    }
+    this.profiles.set(name, profile);
+    this.pendingSaves.set(sessionId, name);
+    this.persist();
+    return profile;
+  }
+
+  // The session terminated, which saves its profile
+  recordSaved(sessionId: string) {
+    const name = this.pendingSaves.get(sessionId);
+    const profile = name && this.profiles.get(name);
+    this.pendingSaves.delete(sessionId);
+    if (profile) {
+      profile.lastSavedAt = new Date().toISOString();
+      this.persist();
+    }
+  }
+
+  setNotes(name: string, notes: string) {
+    const profile = this.profiles.get(name);
+    if (profile) {
+      profile.notes = notes;
+      this.persist();
+    }
+    return profile;
+  }
+
+  remove(name: string) {
+    const removed = this.profiles.delete(name);
+    if (removed) {
+      this.persist();
+    }
+    return removed;
+  }
+
+  // Resolves once every change so far is on disk
+  flush() {
+    return this.writes;
+  }
+
+  private persist() {
+    const { file } = this;
+    if (!file) {
+      return;
+    }
+    const data: ProfileFile = { profiles: this.list() };
+    this.writes = this.writes
+      .then(async () => {
+        await mkdir(path.dirname(file), { recursive: true });
+        // Write then rename, so a crash never leaves a truncated file
+        const temporary = `${file}.tmp`;
+        await writeFile(temporary, `${JSON.stringify(data, null, 2)}\n`);
+        await rename(temporary, file);
+      })
+      .catch((error) => {
+        console.warn(`Failed to write profiles ${file}: ${String(error)}`);
+      });
+  }
+}
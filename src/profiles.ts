@@ -0,0 +1,79 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { BrowserBackend } from "./backend.js";
+import { ProfileRegistry } from "./profile-registry.js";
+import { errorResult, jsonResult } from "./tool-errors.js";
+
+function reportUnknownProfile(profileName: string) {
+  return errorResult(
+    `Profile ${profileName} has not been used through this server. Use listProfiles to see known profiles.`,
+    "not_found",
+  );
+}
+
+/**
+ * Register tools for browsing and cleaning up the browser profiles sessions
+ * load and save via createSessionWithOptions.
+ */
+export function registerProfileTools(
+  server: McpServer,
+  airtopClient: BrowserBackend,
+  profileRegistry: ProfileRegistry,
+) {
+  server.tool(
+    "listProfiles",
+    "List the browser profiles used through this server, with when they were created and last saved and any notes",
+    () => {
+      console.warn("listProfiles request");
+      return jsonResult({ profiles: profileRegistry.list() });
+    },
+  );
+
+  server.tool(
+    "getProfileInfo",
+    "Get what is recorded about a browser profile: the session that created it, when it was last used and saved, and notes",
+    {
+      profileName: z.string().describe("The profile name"),
+    },
+    ({ profileName }: { profileName: string }) => {
+      console.warn("getProfileInfo request", profileName);
+      const profile = profileRegistry.get(profileName);
+      if (!profile) {
+        return reportUnknownProfile(profileName);
+      }
+      return jsonResult(profile);
+    },
+  );
+
+  server.tool(
+    "setProfileNotes",
+    "Replace the notes kept with a browser profile, e.g. which account it is logged in as",
+    {
+      profileName: z.string().describe("The profile name"),
+      notes: z.string().describe("Free-form notes about the profile"),
+    },
+    ({ profileName, notes }: { profileName: string; notes: string }) => {
+      console.warn("setProfileNotes request", profileName);
+      const profile = profileRegistry.setNotes(profileName, notes);
+      if (!profile) {
+        return reportUnknownProfile(profileName);
+      }
+      return jsonResult(profile);
+    },
+  );
+
+  server.tool(
+    "deleteProfile",
+    "Delete a saved browser profile from Airtop, e.g. one that is stale or logged in to an account no longer needed",
+    {
+      profileName: z.string().describe("The profile name"),
+    },
+    async ({ profileName }: { profileName: string }) => {
+      console.warn("deleteProfile request", profileName);
+      // Airtop may hold profiles this server never recorded, so always ask
+      await airtopClient.profiles.delete({ profileNames: [profileName] });
+      const wasRecorded = profileRegistry.remove(profileName);
+      return jsonResult({ profileName, deleted: true, wasRecorded });
+    },
+  );
+}
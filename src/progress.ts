@@ -0,0 +1,64 @@
+import { ToolExtra, ToolMiddleware } from "./tool-pipeline.js";
+
+// How often a running tool reports that it is still working
+export const DEFAULT_PROGRESS_INTERVAL_MS = 5000;
+
+interface ProgressDescription {
+  // Seconds the call is expected to take at most, e.g. a wait's timeout
+  totalSeconds?: number;
+  message?: string;
+}
+
+// Set by tools while they run, read by the progress middleware
+const descriptions = new WeakMap<ToolExtra, ProgressDescription>();
+
+/**
+ * Describe the progress of the current tool call, for clients that asked
+ * for progress notifications.
+ */
+export function describeProgress(
+  extra: ToolExtra,
+  description: ProgressDescription,
+) {
+  descriptions.set(extra, description);
+}
+
+/**
+ * While a tool call runs, send the client a progress notification every
+ * interval if it sent a progress token. Progress counts the seconds the
+ * call has been running, against the total the tool expects if it gave one.
+ */
+export function progressMiddleware(
+  intervalMs = DEFAULT_PROGRESS_INTERVAL_MS,
+): ToolMiddleware {
+  return async ({ name, extra }, next) => {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return next();
+    }
+    const started = Date.now();
+    const timer = setInterval(() => {
+      const { totalSeconds, message } = descriptions.get(extra) ?? {};
+      const elapsedSeconds = (Date.now() - started) / 1000;
+      extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: elapsedSeconds,
+            total: totalSeconds,
+            message: `${message ?? `Running ${name}`} (${Math.round(elapsedSeconds)}s)`,
+          },
+        })
+        .catch((error) => {
+          console.warn(`Failed to send ${name} progress: ${String(error)}`);
+        });
+    }, intervalMs);
+    try {
+      return await next();
+    } finally {
+      clearInterval(timer);
+      descriptions.delete(extra);
+    }
+  };
+}
@@ -0,0 +1,312 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodOptional, ZodString } from "zod";
+
+export class PromptTemplateError extends Error {}
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  // Tools the prompt tells the model to use; it is only offered when all
+  // of them are registered
+  tools: string[];
+  arguments: Record<string, ZodString | ZodOptional<ZodString>>;
+  messages(args: PromptArgs): PromptMessage[];
+}
+
+// A prompt loaded from a JSON file in the prompts directory
+const templateSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[a-z0-9][a-z0-9_-]*$/i, "use letters, digits, - and _"),
+    description: z.string().default(""),
+    tools: z.array(z.string()).default([]),
+    arguments: z
+      .array(
+        z
+          .object({
+            name: z.string().regex(/^\w+$/, "use letters, digits and _"),
+            description: z.string().optional(),
+            required: z.boolean().default(false),
+          })
+          .strict(),
+      )
+      .default([]),
+    messages: z
+      .array(
+        z
+          .object({
+            role: z.enum(["user", "assistant"]),
+            text: z.string(),
+          })
+          .strict(),
+      )
+      .min(1),
+  })
+  .strict();
+
+export type PromptTemplate = z.infer<typeof templateSchema>;
+
+function userMessage(lines: string[]): PromptMessage {
+  return {
+    role: "user",
+    content: { type: "text", text: lines.join("\n") },
+  };
+}
+
+// Arguments shared by prompts that work in a window
+const windowArguments = {
+  url: z.string().optional().describe("Page to open in a new session"),
+  sessionId: z
+    .string()
+    .optional()
+    .describe("Existing session to use instead of opening a new one"),
+  windowId: z.string().optional().describe("Existing window to use"),
+};
+
+// How to get hold of the window a prompt works in
+function windowStep({ url, sessionId, windowId }: PromptArgs) {
+  if (sessionId && windowId) {
+    return `Work in window ${windowId} of session ${sessionId}.`;
+  }
+  if (sessionId) {
+    return `Open ${url ?? "the page"} with "createWindow" in session ${sessionId}.`;
+  }
+  if (url) {
+    return `Create a session with "createSession", then open ${url} with "createWindow".`;
+  }
+  return `Use the window we are already working in. If there is none, ask me which page to open.`;
+}
+
+const BUILT_IN_PROMPTS: PromptDefinition[] = [
+  {
+    name: "login-with-handoff",
+    description:
+      "Open a site and hand the browser to the user to log in, then carry on once they have",
+    tools: [
+      "createSessionWithOptions",
+      "createWindow",
+      "getWindowInfo",
+      "requestHumanAction",
+      "pageQuery",
+    ],
+    arguments: {
+      url: z.string().describe("Login page of the site"),
+      profileName: z
+        .string()
+        .optional()
+        .describe("Profile to save the login in, so later sessions reuse it"),
+    },
+    messages: ({ url, profileName }) => [
+      userMessage([
+        `Log me in to ${url} in an Airtop browser. I will type my credentials myself; never ask me for them.`,
+        "",
+        profileName
+          ? `1. Call "createSessionWithOptions" with configuration.profileName "${profileName}", so the login is saved when the session ends.`
+          : `1. Call "createSessionWithOptions" to create a session. If I want to stay logged in next time, pass a configuration.profileName.`,
+        `2. Open ${url} with "createWindow".`,
+        `3. Call "getWindowInfo" and send me its liveViewUrl, so I can find the browser.`,
+        `4. Call "requestHumanAction" with instructions to log in, doneCondition "the user is logged in" and timeoutSeconds 300. If I need a 2FA code, add a field for it. If it times out or I cancel, ask me whether to try again.`,
+        `5. Once logged in, confirm it with "pageQuery", e.g. by asking which account is signed in, and tell me.`,
+      ]),
+    ],
+  },
+  {
+    name: "extract-table-to-json",
+    description:
+      "Extract a table or list spread over one or more pages as a JSON array",
+    tools: ["paginatedExtraction"],
+    arguments: {
+      ...windowArguments,
+      data: z
+        .string()
+        .describe("What to extract, e.g. 'the open invoices table'"),
+      fields: z
+        .string()
+        .optional()
+        .describe("Comma-separated fields each row should have"),
+    },
+    messages: ({ data, fields, ...window }) => {
+      const fieldNames = fields
+        ?.split(",")
+        .map((field) => field.trim())
+        .filter(Boolean);
+      return [
+        userMessage([
+          `Extract ${data} as a JSON array, with one object per row.`,
+          "",
+          `1. ${windowStep(window)}`,
+          `2. Call "paginatedExtraction" with a prompt asking for every row of ${data}. It follows pagination and "load more" buttons itself.`,
+          fieldNames?.length
+            ? `   Pass an outputSchema for an object with a "rows" array of objects with the properties ${fieldNames.map((field) => `"${field}"`).join(", ")}, so the result is validated.`
+            : `   Pass an outputSchema for an object with a "rows" array, choosing the row properties from the table's columns.`,
+          `3. Reply with the rows as a JSON array only. If some rows could not be read, say which after the JSON.`,
+        ]),
+      ];
+    },
+  },
+  {
+    name: "fill-form",
+    description:
+      "Fill in a form from the given values and optionally submit it",
+    tools: ["pageQuery", "runSteps", "selectOption", "getWindowInfo"],
+    arguments: {
+      ...windowArguments,
+      values: z
+        .string()
+        .describe(
+          "Values to enter, one 'field: value' per line. Use {{secret:NAME}} for passwords",
+        ),
+      submit: z
+        .string()
+        .optional()
+        .describe("'false' to leave the form unsubmitted (default: true)"),
+    },
+    messages: ({ values, submit, ...window }) => [
+      userMessage([
+        "Fill in the form on the page with these values:",
+        "",
+        values ?? "",
+        "",
+        `1. ${windowStep(window)}`,
+        `2. Use "pageQuery" to list the form's fields, and match each value to a field. Ask me about any required field I didn't give a value for.`,
+        `3. Call "runSteps" with a "type" step per text field, naming the field in elementDescription. Pass {{secret:NAME}} placeholders through unchanged; the server fills them in.`,
+        `4. Choose dropdown values with "selectOption" rather than clicking through them.`,
+        submit === "false"
+          ? `5. Don't submit the form. Call "getWindowInfo" and send me the liveViewUrl so I can check it.`
+          : `5. Submit the form with "runSteps": a "click" step on the submit button, then a "monitor" step for a confirmation or error message. Tell me which it was.`,
+      ]),
+    ],
+  },
+  {
+    name: "monitor-until",
+    description: "Watch a page until a condition holds, reloading it if needed",
+    tools: ["monitorForCondition", "reload", "pageQuery"],
+    arguments: {
+      ...windowArguments,
+      condition: z
+        .string()
+        .describe("What to wait for, e.g. 'the order status is Shipped'"),
+      timeoutMinutes: z
+        .string()
+        .optional()
+        .describe("How long to keep watching in total (default: 10)"),
+    },
+    messages: ({ condition, timeoutMinutes, ...window }) => [
+      userMessage([
+        `Tell me as soon as this is true: ${condition}.`,
+        "",
+        `1. ${windowStep(window)}`,
+        `2. Call "monitorForCondition" with that condition and timeoutSeconds 60.`,
+        `3. If it times out and the page doesn't update by itself, "reload" the window and monitor again.`,
+        `4. Keep going for up to ${timeoutMinutes ?? "10"} minutes in total, then stop and tell me what the page shows instead.`,
+        `5. When the condition holds, use "pageQuery" to describe what changed, and tell me.`,
+      ]),
+    ],
+  },
+];
+
+function fillPlaceholders(text: string, args: PromptArgs) {
+  return text.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+    name in args ? (args[name] ?? "") : placeholder,
+  );
+}
+
+function templatePrompt(template: PromptTemplate): PromptDefinition {
+  return {
+    name: template.name,
+    description: template.description,
+    tools: template.tools,
+    arguments: Object.fromEntries(
+      template.arguments.map(({ name, description, required }) => {
+        const schema = z.string().describe(description ?? name);
+        return [name, required ? schema : schema.optional()];
+      }),
+    ),
+    messages: (args) => {
+      const values: PromptArgs = Object.fromEntries(
+        template.arguments.map(({ name }) => [name, args[name]]),
+      );
+      return template.messages.map(({ role, text }) => ({
+        role,
+        content: { type: "text", text: fillPlaceholders(text, values) },
+      }));
+    },
+  };
+}
+
+/**
+ * Load prompt templates from the JSON files in a directory. Placeholders
+ * such as {{name}} in message text are replaced by the prompt's arguments.
+ */
+export async function loadPromptTemplates(dir: string) {
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((file) => file.endsWith(".json"));
+  } catch (error) {
+    throw new PromptTemplateError(
+      `Cannot read prompts directory ${dir}: ${String(error)}`,
+    );
+  }
+  const templates: PromptTemplate[] = [];
+  for (const file of files.sort()) {
+    const filePath = path.join(dir, file);
+    let data: unknown;
+    try {
+      data = JSON.parse(await readFile(filePath, "utf8"));
+    } catch (error) {
+      throw new PromptTemplateError(
+        `Cannot read prompt template ${filePath}: ${String(error)}`,
+      );
+    }
+    const parsed = templateSchema.safeParse(data);
+    if (!parsed.success) {
+      const problems = parsed.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+      );
+      throw new PromptTemplateError(
+        `Invalid prompt template ${filePath}: ${problems.join("; ")}`,
+      );
+    }
+    templates.push(parsed.data);
+  }
+  return templates;
+}
+
+/**
+ * Register the built-in workflow prompts and any loaded templates, which
+ * replace built-in prompts of the same name. Prompts that rely on tools
+ * the server doesn't register are left out.
+ */
+export function registerPrompts(
+  server: McpServer,
+  isToolEnabled: (name: string) => boolean,
+  templates: PromptTemplate[] = [],
+) {
+  const prompts = new Map(
+    BUILT_IN_PROMPTS.map((prompt) => [prompt.name, prompt]),
+  );
+  for (const template of templates) {
+    prompts.set(template.name, templatePrompt(template));
+  }
+  for (const prompt of prompts.values()) {
+    if (!prompt.tools.every(isToolEnabled)) {
+      continue;
+    }
+    const expand = (args: PromptArgs) => ({
+      description: prompt.description,
+      messages: prompt.messages(args),
+    });
+    // Prompts without arguments can be fetched without an arguments object
+    if (Object.keys(prompt.arguments).length === 0) {
+      server.prompt(prompt.name, prompt.description, () => expand({}));
+    } else {
+      server.prompt(prompt.name, prompt.description, prompt.arguments, expand);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  SessionRegistry,
+  serializeSession,
+  serializeWindow,
+} from "./session-registry.js";
+
+const SESSIONS_URI = "airtop://sessions";
+
+function sessionUri(sessionId: string) {
+  return `${SESSIONS_URI}/${encodeURIComponent(sessionId)}`;
+}
+
+function windowUri(sessionId: string, windowId: string) {
+  return `${sessionUri(sessionId)}/windows/${encodeURIComponent(windowId)}`;
+}
+
+function jsonContents(uri: URL, value: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(value),
+      },
+    ],
+  };
+}
+
+/**
+ * Publish the sessions and windows tracked in the registry as MCP resources,
+ * so an agent that lost its context can rediscover its open browsers.
+ */
+export function registerSessionResources(
+  server: McpServer,
+  sessionRegistry: SessionRegistry,
+) {
+  server.resource(
+    "sessions",
+    SESSIONS_URI,
+    {
+      description: "All browser sessions opened through this server",
+      mimeType: "application/json",
+    },
+    (uri) =>
+      jsonContents(uri, sessionRegistry.listSessions().map(serializeSession)),
+  );
+
+  server.resource(
+    "session",
+    new ResourceTemplate(`${SESSIONS_URI}/{sessionId}`, {
+      list: () => ({
+        resources: sessionRegistry.listSessions().map((session) => ({
+          uri: sessionUri(session.sessionId),
+          name: `Session ${session.sessionId}`,
+          description: session.profileName
+            ? `Browser session using profile ${session.profileName}`
+            : "Browser session",
+          mimeType: "application/json",
+        })),
+      }),
+    }),
+    {
+      description: "A browser session and its open windows",
+      mimeType: "application/json",
+    },
+    (uri, { sessionId }) => {
+      const session = sessionRegistry.getSession(String(sessionId));
+      if (!session) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown session: ${String(sessionId)}`,
+        );
+      }
+      return jsonContents(uri, serializeSession(session));
+    },
+  );
+
+  server.resource(
+    "window",
+    new ResourceTemplate(`${SESSIONS_URI}/{sessionId}/windows/{windowId}`, {
+      list: () => ({
+        resources: sessionRegistry.listWindows().map((window) => ({
+          uri: windowUri(window.sessionId, window.windowId),
+          name: `Window ${window.windowId}`,
+          description: window.url
+            ? `Browser window at ${window.url}`
+            : "Browser window",
+          mimeType: "application/json",
+        })),
+      }),
+    }),
+    {
+      description: "A browser window within a session",
+      mimeType: "application/json",
+    },
+    (uri, { sessionId, windowId }) => {
+      const window = sessionRegistry.getWindow(
+        String(sessionId),
+        String(windowId),
+      );
+      if (!window) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown window: ${String(windowId)} in session ${String(sessionId)}`,
+        );
+      }
+      return jsonContents(uri, serializeWindow(window));
+    },
+  );
+
+  sessionRegistry.onChange(() => server.sendResourceListChanged());
+}
@@ -0,0 +1,365 @@
+import { AiPromptResponse, Issue } from "@airtop/sdk/api/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { BrowserBackend } from "./backend.js";
+import { currentWindowUrl } from "./navigation.js";
+import { SecretStore, unknownSecretsMessage } from "./secrets.js";
+import { SessionLifecycleManager } from "./session-lifecycle.js";
+import { SessionRegistry } from "./session-registry.js";
+import { classifyError, classifyIssues, ErrorCategory } from "./tool-errors.js";
+import { ToolExtra } from "./tool-pipeline.js";
+
+// Used when a step doesn't set its own timeout
+const DEFAULT_STEP_TIMEOUT_SECONDS = 60;
+const MAX_STEPS = 50;
+
+const stepOptions = {
+  timeoutSeconds: z
+    .number()
+    .positive()
+    .optional()
+    .describe(
+      `Abort this step after this many seconds (default: ${DEFAULT_STEP_TIMEOUT_SECONDS})`,
+    ),
+  captureAs: z
+    .string()
+    .regex(/^\w+$/)
+    .optional()
+    .describe(
+      "Store this step's output under a variable name. Later steps can use {{name}}, or {{name.field}} for JSON output.",
+    ),
+};
+
+const stepSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("click"),
+    elementDescription: z
+      .string()
+      .describe("Natural language description of the element to click"),
+    ...stepOptions,
+  }),
+  z.object({
+    action: z.literal("type"),
+    text: z
+      .string()
+      .describe(
+        "Text to type. Credentials can be written as {{secret:NAME}} placeholders.",
+      ),
+    elementDescription: z
+      .string()
+      .optional()
+      .describe("Natural language description of the element to type into"),
+    ...stepOptions,
+  }),
+  z.object({
+    action: z.literal("scroll"),
+    elementDescription: z
+      .string()
+      .optional()
+      .describe("Element to scroll to (natural language description)"),
+    ...stepOptions,
+  }),
+  z.object({
+    action: z.literal("monitor"),
+    condition: z
+      .string()
+      .describe("Natural language description of the condition to wait for"),
+    ...stepOptions,
+  }),
+  z.object({
+    action: z.literal("pageQuery"),
+    prompt: z.string().describe("The AI prompt to use"),
+    ...stepOptions,
+  }),
+  z.object({
+    action: z.literal("navigate"),
+    url: z.string().describe("URL to load in the window"),
+    ...stepOptions,
+  }),
+]);
+
+export type Step = z.infer<typeof stepSchema>;
+
+export interface StepResult {
+  index: number;
+  action: Step["action"];
+  status: "ok" | "error" | "timeout" | "skipped";
+  output?: string;
+  error?: string;
+  errorCategory?: ErrorCategory;
+  durationMs?: number;
+}
+
+class StepError extends Error {
+  constructor(
+    message: string,
+    readonly category: ErrorCategory = "validation",
+  ) {
+    super(message);
+  }
+}
+
+// Replace {{name}} and {{name.path}} with captured step output
+function interpolate(text: string, variables: Map<string, string>) {
+  return text.replace(
+    /\{\{(\w+)((?:\.\w+)*)\}\}/g,
+    (match, name: string, path: string) => {
+      const value = variables.get(name);
+      if (value === undefined) {
+        throw new StepError(`Unknown variable {{${name}}}`);
+      }
+      if (!path) {
+        return value;
+      }
+      let current: unknown;
+      try {
+        current = JSON.parse(value);
+      } catch {
+        throw new StepError(
+          `Variable ${name} is not JSON, can't read ${match}`,
+        );
+      }
+      for (const key of path.slice(1).split(".")) {
+        current =
+          current && typeof current === "object"
+            ? (current as Record<string, unknown>)[key]
+            : undefined;
+      }
+      if (current === undefined) {
+        throw new StepError(`${match} is not set`);
+      }
+      return typeof current === "string" ? current : JSON.stringify(current);
+    },
+  );
+}
+
+// Fill in captured variables, then {{secret:NAME}} placeholders
+function interpolateStep(
+  step: Step,
+  variables: Map<string, string>,
+  secrets: SecretStore,
+): Step {
+  return Object.fromEntries(
+    Object.entries(step).map(([key, value]) => {
+      if (
+        typeof value !== "string" ||
+        key === "action" ||
+        key === "captureAs"
+      ) {
+        return [key, value];
+      }
+      const text = interpolate(value, variables);
+      const unknownSecrets = secrets.unknownNames(text);
+      if (unknownSecrets.length) {
+        throw new StepError(unknownSecretsMessage(unknownSecrets));
+      }
+      return [key, secrets.resolve(text)];
+    }),
+  ) as Step;
+}
+
+function issuesError(errors: Issue[]) {
+  return new StepError(
+    errors.map((error) => error.message).join("\n"),
+    classifyIssues(errors),
+  );
+}
+
+/**
+ * Register the runSteps tool, which executes a sequence of browser actions
+ * server-side in one round trip.
+ */
+export function registerRunStepsTool(
+  server: McpServer,
+  airtopClient: BrowserBackend,
+  sessionRegistry: SessionRegistry,
+  sessionLifecycle: SessionLifecycleManager,
+  secrets = new SecretStore(),
+) {
+  async function runStep(
+    sessionId: string,
+    windowId: string,
+    step: Step,
+    abortSignal: AbortSignal,
+  ): Promise<string> {
+    const timeoutInSeconds =
+      step.timeoutSeconds ?? DEFAULT_STEP_TIMEOUT_SECONDS;
+    const requestOptions = { abortSignal, timeoutInSeconds };
+    let response: AiPromptResponse;
+    switch (step.action) {
+      case "click":
+        response = await airtopClient.windows.click(
+          sessionId,
+          windowId,
+          { elementDescription: step.elementDescription },
+          requestOptions,
+        );
+        break;
+      case "type":
+        response = await airtopClient.windows.type(
+          sessionId,
+          windowId,
+          {
+            text: step.text,
+            ...(step.elementDescription && {
+              elementDescription: step.elementDescription,
+            }),
+          },
+          requestOptions,
+        );
+        break;
+      case "scroll":
+        response = await airtopClient.windows.scroll(
+          sessionId,
+          windowId,
+          step.elementDescription
+            ? { scrollToElement: step.elementDescription }
+            : {},
+          requestOptions,
+        );
+        break;
+      case "monitor":
+        response = await airtopClient.windows.monitor(
+          sessionId,
+          windowId,
+          { condition: step.condition, timeThresholdSeconds: timeoutInSeconds },
+          requestOptions,
+        );
+        break;
+      case "pageQuery":
+        response = await airtopClient.windows.pageQuery(
+          sessionId,
+          windowId,
+          { prompt: step.prompt },
+          requestOptions,
+        );
+        break;
+      case "navigate": {
+        const loaded = await airtopClient.windows.loadUrl(
+          sessionId,
+          windowId,
+          { url: step.url, waitUntil: "load" },
+          requestOptions,
+        );
+        if (loaded.errors?.length) {
+          throw issuesError(loaded.errors);
+        }
+        // Kept in history like the navigate tool, so goBack works after
+        sessionRegistry.recordNavigation(
+          sessionId,
+          windowId,
+          (await currentWindowUrl(airtopClient, sessionId, windowId)) ??
+            step.url,
+        );
+        return step.url;
+      }
+    }
+    if (response.errors?.length) {
+      throw issuesError(response.errors);
+    }
+    return response.data.modelResponse;
+  }
+
+  server.tool(
+    "runSteps",
+    `Run a sequence of browser actions (click, type, scroll, monitor, pageQuery, navigate) in one window,
+     server-side, and return per-step results. Use this for predictable flows like filling in a login form.`,
+    {
+      sessionId: z.string().describe("The session ID"),
+      windowId: z.string().describe("The window ID"),
+      steps: z
+        .array(stepSchema)
+        .min(1)
+        .max(MAX_STEPS)
+        .describe("Steps to run, in order"),
+      stopOnError: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe(
+          "Stop at the first failing step (default: true). When false, later steps still run.",
+        ),
+    },
+    async (
+      {
+        sessionId,
+        windowId,
+        steps,
+        stopOnError = true,
+      }: {
+        sessionId: string;
+        windowId: string;
+        steps: Step[];
+        stopOnError?: boolean;
+      },
+      extra: ToolExtra,
+    ) => {
+      console.warn(
+        "runSteps request",
+        steps.map((step) => step.action),
+      );
+      const variables = new Map<string, string>();
+      const results: StepResult[] = [];
+      let failed = false;
+
+      for (const [index, rawStep] of steps.entries()) {
+        // Nothing runs once the client has cancelled the call
+        if (extra.signal.aborted || (failed && stopOnError)) {
+          results.push({ index, action: rawStep.action, status: "skipped" });
+          continue;
+        }
+        sessionLifecycle.touch(sessionId);
+        const startedAt = Date.now();
+        const timeoutMs =
+          (rawStep.timeoutSeconds ?? DEFAULT_STEP_TIMEOUT_SECONDS) * 1000;
+        const timeout = AbortSignal.timeout(timeoutMs);
+        const abortSignal = AbortSignal.any([extra.signal, timeout]);
+        try {
+          const step = interpolateStep(rawStep, variables, secrets);
+          const output = await runStep(sessionId, windowId, step, abortSignal);
+          if (step.captureAs) {
+            variables.set(step.captureAs, output);
+          }
+          results.push({
+            index,
+            action: step.action,
+            status: "ok",
+            output,
+            durationMs: Date.now() - startedAt,
+          });
+        } catch (err) {
+          failed = true;
+          results.push({
+            index,
+            action: rawStep.action,
+            status: timeout.aborted ? "timeout" : "error",
+            error: timeout.aborted
+              ? `Step timed out after ${timeoutMs / 1000} seconds`
+              : err instanceof StepError
+                ? err.message
+                : `Internal error: ${String(err)}`,
+            ...(!timeout.aborted && {
+              errorCategory:
+                err instanceof StepError ? err.category : classifyError(err),
+            }),
+            durationMs: Date.now() - startedAt,
+          });
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              completed: !failed,
+              steps: results,
+              variables: Object.fromEntries(variables),
+            }),
+          },
+        ],
+        isError: failed,
+      };
+    },
+  );
+}
@@ -0,0 +1,221 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { BrowserBackend } from "./backend.js";
+import {
+  contentPageUri,
+  ContentStore,
+  StoredContent,
+} from "./content-store.js";
+import { SessionLifecycleManager } from "./session-lifecycle.js";
+import { errorResult, jsonResult, reportAirtopErrors } from "./tool-errors.js";
+
+// Characters of content returned per call unless the caller asks otherwise,
+// to stay well within model context limits
+const DEFAULT_MAX_LENGTH = 20_000;
+const MIN_MAX_LENGTH = 1_000;
+
+const SCRAPE_FORMATS = ["text", "markdown", "links"] as const;
+type ScrapeFormat = (typeof SCRAPE_FORMATS)[number];
+
+// Content read from the page, before it is split into pages
+type ScrapedContent = Omit<StoredContent, "id" | "pageStarts">;
+
+// Cursors name the stored content and the page to continue from
+function encodeCursor(contentId: string, index: number) {
+  return `${contentId}:${index}`;
+}
+
+function decodeCursor(cursor: string) {
+  const [contentId, index] = cursor.split(":");
+  return { contentId, index: Number(index) };
+}
+
+function pageResult(
+  contentStore: ContentStore,
+  entry: StoredContent,
+  index: number,
+) {
+  const pages = entry.pageStarts.length;
+  return jsonResult({
+    title: entry.title,
+    url: entry.url,
+    format: entry.format,
+    contentType: entry.mimeType,
+    content: contentStore.page(entry, index),
+    page: index + 1,
+    pages,
+    totalLength: entry.text.length,
+    nextCursor:
+      index + 1 < pages ? encodeCursor(entry.id, index + 1) : undefined,
+  });
+}
+
+/**
+ * Register the scrape tool, which reads a window's content as plain text,
+ * markdown or a list of links. Content longer than maxLength is returned a
+ * page at a time with a cursor, or stored and returned as resource links.
+ */
+export function registerScrapeTool(
+  server: McpServer,
+  airtopClient: BrowserBackend,
+  sessionLifecycle: SessionLifecycleManager,
+  contentStore: ContentStore,
+) {
+  async function read(
+    sessionId: string,
+    windowId: string,
+    format: ScrapeFormat,
+    signal: AbortSignal,
+  ) {
+    if (format === "text") {
+      const result = await airtopClient.windows.scrapeContent(
+        sessionId,
+        windowId,
+        undefined,
+        { abortSignal: signal },
+      );
+      if (result.errors?.length) {
+        return { failure: reportAirtopErrors(result.errors) };
+      }
+      const { title, scrapedContent } = result.data.modelResponse;
+      const content: ScrapedContent = {
+        title,
+        format,
+        mimeType: scrapedContent.contentType,
+        text: scrapedContent.text,
+      };
+      return { content };
+    }
+    const page = await airtopClient.input.readPage(
+      sessionId,
+      windowId,
+      format,
+      signal,
+    );
+    const content: ScrapedContent = {
+      title: page.title,
+      url: page.url,
+      format,
+      mimeType: "text/markdown",
+      text: page.text,
+    };
+    return { content };
+  }
+
+  server.tool(
+    "scrape",
+    "Scrape/extract content from the browser window as plain text, markdown or a list of links. Long content comes back a page at a time: pass nextCursor back to get the next page.",
+    {
+      sessionId: z.string().describe("The session ID"),
+      windowId: z.string().describe("The window ID"),
+      format: z
+        .enum(SCRAPE_FORMATS)
+        .optional()
+        .describe(
+          "text (default) extracts the page text, markdown keeps headings, lists, tables and links, and links lists only the links",
+        ),
+      maxLength: z
+        .number()
+        .int()
+        .min(MIN_MAX_LENGTH)
+        .optional()
+        .describe(
+          `Most characters of content to return at once (default: ${DEFAULT_MAX_LENGTH})`,
+        ),
+      cursor: z
+        .string()
+        .optional()
+        .describe(
+          "nextCursor from an earlier scrape, to get the next page of that content instead of scraping again",
+        ),
+      asResource: z
+        .boolean()
+        .optional()
+        .describe(
+          "Keep the full content on the server and return a resource link for each page, to read as needed",
+        ),
+    },
+    async (
+      {
+        sessionId,
+        windowId,
+        format = "text",
+        maxLength = DEFAULT_MAX_LENGTH,
+        cursor,
+        asResource = false,
+      }: {
+        sessionId: string;
+        windowId: string;
+        format?: ScrapeFormat;
+        maxLength?: number;
+        cursor?: string;
+        asResource?: boolean;
+      },
+      extra,
+    ) => {
+      console.warn("scrape request", format, cursor);
+      sessionLifecycle.touch(sessionId);
+
+      if (cursor) {
+        const { contentId, index } = decodeCursor(cursor);
+        const entry = contentStore.get(contentId);
+        if (
+          !entry ||
+          !Number.isInteger(index) ||
+          index < 0 ||
+          index >= entry.pageStarts.length
+        ) {
+          return errorResult(
+            "Unknown or expired cursor. Scrape the window again to start over.",
+            "validation",
+          );
+        }
+        return pageResult(contentStore, entry, index);
+      }
+
+      const scraped = await read(sessionId, windowId, format, extra.signal);
+      if (scraped.failure) {
+        return scraped.failure;
+      }
+      const { content } = scraped;
+
+      if (asResource) {
+        const entry = contentStore.save(content, maxLength);
+        const pages = entry.pageStarts.length;
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                title: entry.title,
+                url: entry.url,
+                format,
+                contentType: entry.mimeType,
+                contentId: entry.id,
+                pages,
+                totalLength: entry.text.length,
+              }),
+            },
+            ...entry.pageStarts.map((_start, index) => ({
+              type: "resource_link" as const,
+              uri: contentPageUri(entry.id, index + 1),
+              name: `${entry.title || "Page content"} (${index + 1} of ${pages})`,
+              mimeType: entry.mimeType,
+            })),
+          ],
+        };
+      }
+
+      if (content.text.length <= maxLength) {
+        return jsonResult({
+          title: content.title,
+          url: content.url,
+          format,
+          contentType: content.mimeType,
+          content: content.text,
+        });
+      }
+      return pageResult(contentStore, contentStore.save(content, maxLength), 0);
+    },
+  );
+}
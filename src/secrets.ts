@@ -0,0 +1,228 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { ToolMiddleware } from "./tool-pipeline.js";
+
+// Environment variables holding secrets: AIRTOP_SECRET_GITHUB_PASSWORD
+// provides {{secret:GITHUB_PASSWORD}}
+export const SECRET_ENV_PREFIX = "AIRTOP_SECRET_";
+// Passphrase for the encrypted secrets file
+export const SECRETS_KEY_ENV = "AIRTOP_SECRETS_KEY";
+
+const PLACEHOLDER = /\{\{secret:(\w+)\}\}/g;
+// Shorter values would redact ordinary text all over logs and results
+const MIN_REDACTED_LENGTH = 4;
+const FILE_VERSION = 1;
+
+export class SecretError extends Error {}
+
+// On-disk format of the secrets file: AES-256-GCM with a scrypt-derived key
+interface EncryptedSecrets {
+  version: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer) {
+  return scryptSync(passphrase, salt, 32);
+}
+
+/**
+ * Encrypt secrets into the secrets file format.
+ */
+export function encryptSecrets(
+  secrets: Record<string, string>,
+  passphrase: string,
+): EncryptedSecrets {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(secrets), "utf8"),
+    cipher.final(),
+  ]);
+  return {
+    version: FILE_VERSION,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+export function decryptSecrets(
+  file: EncryptedSecrets,
+  passphrase: string,
+): Record<string, string> {
+  if (file.version !== FILE_VERSION) {
+    throw new SecretError(`Unsupported secrets file version ${file.version}`);
+  }
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, Buffer.from(file.salt, "base64")),
+    Buffer.from(file.iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+  let text: string;
+  try {
+    text = Buffer.concat([
+      decipher.update(Buffer.from(file.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new SecretError(
+      `Cannot decrypt the secrets file, check ${SECRETS_KEY_ENV}`,
+    );
+  }
+  return JSON.parse(text) as Record<string, string>;
+}
+
+/**
+ * Credentials the model refers to by name, as {{secret:NAME}}. Values are
+ * substituted just before calling Airtop and redacted back to placeholders
+ * wherever they could reach the model, logs or traces.
+ */
+export class SecretStore {
+  private secrets: Map<string, string>;
+
+  constructor(secrets: Record<string, string> = {}) {
+    this.secrets = new Map(
+      Object.entries(secrets).filter(([, value]) => value !== ""),
+    );
+  }
+
+  /**
+   * Load secrets from AIRTOP_SECRET_* environment variables and, when
+   * given, the encrypted secrets file. The environment wins on conflicts.
+   */
+  static async load(env = process.env, file?: string) {
+    const secrets: Record<string, string> = {};
+    if (file) {
+      const passphrase = env[SECRETS_KEY_ENV];
+      if (!passphrase) {
+        throw new SecretError(
+          `${SECRETS_KEY_ENV} is required to read the secrets file ${file}`,
+        );
+      }
+      let encrypted: EncryptedSecrets;
+      try {
+        encrypted = JSON.parse(
+          await readFile(file, "utf8"),
+        ) as EncryptedSecrets;
+      } catch (error) {
+        throw new SecretError(
+          `Cannot read secrets file ${file}: ${String(error)}`,
+        );
+      }
+      Object.assign(secrets, decryptSecrets(encrypted, passphrase));
+    }
+    for (const [name, value] of Object.entries(env)) {
+      if (name.startsWith(SECRET_ENV_PREFIX) && value !== undefined) {
+        secrets[name.slice(SECRET_ENV_PREFIX.length)] = value;
+      }
+    }
+    const store = new SecretStore(secrets);
+    const short = store.names.filter(
+      (name) => store.secrets.get(name)!.length < MIN_REDACTED_LENGTH,
+    );
+    if (short.length) {
+      console.warn(
+        `Secrets shorter than ${MIN_REDACTED_LENGTH} characters are not redacted: ${short.join(", ")}`,
+      );
+    }
+    return store;
+  }
+
+  get names() {
+    return [...this.secrets.keys()];
+  }
+
+  // Placeholder names in text that no secret provides
+  unknownNames(text: string) {
+    return [...text.matchAll(PLACEHOLDER)]
+      .map(([, name]) => name)
+      .filter((name) => !this.secrets.has(name));
+  }
+
+  // Substitute secret values for placeholders
+  resolve(text: string) {
+    return text.replace(PLACEHOLDER, (_placeholder, name: string) => {
+      const value = this.secrets.get(name);
+      if (value === undefined) {
+        throw new SecretError(`Unknown secret {{secret:${name}}}`);
+      }
+      return value;
+    });
+  }
+
+  // Replace secret values in every string inside value with placeholders
+  redact<T>(value: T): T {
+    // Longest first, in case one secret contains another
+    const secrets = [...this.secrets]
+      .filter(([, secret]) => secret.length >= MIN_REDACTED_LENGTH)
+      .sort(([, a], [, b]) => b.length - a.length);
+    if (!secrets.length) {
+      return value;
+    }
+    return redactStrings(value, (text) => {
+      let result = text;
+      for (const [name, secret] of secrets) {
+        result = result.split(secret).join(`{{secret:${name}}}`);
+      }
+      return result;
+    });
+  }
+}
+
+export function unknownSecretsMessage(names: string[]) {
+  return `Unknown secrets: ${names.join(", ")}. Set them as ${SECRET_ENV_PREFIX}<NAME> environment variables or in the secrets file.`;
+}
+
+function redactStrings<T>(value: T, redact: (text: string) => string): T {
+  if (typeof value === "string") {
+    return redact(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item: unknown) => redactStrings(item, redact)) as T;
+  }
+  if (value instanceof Error) {
+    return Object.assign(new Error(redact(value.message)), {
+      stack: value.stack && redact(value.stack),
+    }) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactStrings(item, redact),
+      ]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Redact secrets from everything written through console methods.
+ */
+export function redactConsole(secrets: SecretStore) {
+  const methods = ["debug", "info", "log", "warn", "error", "trace"] as const;
+  for (const method of methods) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) =>
+      original(...args.map((arg) => secrets.redact(arg)));
+  }
+}
+
+/**
+ * Redact secrets from tool results before they reach the client or the
+ * trace recorder.
+ */
+export function redactionMiddleware(secrets: SecretStore): ToolMiddleware {
+  return async (_call, next) => secrets.redact(await next());
+}
@@ -1,17 +1,48 @@
 import dotenvx from "@dotenvx/dotenvx";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import express, { Request, Response } from "express";
-import { createMcpServer } from "./mcp-server.js";
-export const PORT = 3456; // Unique port number
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { AIRTOP_API_KEY_HEADER } from "./auth.js";
+import {
+  CONFIG_FILE_NAME,
+  ConfigError,
+  DEFAULT_PROFILES_FILE,
+  loadConfig,
+  parseCli,
+  ServerConfig,
+} from "./config.js";
+import { createAirtopBackend } from "./backend.js";
+import { createHttpApp } from "./http-server.js";
+import { applyLogFormat, applyLogLevel } from "./logging.js";
+import { createMcpServer, McpServerOptions } from "./mcp-server.js";
+import { ServerMetrics } from "./metrics.js";
+import { ProfileRegistry } from "./profile-registry.js";
+import { loadPromptTemplates, PromptTemplateError } from "./prompts.js";
+import {
+  encryptSecrets,
+  redactConsole,
+  SECRET_ENV_PREFIX,
+  SecretError,
+  SECRETS_KEY_ENV,
+  SecretStore,
+} from "./secrets.js";
+import { terminateAllSessions } from "./session-lifecycle.js";
+import { SessionPool } from "./session-pool.js";
+import { DEFAULT_TRACE_DIR } from "./trace.js";
+import { meterBackend, UsageTrackers } from "./usage.js";
 const FALLBACK_VERSION = "1.0.3";
+// Replays can run many browser steps, well past the default request timeout
+const REPLAY_TIMEOUT_MS = 60 * 60 * 1000;
 
 dotenvx.config({ quiet: true });
 
-// TODO: add a tool to terminate a session
 export async function main() {
+  const cli = parseCli();
+
   // Handle help and version arguments
-  if (process.argv.includes("--help") || process.argv.includes("-h")) {
+  if (cli.help) {
     console.log(`
 Airtop MCP Server v${process.env.npm_package_version || FALLBACK_VERSION}
 
@@ -23,69 +54,325 @@ Usage:
 Options:
   --help, -h     Show this help message
   --version, -v  Show version information
-  --listen       Start as HTTP server (default: stdio mode)
+  --config <file>
+                 Config file (default: ./${CONFIG_FILE_NAME} if present)
+  --transport <stdio|http>
+                 http serves Streamable HTTP on /mcp and legacy SSE on
+                 /sse + /messages, with /healthz, /readyz and Prometheus
+                 /metrics (default: stdio)
+  --listen       Same as --transport http
+  --host <host>  Interface to listen on in http mode (default: 127.0.0.1)
+  --port <port>  Port to listen on in http mode (default: 3456)
+  --log-level <debug|info|warn|error|silent>
+                 Minimum level to log (default: info)
+  --log-format <text|json>
+                 Write logs as JSON lines with request IDs (default: json
+                 in http mode, text in stdio mode)
+  --monitor-timeout <seconds>
+                 Default monitorForCondition timeout (default: 30)
+  --session-timeout <minutes>
+                 Default timeout for new browser sessions
+  --proxy        Use Airtop's proxy for new sessions by default
+  --solve-captcha
+                 Solve captchas in new sessions by default
+  --extension-ids <id,id>
+                 Extensions to load in new sessions by default
+  --read-only    Only register tools that observe pages (same as
+                 --tool-preset read-only)
+  --tool-preset <all|read-only>
+                 Set of tools to register (default: all)
+  --allow-tools <name,name>
+                 Only register these tools, within the preset
+  --deny-tools <name,name>
+                 Never register these tools
+  --profiles-file <file>
+                 Where profiles used through the server are recorded
+                 (default: ${DEFAULT_PROFILES_FILE})
+  --upload-dirs <dir,dir>
+                 Directories fileInput may upload files from by path
+  --max-upload-bytes <bytes>
+                 Largest file fileInput uploads (default: 25 MB)
+  --download-dir <dir>
+                 Save files downloadFile fetches here instead of returning
+                 them inline
+  --max-inline-download-bytes <bytes>
+                 Largest download returned inline (default: 10 MB)
+  --budget-credits <n>, --budget-ai-calls <n>, --budget-session-minutes <n>
+                 Refuse new sessions and AI calls once the server has used
+                 this much since it started
+  --budget-session-credits <n>, --budget-session-ai-calls <n>
+                 Refuse AI calls in a session once it has used this much
+  --pool-size <n>
+                 Keep this many sessions running per configuration for
+                 acquireSession to hand out (default: 0, no pool)
+  --pool-max-age-minutes <n>
+                 Retire pooled sessions this old (default: 30)
+  --max-sessions <n>
+                 Maximum concurrent browser sessions
+  --session-idle-minutes <n>
+                 Terminate sessions idle for this many minutes
+  --auth-tokens <token,token>
+                 Bearer tokens accepted in http mode
+  --auth-jwt-secret <secret>
+                 Secret for HS256-signed bearer JWTs in http mode
+  --client-api-keys
+                 Let HTTP clients send their own Airtop key in the
+                 ${AIRTOP_API_KEY_HEADER} header
+  --record-traces
+                 Record tool calls to JSONL traces
+  --trace-dir <dir>
+                 Directory for trace files (default: ./traces)
+  --secrets-file <file>
+                 Encrypted secrets for {{secret:NAME}} placeholders,
+                 decrypted with ${SECRETS_KEY_ENV}
+  --encrypt-secrets <secrets.json>
+                 Print a JSON object of plaintext secrets in the
+                 --secrets-file format, encrypted with ${SECRETS_KEY_ENV}
+  --prompts-dir <dir>
+                 JSON prompt templates to offer alongside the built-in
+                 workflow prompts
+  --replay <trace.jsonl>
+                 Replay a recorded trace and report the first diverging step
+  --session <id> With --replay, run against an existing session
+
+Settings resolve in this order, later ones winning: defaults, config file,
+environment variables, command line flags.
 
 Environment Variables:
-  AIRTOP_API_KEY  Required API key for Airtop service
+  AIRTOP_API_KEY          API key for Airtop service (required unless
+                          per-client keys are enabled in --listen mode)
+  AIRTOP_MCP_CONFIG       Config file, like --config
+  ${SECRET_ENV_PREFIX}<NAME>    Secret provided as {{secret:NAME}}
+  ${SECRETS_KEY_ENV}      Passphrase for the secrets file
+  AIRTOP_MCP_TRANSPORT, AIRTOP_MCP_HOST, AIRTOP_MCP_PORT (or PORT),
+  AIRTOP_LOG_LEVEL, AIRTOP_LOG_FORMAT, AIRTOP_MONITOR_TIMEOUT_SECONDS,
+  AIRTOP_SESSION_TIMEOUT_MINUTES, AIRTOP_SESSION_PROXY,
+  AIRTOP_SESSION_SOLVE_CAPTCHA, AIRTOP_SESSION_EXTENSION_IDS,
+  AIRTOP_TOOL_PRESET, AIRTOP_ALLOW_TOOLS, AIRTOP_DENY_TOOLS,
+  AIRTOP_PROFILES_FILE, AIRTOP_SECRETS_FILE, AIRTOP_PROMPTS_DIR,
+  AIRTOP_BUDGET_CREDITS, AIRTOP_BUDGET_AI_CALLS,
+  AIRTOP_BUDGET_SESSION_MINUTES, AIRTOP_BUDGET_SESSION_CREDITS,
+  AIRTOP_BUDGET_SESSION_AI_CALLS, AIRTOP_POOL_SIZE,
+  AIRTOP_POOL_MAX_AGE_MINUTES, AIRTOP_MAX_SESSIONS,
+  AIRTOP_SESSION_IDLE_MINUTES, MCP_AUTH_TOKENS, MCP_AUTH_JWT_SECRET,
+  AIRTOP_CLIENT_API_KEYS, AIRTOP_RECORD_TRACES, AIRTOP_TRACE_DIR
+                          Same as the matching flags
 
 For more information, visit: https://github.com/your-org/airtop-mcp
 `);
     process.exit(0);
   }
 
-  if (process.argv.includes("--version") || process.argv.includes("-v")) {
+  if (cli.version) {
     console.log(process.env.npm_package_version || FALLBACK_VERSION);
     process.exit(0);
   }
 
+  if (cli.encryptSecrets) {
+    await encryptSecretsFromCli(cli.encryptSecrets);
+    return null;
+  }
+
+  const config = await loadConfig(cli);
+  const listen = config.transport === "http";
+  applyLogFormat(config.logFormat ?? (listen ? "json" : "text"));
+  applyLogLevel(config.logLevel);
+  const secrets = await SecretStore.load(
+    process.env,
+    config.secretsFile && path.resolve(config.secretsFile),
+  );
+  redactConsole(secrets);
+
   const apiKey = process.env.AIRTOP_API_KEY;
-  if (!apiKey) {
+  const allowClientApiKeys = listen && !!config.auth.clientApiKeys;
+  if (!apiKey && !allowClientApiKeys) {
     throw new Error("AIRTOP_API_KEY environment variable is required");
   }
 
-  const server = createMcpServer(apiKey, PORT);
-  const listen = process.argv.includes("--listen");
+  // Budgets apply to each Airtop API key, so clients sending their own
+  // don't use up the server's
+  const usage = new UsageTrackers(config.budgets);
+  // Pooled sessions are started with the server's own key, so clients
+  // bringing their own can't be handed them
+  let pool: SessionPool | undefined;
+  if (config.pool.size && allowClientApiKeys) {
+    console.warn("Session pool disabled, clients send their own Airtop keys");
+  } else if (config.pool.size) {
+    pool = new SessionPool(
+      meterBackend(createAirtopBackend(apiKey!), usage.forKey(apiKey!)),
+      { size: config.pool.size, maxAgeMinutes: config.pool.maxAgeMinutes },
+      config.sessionDefaults,
+    );
+  }
 
-  if (listen) {
-    const app = express();
-    const transports: { [sessionId: string]: SSEServerTransport } = {};
-
-    app.get("/sse", async (_: Request, res: Response) => {
-      console.warn("sse request");
-      const transport = new SSEServerTransport("/messages", res);
-      transports[transport.sessionId] = transport;
-      res.on("close", () => {
-        delete transports[transport.sessionId];
-      });
-      await server.connect(transport);
-    });
+  const serverOptions: McpServerOptions = {
+    sessionLimits: config.sessionLimits,
+    traces: {
+      dir: config.traces.dir ?? DEFAULT_TRACE_DIR,
+      record: !!config.traces.record,
+    },
+    sessionDefaults: config.sessionDefaults,
+    monitorTimeoutSeconds: config.monitorTimeoutSeconds,
+    tools: config.tools,
+    secrets,
+    profiles: await ProfileRegistry.load(path.resolve(config.profilesFile)),
+    files: {
+      ...config.files,
+      uploadDirs: config.files.uploadDirs?.map((dir) => path.resolve(dir)),
+      downloadDir:
+        config.files.downloadDir && path.resolve(config.files.downloadDir),
+    },
+    metrics: listen ? new ServerMetrics() : undefined,
+    usage,
+    pool,
+    prompts: config.promptsDir
+      ? await loadPromptTemplates(path.resolve(config.promptsDir))
+      : undefined,
+  };
 
-    app.post("/messages", async (req: Request, res: Response) => {
-      const sessionId = req.query.sessionId as string;
-      const transport = transports[sessionId];
-      console.warn("post message request", sessionId, !!transport);
-      if (transport) {
-        await transport.handlePostMessage(req, res);
-      } else {
-        res.status(400).send("No transport found for sessionId");
-      }
-    });
+  if (cli.replay) {
+    await replayFromCli(
+      apiKey!,
+      cli.replay,
+      config,
+      serverOptions,
+      cli.session,
+    );
+    return null;
+  }
 
-    console.log(`MCP about to start on port ${PORT}`);
-    const appServer = app.listen(PORT);
+  void pool?.warm();
+
+  if (listen) {
+    const { app, markShuttingDown } = createHttpApp({
+      apiKey,
+      allowClientApiKeys,
+      auth: { tokens: config.auth.tokens, jwtSecret: config.auth.jwtSecret },
+      port: config.port,
+      server: serverOptions,
+    });
+    console.log(`MCP about to start on ${config.host}:${config.port}`);
+    const appServer = app.listen(config.port, config.host);
     const address = appServer.address();
     const addressString =
       typeof address === "string"
         ? address
         : `${address?.address}:${address?.port}`;
     console.warn(`MCP server running on ${addressString}`);
+    handleShutdown(pool, () => {
+      markShuttingDown();
+      appServer.close();
+    });
     return appServer;
   } else {
     console.warn("MCP server starting in stdio mode");
+    const server = createMcpServer(apiKey!, config.port, serverOptions);
     const transport = new StdioServerTransport();
     await server.connect(transport);
+    const shutdown = handleShutdown(pool);
+    // The client closing stdin means it has gone away for good
+    process.stdin.on("end", () => void shutdown("stdin closed"));
     return null;
   }
 }
 
-main().catch(console.error);
+// Run a trace through an in-process client, print the report and exit
+// non-zero when a step diverged
+async function replayFromCli(
+  apiKey: string,
+  traceFile: string,
+  config: ServerConfig,
+  serverOptions: McpServerOptions,
+  sessionId?: string,
+) {
+  const file = path.resolve(traceFile);
+  const server = createMcpServer(apiKey, config.port, {
+    ...serverOptions,
+    traces: { dir: path.dirname(file), record: false },
+  });
+  const client = new Client({
+    name: "airtop-mcp-replay",
+    version: process.env.npm_package_version || FALLBACK_VERSION,
+  });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+
+  const result = await client.callTool(
+    {
+      name: "replayTrace",
+      arguments: { traceFile: path.basename(file), sessionId },
+    },
+    undefined,
+    { timeout: REPLAY_TIMEOUT_MS },
+  );
+  for (const item of result.content as { type: string; text?: string }[]) {
+    // Written directly so the report is printed whatever the log level
+    if (item.type === "text") {
+      process.stdout.write(`${item.text}\n`);
+    }
+  }
+  await terminateAllSessions();
+  await serverOptions.pool?.close();
+  process.exit(result.isError ? 1 : 0);
+}
+
+// Encrypt a plaintext secrets file and print the result for --secrets-file
+async function encryptSecretsFromCli(file: string) {
+  const passphrase = process.env[SECRETS_KEY_ENV];
+  if (!passphrase) {
+    throw new SecretError(`${SECRETS_KEY_ENV} is required to encrypt secrets`);
+  }
+  let secrets: unknown;
+  try {
+    secrets = JSON.parse(await readFile(file, "utf8"));
+  } catch (error) {
+    throw new SecretError(`Cannot read secrets from ${file}: ${String(error)}`);
+  }
+  if (
+    !secrets ||
+    typeof secrets !== "object" ||
+    Object.values(secrets).some((value) => typeof value !== "string")
+  ) {
+    throw new SecretError(
+      `${file} must contain a JSON object of secret names to string values`,
+    );
+  }
+  process.stdout.write(
+    `${JSON.stringify(encryptSecrets(secrets as Record<string, string>, passphrase), null, 2)}\n`,
+  );
+}
+
+// Terminate every tracked browser session before exiting so nothing is left billing
+function handleShutdown(pool?: SessionPool, onShutdown?: () => void) {
+  let shuttingDown = false;
+  const shutdown = async (reason: string) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    console.warn(`Shutting down (${reason}), terminating open sessions`);
+    onShutdown?.();
+    await terminateAllSessions();
+    await pool?.close();
+    process.exit(0);
+  };
+  process.once("SIGINT", () => void shutdown("SIGINT"));
+  process.once("SIGTERM", () => void shutdown("SIGTERM"));
+  return shutdown;
+}
+
+main().catch((error) => {
+  if (
+    error instanceof ConfigError ||
+    error instanceof SecretError ||
+    error instanceof PromptTemplateError
+  ) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  console.error(error);
+});
@@ -0,0 +1,164 @@
+import { SessionRegistry } from "./session-registry.js";
+
+// How often the reaper looks for idle sessions
+const REAP_INTERVAL_MS = 60 * 1000;
+
+export interface SessionLimits {
+  // Maximum concurrent sessions across all clients of this process
+  maxSessions?: number;
+  // Terminate sessions with no tool activity for this many minutes
+  idleTimeoutMinutes?: number;
+}
+
+// Every live manager, so limits and shutdown span all client connections
+const activeManagers = new Set<SessionLifecycleManager>();
+
+/**
+ * Enforces the concurrent session cap, reaps idle sessions and terminates
+ * everything a client opened once it disconnects. Sessions adopted from
+ * outside the server are tracked but left running. Termination always goes
+ * through Airtop's terminate call, so profiles configured with
+ * saveProfileOnTermination are still saved.
+ */
+export class SessionLifecycleManager {
+  private pendingSessions = 0;
+  private reaper?: NodeJS.Timeout;
+
+  constructor(
+    private readonly registry: SessionRegistry,
+    private readonly terminateSession: (sessionId: string) => Promise<void>,
+    private readonly limits: SessionLimits = {},
+  ) {
+    activeManagers.add(this);
+    if (limits.idleTimeoutMinutes) {
+      this.reaper = setInterval(() => void this.reapIdle(), REAP_INTERVAL_MS);
+      this.reaper.unref();
+    }
+  }
+
+  /**
+   * Reserve a slot for a new session. Returns undefined when the limit is
+   * reached, otherwise a release function to call once the session has
+   * been registered (or creation failed).
+   */
+  reserveSession(): (() => void) | undefined {
+    const { maxSessions } = this.limits;
+    if (maxSessions && countSessions() >= maxSessions) {
+      return undefined;
+    }
+    this.pendingSessions++;
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.pendingSessions--;
+      }
+    };
+  }
+
+  // Record tool activity so the session isn't reaped as idle
+  touch(sessionId: string) {
+    const session = this.registry.getSession(sessionId);
+    if (session) {
+      session.lastActivityAt = new Date();
+    }
+  }
+
+  // Stop tracking the session only once it has ended, so one that failed to
+  // terminate is still reaped and cleaned up later
+  async terminate(sessionId: string) {
+    await this.terminateSession(sessionId);
+    this.registry.removeSession(sessionId);
+  }
+
+  // Terminate the sessions this server created
+  async terminateAll() {
+    const sessions = this.ownSessions();
+    await Promise.allSettled(
+      sessions.map(async ({ sessionId }) => {
+        try {
+          await this.terminate(sessionId);
+          console.warn(`Terminated session ${sessionId}`);
+        } catch (error) {
+          console.warn(
+            `Failed to terminate session ${sessionId}: ${String(error)}`,
+          );
+        }
+      }),
+    );
+  }
+
+  // Terminate this client's sessions and stop tracking it, unless some
+  // failed to terminate: those are tried again at shutdown
+  async dispose() {
+    if (this.reaper) {
+      clearInterval(this.reaper);
+    }
+    await this.terminateAll();
+    if (!this.ownSessions().length) {
+      activeManagers.delete(this);
+    }
+  }
+
+  // Adopted sessions don't count against the cap, this server didn't start them
+  get sessionCount() {
+    return this.ownSessions().length + this.pendingSessions;
+  }
+
+  get windowCount() {
+    return this.registry.listWindows().length;
+  }
+
+  private async reapIdle() {
+    const { idleTimeoutMinutes } = this.limits;
+    if (!idleTimeoutMinutes) {
+      return;
+    }
+    const cutoff = Date.now() - idleTimeoutMinutes * 60 * 1000;
+    for (const session of this.ownSessions()) {
+      if (session.lastActivityAt.getTime() < cutoff) {
+        console.warn(
+          `Terminating session ${session.sessionId}, idle for more than ${idleTimeoutMinutes} minutes`,
+        );
+        try {
+          await this.terminate(session.sessionId);
+        } catch (error) {
+          console.warn(
+            `Failed to terminate idle session ${session.sessionId}: ${String(error)}`,
+          );
+        }
+      }
+    }
+  }
+
+  private ownSessions() {
+    return this.registry.listSessions().filter((session) => !session.adopted);
+  }
+}
+
+// Sessions open or being created across all clients
+export function countSessions() {
+  let count = 0;
+  for (const manager of activeManagers) {
+    count += manager.sessionCount;
+  }
+  return count;
+}
+
+// Windows open across all clients
+export function countWindows() {
+  let count = 0;
+  for (const manager of activeManagers) {
+    count += manager.windowCount;
+  }
+  return count;
+}
+
+/**
+ * Terminate every tracked session across all clients, e.g. on SIGINT/SIGTERM.
+ */
+export async function terminateAllSessions() {
+  await Promise.allSettled(
+    [...activeManagers].map((manager) => manager.dispose()),
+  );
+}
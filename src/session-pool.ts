@@ -0,0 +1,542 @@
+import { Issue } from "@airtop/sdk/api/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { BrowserBackend } from "./backend.js";
+import { DEFAULT_SESSION_TIMEOUT_MINUTES, SessionDefaults } from "./config.js";
+import { ProfileRegistry } from "./profile-registry.js";
+import { SessionLifecycleManager } from "./session-lifecycle.js";
+import { SessionRegistry } from "./session-registry.js";
+import { errorResult, jsonResult, reportAirtopErrors } from "./tool-errors.js";
+import { UsageTracker } from "./usage.js";
+
+export const DEFAULT_POOL_MAX_AGE_MINUTES = 30;
+// How often idle sessions are checked and the pool topped up
+const HEALTH_CHECK_INTERVAL_MS = 60 * 1000;
+const MS_PER_MINUTE = 60 * 1000;
+
+export interface SessionPoolOptions {
+  // Idle sessions kept ready per configuration
+  size: number;
+  // Idle sessions older than this are retired rather than handed out
+  maxAgeMinutes?: number;
+}
+
+// The parts of a session's configuration that pooled sessions are matched on
+export interface PoolConfiguration {
+  profileName?: string;
+  proxy?: boolean | object;
+  solveCaptcha?: boolean;
+  extensionIds?: string[];
+}
+
+export class SessionPoolError extends Error {}
+
+interface PooledSession {
+  sessionId: string;
+  key: string;
+  configuration: PoolConfiguration;
+  createdAt: number;
+  // The client the session is handed out to, unset while it waits in the pool
+  leasedBy?: object;
+  // The client that released it, whose cookies and storage it still holds
+  usedBy?: object;
+}
+
+// A configuration the pool keeps sessions ready for
+interface PoolTarget {
+  configuration: PoolConfiguration;
+  lastAcquiredAt: number;
+  creating: number;
+}
+
+export type PoolLease =
+  | { sessionId: string; warm: boolean; expiresAt: Date }
+  | { errors: Issue[] };
+
+export type ReleaseOutcome = "returned" | "recycled";
+
+/**
+ * Keeps sessions started ahead of time for each configuration clients ask
+ * for, so acquiring one skips the wait for a browser to start. A session
+ * is handed to one client at a time and only comes back to the pool once
+ * that client releases it with its windows closed; sessions ended any other
+ * way are terminated and replaced. Closing windows leaves cookies and
+ * storage behind, so a released session only goes back to the client that
+ * released it and is terminated when another client would get it. Shared
+ * by every client of the process.
+ */
+export class SessionPool {
+  private sessions = new Map<string, PooledSession>();
+  private targets = new Map<string, PoolTarget>();
+  private readonly maxAgeMs: number;
+  private readonly timeoutMinutes: number;
+  private timer?: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(
+    private readonly backend: BrowserBackend,
+    private readonly options: SessionPoolOptions,
+    private readonly defaults: SessionDefaults = {},
+    private readonly now = () => Date.now(),
+  ) {
+    const maxAgeMinutes = options.maxAgeMinutes ?? DEFAULT_POOL_MAX_AGE_MINUTES;
+    this.maxAgeMs = maxAgeMinutes * MS_PER_MINUTE;
+    // Sessions leave the pool by maxAge, so each lease still gets the full
+    // session timeout before Airtop ends it
+    this.timeoutMinutes =
+      maxAgeMinutes +
+      (defaults.timeoutMinutes ?? DEFAULT_SESSION_TIMEOUT_MINUTES);
+    this.timer = setInterval(
+      () => void this.checkHealth(),
+      HEALTH_CHECK_INTERVAL_MS,
+    );
+    this.timer.unref();
+  }
+
+  /**
+   * Start sessions for a configuration, by default the server's own, and
+   * keep them topped up even when no client has asked for one lately.
+   */
+  async warm(configuration: PoolConfiguration = {}) {
+    const target = this.target(configuration);
+    target.lastAcquiredAt = Infinity;
+    await this.fill(this.keyOf(configuration));
+  }
+
+  /**
+   * Hand out an idle session matching the configuration, checking it is
+   * still running first, or start a new one when none is ready. Sessions
+   * another client released are terminated rather than handed out.
+   */
+  async acquire(
+    configuration: PoolConfiguration,
+    owner: object,
+  ): Promise<PoolLease> {
+    if (this.closed) {
+      throw new SessionPoolError("The session pool is shut down");
+    }
+    const key = this.keyOf(configuration);
+    const target = this.target(configuration);
+    target.lastAcquiredAt = Math.max(target.lastAcquiredAt, this.now());
+
+    for (;;) {
+      const idle = [...this.sessions.values()].filter(
+        (candidate) => candidate.key === key && !candidate.leasedBy,
+      );
+      const session =
+        idle.find(({ usedBy }) => !usedBy || usedBy === owner) ?? idle[0];
+      if (!session) {
+        break;
+      }
+      // Taken before the health check, so no other client can be given it
+      session.leasedBy = owner;
+      if (
+        (session.usedBy && session.usedBy !== owner) ||
+        this.expired(session) ||
+        !(await this.isRunning(session))
+      ) {
+        await this.discard(session);
+        continue;
+      }
+      console.warn(`Acquired pooled session ${session.sessionId}`);
+      void this.fill(key);
+      return this.lease(session, true);
+    }
+
+    const created = await this.backend.sessions.create({
+      configuration: this.sessionConfiguration(key),
+    });
+    if (created.errors) {
+      return { errors: created.errors };
+    }
+    const session = this.add(created.data.id, key, owner);
+    console.warn(`Acquired new session ${session.sessionId}, pool was empty`);
+    void this.fill(key);
+    return this.lease(session, false);
+  }
+
+  /**
+   * Take a session back from the client it was handed to. Its windows are
+   * closed and it is kept for that client; sessions that are too old, use
+   * a profile or can't be reset are terminated instead.
+   */
+  async release(
+    sessionId: string,
+    owner: object,
+    { recycle = false } = {},
+  ): Promise<ReleaseOutcome> {
+    const session = this.leasedSession(sessionId, owner);
+    const target = this.targets.get(session.key);
+    // Terminating a profile's session is what saves the profile
+    if (
+      recycle ||
+      session.configuration.profileName ||
+      this.expired(session) ||
+      !target ||
+      this.idleCount(session.key) + target.creating >= this.options.size ||
+      !(await this.reset(session))
+    ) {
+      await this.recycle(sessionId, owner);
+      return "recycled";
+    }
+    session.leasedBy = undefined;
+    session.usedBy = owner;
+    console.warn(`Returned session ${sessionId} to the pool`);
+    return "returned";
+  }
+
+  // Whether the session was started by the pool
+  owns(sessionId: string) {
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * Terminate a session handed out to this client, e.g. when it calls
+   * terminateSession or disconnects, and start a replacement.
+   */
+  async recycle(sessionId: string, owner: object) {
+    const session = this.leasedSession(sessionId, owner);
+    this.sessions.delete(sessionId);
+    try {
+      await this.backend.sessions.terminate(sessionId);
+    } finally {
+      void this.fill(session.key);
+    }
+  }
+
+  /**
+   * Retire idle sessions that are too old or no longer running, forget
+   * configurations nobody has asked for lately and top up the rest.
+   */
+  async checkHealth() {
+    const idle = [...this.sessions.values()].filter(
+      (session) => !session.leasedBy,
+    );
+    await Promise.all(
+      idle.map(async (session) => {
+        session.leasedBy = this;
+        if (this.expired(session) || !(await this.isRunning(session))) {
+          await this.discard(session);
+        } else {
+          session.leasedBy = undefined;
+        }
+      }),
+    );
+    const cutoff = this.now() - this.maxAgeMs;
+    for (const [key, target] of this.targets) {
+      if (target.lastAcquiredAt < cutoff) {
+        this.targets.delete(key);
+      } else {
+        await this.fill(key);
+      }
+    }
+  }
+
+  counts() {
+    const sessions = [...this.sessions.values()];
+    const leased = sessions.filter((session) => session.leasedBy).length;
+    return { idle: sessions.length - leased, leased };
+  }
+
+  // Stop topping up and terminate every session the pool started
+  async close() {
+    this.closed = true;
+    clearInterval(this.timer);
+    const sessions = [...this.sessions.keys()];
+    this.sessions.clear();
+    await Promise.allSettled(
+      sessions.map((sessionId) => this.backend.sessions.terminate(sessionId)),
+    );
+  }
+
+  private keyOf(configuration: PoolConfiguration) {
+    const { profileName, proxy, solveCaptcha, extensionIds } = {
+      proxy: this.defaults.proxy,
+      solveCaptcha: this.defaults.solveCaptcha,
+      extensionIds: this.defaults.extensionIds,
+      ...configuration,
+    };
+    return JSON.stringify({
+      profileName,
+      proxy,
+      solveCaptcha,
+      extensionIds: extensionIds?.length ? [...extensionIds].sort() : undefined,
+    });
+  }
+
+  private target(configuration: PoolConfiguration) {
+    const key = this.keyOf(configuration);
+    let target = this.targets.get(key);
+    if (!target) {
+      target = {
+        configuration: JSON.parse(key) as PoolConfiguration,
+        lastAcquiredAt: this.now(),
+        creating: 0,
+      };
+      this.targets.set(key, target);
+    }
+    return target;
+  }
+
+  private sessionConfiguration(key: string) {
+    return {
+      ...(JSON.parse(key) as PoolConfiguration),
+      timeoutMinutes: this.timeoutMinutes,
+    };
+  }
+
+  private add(sessionId: string, key: string, leasedBy?: object) {
+    const session: PooledSession = {
+      sessionId,
+      key,
+      configuration: JSON.parse(key) as PoolConfiguration,
+      createdAt: this.now(),
+      leasedBy,
+    };
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  private lease(session: PooledSession, warm: boolean): PoolLease {
+    return {
+      sessionId: session.sessionId,
+      warm,
+      expiresAt: new Date(
+        session.createdAt + this.timeoutMinutes * MS_PER_MINUTE,
+      ),
+    };
+  }
+
+  private leasedSession(sessionId: string, owner: object) {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.leasedBy !== owner) {
+      throw new SessionPoolError(
+        `Session ${sessionId} was not acquired from the pool by this client`,
+      );
+    }
+    return session;
+  }
+
+  private idleCount(key: string) {
+    return [...this.sessions.values()].filter(
+      (session) => session.key === key && !session.leasedBy,
+    ).length;
+  }
+
+  private expired(session: PooledSession) {
+    return this.now() - session.createdAt >= this.maxAgeMs;
+  }
+
+  private async isRunning(session: PooledSession) {
+    try {
+      const info = await this.backend.sessions.getInfo(session.sessionId);
+      return !info.errors && info.data.status === "running";
+    } catch (error) {
+      console.warn(
+        `Health check of pooled session ${session.sessionId} failed: ${String(error)}`,
+      );
+      return false;
+    }
+  }
+
+  // Close every window, so the client gets the session back without the
+  // pages it left open
+  private async reset(session: PooledSession) {
+    try {
+      const windows = await this.backend.windows.list(session.sessionId);
+      if (windows.errors?.length) {
+        return false;
+      }
+      for (const { windowId } of windows.data.windows ?? []) {
+        const closed = await this.backend.windows.close(
+          session.sessionId,
+          windowId,
+        );
+        if (closed.errors?.length) {
+          return false;
+        }
+      }
+      return true;
+    } catch (error) {
+      console.warn(
+        `Failed to reset pooled session ${session.sessionId}: ${String(error)}`,
+      );
+      return false;
+    }
+  }
+
+  // Terminate a session that can't be handed out, whether or not it still runs
+  private async discard(session: PooledSession) {
+    console.warn(`Retiring pooled session ${session.sessionId}`);
+    this.sessions.delete(session.sessionId);
+    try {
+      await this.backend.sessions.terminate(session.sessionId);
+    } catch (error) {
+      console.warn(
+        `Failed to terminate pooled session ${session.sessionId}: ${String(error)}`,
+      );
+    }
+  }
+
+  // Start sessions until the configuration has `size` of them idle
+  private async fill(key: string) {
+    const target = this.targets.get(key);
+    if (!target || this.closed) {
+      return;
+    }
+    const missing = this.options.size - this.idleCount(key) - target.creating;
+    if (missing <= 0) {
+      return;
+    }
+    target.creating += missing;
+    await Promise.all(
+      Array.from({ length: missing }, async () => {
+        try {
+          const created = await this.backend.sessions.create({
+            configuration: this.sessionConfiguration(key),
+          });
+          if (created.errors) {
+            console.warn("Failed to start pooled session", created.errors);
+          } else if (this.closed) {
+            await this.backend.sessions.terminate(created.data.id);
+          } else {
+            this.add(created.data.id, key);
+          }
+        } catch (error) {
+          console.warn(`Failed to start pooled session: ${String(error)}`);
+        } finally {
+          target.creating--;
+        }
+      }),
+    );
+  }
+}
+
+/**
+ * Register the acquireSession and releaseSession tools, which take sessions
+ * from the pool instead of starting them. Sessions a client acquired are
+ * tracked like ones it created, so terminateSession, the idle reaper and
+ * disconnecting all hand them back to the pool to be replaced. Warm sessions
+ * count as new ones against the usage budget.
+ */
+export function registerSessionPoolTools(
+  server: McpServer,
+  pool: SessionPool,
+  airtopClient: BrowserBackend,
+  sessionRegistry: SessionRegistry,
+  sessionLifecycle: SessionLifecycleManager,
+  profileRegistry: ProfileRegistry,
+  usage: UsageTracker,
+) {
+  server.tool(
+    "acquireSession",
+    `Get a browser session that is already running from the server's pool, which is faster than creating one.
+     Call "releaseSession" when you are done so the next task can reuse it.`,
+    {
+      configuration: z
+        .object({
+          profileName: z
+            .string()
+            .optional()
+            .describe(
+              "Name of profile to load/save - profile will be saved when the session is released",
+            ),
+          proxy: z
+            .union([
+              z.boolean().describe("Use Airtop-provided proxy"),
+              z.object({}).passthrough().describe("Custom proxy configuration"),
+            ])
+            .optional()
+            .describe("Proxy configuration"),
+          solveCaptcha: z
+            .boolean()
+            .optional()
+            .describe("Automatically solve captcha challenges"),
+          extensionIds: z
+            .array(z.string())
+            .optional()
+            .describe("Google Web Store extension IDs to load"),
+        })
+        .optional()
+        .describe(
+          "Session configuration; sessions are pooled separately for each one",
+        ),
+    },
+    async ({ configuration = {} }: { configuration?: PoolConfiguration }) => {
+      const { profileName, solveCaptcha, extensionIds } = configuration;
+      console.warn("acquireSession request", {
+        profileName,
+        solveCaptcha,
+        extensionIds,
+      });
+      // Already running, so handing one out never reaches sessions.create
+      usage.checkNewSession();
+      const releaseSession = sessionLifecycle.reserveSession();
+      if (!releaseSession) {
+        return errorResult(
+          "Session limit reached. Release or terminate a session you no longer need first.",
+          "rate_limited",
+        );
+      }
+      let lease: PoolLease;
+      try {
+        lease = await pool.acquire(configuration, sessionRegistry);
+        if (!("errors" in lease)) {
+          sessionRegistry.addSession(lease.sessionId, { profileName });
+        }
+      } finally {
+        releaseSession();
+      }
+      if ("errors" in lease) {
+        return reportAirtopErrors(lease.errors);
+      }
+      const { sessionId, warm, expiresAt } = lease;
+      if (profileName) {
+        profileRegistry.recordUse(profileName, sessionId);
+        try {
+          await airtopClient.sessions.saveProfileOnTermination(
+            sessionId,
+            profileName,
+          );
+        } catch (error) {
+          console.warn(`Failed to configure profile saving: ${String(error)}`);
+        }
+      }
+      return jsonResult({ id: sessionId, warm, expiresAt });
+    },
+  );
+
+  server.tool(
+    "releaseSession",
+    `Give a session from "acquireSession" back to the pool. Its windows are closed, and only your later
+     "acquireSession" calls can get it back, with its cookies and storage. Sessions with a profile are
+     terminated instead, which saves the profile.`,
+    {
+      sessionId: z.string().describe("The session ID"),
+      recycle: z
+        .boolean()
+        .optional()
+        .describe(
+          "Terminate the session instead of reusing it, e.g. after logging in to an account the next task mustn't use",
+        ),
+    },
+    async ({
+      sessionId,
+      recycle,
+    }: {
+      sessionId: string;
+      recycle?: boolean;
+    }) => {
+      console.warn("releaseSession request", sessionId, { recycle });
+      const outcome = await pool.release(sessionId, sessionRegistry, {
+        recycle,
+      });
+      sessionRegistry.removeSession(sessionId);
+      airtopClient.input.disconnect(sessionId);
+      if (outcome === "recycled") {
+        profileRegistry.recordSaved(sessionId);
+      }
+      return jsonResult({ sessionId, outcome });
+    },
+  );
+}
@@ -0,0 +1,250 @@
+export type HumanActionOutcome =
+  | "completed"
+  | "declined"
+  | "cancelled"
+  | "timed_out";
+
+// The last time a window was handed to the user, see human-action.ts
+export interface HumanActionRecord {
+  instructions: string;
+  outcome: HumanActionOutcome;
+  requestedAt: Date;
+  finishedAt: Date;
+}
+
+// Window opened in a tracked session
+export interface WindowMetadata {
+  windowId: string;
+  sessionId: string;
+  url?: string;
+  title?: string;
+  liveViewUrl?: string;
+  humanAction?: HumanActionRecord;
+  createdAt: Date;
+  // Pages this window has shown, for goBack and goForward
+  history: string[];
+  historyIndex: number;
+}
+
+// Session tracking for profile management and resource discovery
+export interface SessionMetadata {
+  sessionId: string;
+  profileName?: string;
+  // Created outside this server and tracked once a tool used it, so it is
+  // never terminated on this server's behalf
+  adopted?: boolean;
+  createdAt: Date;
+  lastActivityAt: Date;
+  windows: Map<string, WindowMetadata>;
+}
+
+/**
+ * Tracks the sessions and windows created through this server so they can be
+ * listed back to clients. Listeners are notified whenever the set changes.
+ */
+export class SessionRegistry {
+  private sessions = new Map<string, SessionMetadata>();
+  private listeners = new Set<() => void>();
+
+  onChange(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  addSession(
+    sessionId: string,
+    details: { profileName?: string; adopted?: boolean } = {},
+  ) {
+    const now = new Date();
+    const session: SessionMetadata = {
+      sessionId,
+      profileName: details.profileName,
+      adopted: details.adopted,
+      createdAt: now,
+      lastActivityAt: now,
+      windows: new Map(),
+    };
+    this.sessions.set(sessionId, session);
+    this.notify();
+    return session;
+  }
+
+  removeSession(sessionId: string) {
+    const removed = this.sessions.delete(sessionId);
+    if (removed) {
+      this.notify();
+    }
+    return removed;
+  }
+
+  addWindow(sessionId: string, windowId: string, url?: string) {
+    const session = this.sessions.get(sessionId) ?? this.adopt(sessionId);
+    const window: WindowMetadata = {
+      windowId,
+      sessionId,
+      url,
+      createdAt: new Date(),
+      history: url ? [url] : [],
+      historyIndex: url ? 0 : -1,
+    };
+    session.windows.set(windowId, window);
+    this.notify();
+    return window;
+  }
+
+  removeWindow(sessionId: string, windowId: string) {
+    const removed = !!this.sessions.get(sessionId)?.windows.delete(windowId);
+    if (removed) {
+      this.notify();
+    }
+    return removed;
+  }
+
+  updateWindow(
+    sessionId: string,
+    windowId: string,
+    details: Partial<
+      Pick<WindowMetadata, "url" | "title" | "liveViewUrl" | "humanAction">
+    >,
+  ) {
+    const window = this.getWindow(sessionId, windowId);
+    if (window) {
+      Object.assign(window, details);
+    }
+    return window;
+  }
+
+  /**
+   * Record that a window now shows url, as a new history entry unless it is
+   * already the current one. Forward history is dropped, as in a browser.
+   */
+  recordNavigation(sessionId: string, windowId: string, url: string) {
+    const window =
+      this.getWindow(sessionId, windowId) ??
+      this.addWindow(sessionId, windowId);
+    if (window.history[window.historyIndex] !== url) {
+      window.history.splice(window.historyIndex + 1, Infinity, url);
+      window.historyIndex = window.history.length - 1;
+    }
+    window.url = url;
+    this.notify();
+    return window;
+  }
+
+  /**
+   * Record that the window's current page redirected to url, replacing its
+   * history entry so going back skips the URL that redirected.
+   */
+  recordRedirect(sessionId: string, windowId: string, url: string) {
+    const window = this.getWindow(sessionId, windowId);
+    if (window && window.historyIndex >= 0) {
+      window.history[window.historyIndex] = url;
+      window.url = url;
+      this.notify();
+    }
+    return window;
+  }
+
+  // The URL `offset` entries away in a window's history, if there is one
+  historyEntry(sessionId: string, windowId: string, offset: number) {
+    const window = this.getWindow(sessionId, windowId);
+    return window?.history[window.historyIndex + offset];
+  }
+
+  moveInHistory(sessionId: string, windowId: string, offset: number) {
+    const window = this.getWindow(sessionId, windowId);
+    const url = window?.history[window.historyIndex + offset];
+    if (window && url !== undefined) {
+      window.historyIndex += offset;
+      window.url = url;
+      this.notify();
+    }
+    return window;
+  }
+
+  /**
+   * Reconcile a session's windows with the ones Airtop reports: adopt new
+   * windows, pick up pages reached by clicking links, and drop closed ones.
+   */
+  syncWindows(
+    sessionId: string,
+    windows: { windowId: string; url?: string; title?: string }[],
+  ) {
+    const session = this.sessions.get(sessionId) ?? this.adopt(sessionId);
+    const open = new Set(windows.map(({ windowId }) => windowId));
+    for (const windowId of session.windows.keys()) {
+      if (!open.has(windowId)) {
+        session.windows.delete(windowId);
+      }
+    }
+    for (const { windowId, url, title } of windows) {
+      const window =
+        session.windows.get(windowId) ?? this.addWindow(sessionId, windowId);
+      if (url) {
+        this.recordNavigation(sessionId, windowId, url);
+      }
+      window.title = title;
+    }
+    this.notify();
+    return [...session.windows.values()];
+  }
+
+  getSession(sessionId: string) {
+    return this.sessions.get(sessionId);
+  }
+
+  getWindow(sessionId: string, windowId: string) {
+    return this.sessions.get(sessionId)?.windows.get(windowId);
+  }
+
+  listSessions() {
+    return [...this.sessions.values()];
+  }
+
+  listWindows() {
+    return this.listSessions().flatMap((session) => [
+      ...session.windows.values(),
+    ]);
+  }
+
+  // Track a session created outside this server on its first use
+  private adopt(sessionId: string) {
+    return this.addSession(sessionId, { adopted: true });
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+export function serializeWindow(window: WindowMetadata) {
+  return {
+    windowId: window.windowId,
+    sessionId: window.sessionId,
+    url: window.url,
+    title: window.title,
+    liveViewUrl: window.liveViewUrl,
+    humanAction: window.humanAction && {
+      ...window.humanAction,
+      requestedAt: window.humanAction.requestedAt.toISOString(),
+      finishedAt: window.humanAction.finishedAt.toISOString(),
+    },
+    canGoBack: window.historyIndex > 0,
+    canGoForward: window.historyIndex < window.history.length - 1,
+    createdAt: window.createdAt.toISOString(),
+  };
+}
+
+export function serializeSession(session: SessionMetadata) {
+  return {
+    sessionId: session.sessionId,
+    profileName: session.profileName,
+    createdAt: session.createdAt.toISOString(),
+    lastActivityAt: session.lastActivityAt.toISOString(),
+    windows: [...session.windows.values()].map(serializeWindow),
+  };
+}
@@ -0,0 +1,119 @@
+import { Ajv, ValidateFunction } from "ajv";
+import { Ajv2019 } from "ajv/dist/2019.js";
+import { Ajv2020 } from "ajv/dist/2020.js";
+import addFormats from "ajv-formats";
+import { z } from "zod";
+import { errorResult } from "./tool-errors.js";
+
+// $schema URIs of drafts before draft-07, e.g.
+// http://json-schema.org/draft-04/schema#, which Ajv can't compile
+const UNSUPPORTED_DRAFT = /json-schema\.org\/(draft-0[0-6])\//;
+
+// A fresh validator per schema: schemas differ on every call, so caching
+// them would only grow, and two that share an $id would clash
+function createAjv(schema: JsonSchema) {
+  const options = { allErrors: true, strict: false };
+  const draft = typeof schema.$schema === "string" ? schema.$schema : "";
+  const ajv = draft.includes("2020-12")
+    ? new Ajv2020(options)
+    : draft.includes("2019-09")
+      ? new Ajv2019(options)
+      : new Ajv(options);
+  addFormats.default(ajv);
+  return ajv;
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+// Tools accept a JSON Schema object, or the same schema serialized as a string
+export const outputSchemaInput = z
+  .union([z.record(z.unknown()), z.string()])
+  .describe(
+    "JSON Schema the response must match. The result is validated and returned as structured content.",
+  );
+
+// Declared tool output: the schema a caller passes varies per call, so the
+// validated value is wrapped in a fixed envelope
+export const structuredResultShape = {
+  result: z
+    .unknown()
+    .describe(
+      "The AI response, parsed and validated against outputSchema when one was given, otherwise the raw text",
+    ),
+};
+
+export type StructuredOutcome =
+  | { ok: true; value: unknown }
+  | { ok: false; errors: string[] };
+
+export type OutputValidator = ReturnType<typeof compileOutputSchema>;
+
+/**
+ * Normalize a caller-supplied output schema and compile a validator for it.
+ * Throws with a readable message when the schema itself is invalid.
+ */
+export function compileOutputSchema(schema: JsonSchema | string) {
+  let parsed: unknown = schema;
+  if (typeof schema === "string") {
+    try {
+      parsed = JSON.parse(schema);
+    } catch (error) {
+      throw new Error(`outputSchema is not valid JSON: ${String(error)}`);
+    }
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("outputSchema must be a JSON Schema object");
+  }
+  const { $schema } = parsed as JsonSchema;
+  const draft =
+    typeof $schema === "string" ? UNSUPPORTED_DRAFT.exec($schema) : null;
+  if (draft) {
+    throw new Error(
+      `outputSchema uses JSON Schema ${draft[1]}, which is not supported. Use draft-07, 2019-09 or 2020-12, or leave out $schema for draft-07.`,
+    );
+  }
+
+  let validate: ValidateFunction;
+  try {
+    validate = createAjv(parsed as JsonSchema).compile(parsed);
+  } catch (error) {
+    throw new Error(
+      `outputSchema is not a valid JSON Schema: ${String(error)}`,
+    );
+  }
+
+  return {
+    schema: parsed as JsonSchema,
+    check(modelResponse: string): StructuredOutcome {
+      let value: unknown;
+      try {
+        value = JSON.parse(modelResponse);
+      } catch {
+        return { ok: false, errors: ["response is not valid JSON"] };
+      }
+      if (!validate(value)) {
+        return {
+          ok: false,
+          errors: (validate.errors ?? []).map(
+            (error) => `${error.instancePath || "response"} ${error.message}`,
+          ),
+        };
+      }
+      return { ok: true, value };
+    },
+  };
+}
+
+export function reportValidationErrors(errors: string[]) {
+  return errorResult(
+    `Response did not match outputSchema:\n${errors.join("\n")}`,
+    "validation",
+  );
+}
+
+export function reportInvalidOutputSchema(error: unknown) {
+  return errorResult(
+    error instanceof Error ? error.message : String(error),
+    "validation",
+  );
+}
@@ -0,0 +1,347 @@
+import { AirtopError, AirtopTimeoutError } from "@airtop/sdk";
+import { Issue } from "@airtop/sdk/api/index.js";
+import { BrowserBackend } from "./backend.js";
+import { SessionPoolError } from "./session-pool.js";
+import { ToolMiddleware } from "./tool-pipeline.js";
+import { BudgetExceededError } from "./usage.js";
+
+export type ErrorCategory =
+  | "auth"
+  | "not_found"
+  | "session_expired"
+  | "rate_limited"
+  | "validation"
+  | "cancelled"
+  | "budget_exceeded"
+  | "internal";
+
+export interface RetryPolicy {
+  // Total attempts, including the first
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+// Checked in order, so the more specific categories win
+const MESSAGE_CATEGORIES: [RegExp, ErrorCategory][] = [
+  [/session\b.*\b(expired|terminated|ended|not running)/i, "session_expired"],
+  [/unauthori[sz]ed|forbidden|api key/i, "auth"],
+  [/rate limit|too many requests/i, "rate_limited"],
+  [/not found|does not exist/i, "not_found"],
+  [/invalid|required|must be/i, "validation"],
+];
+
+function errorCode(err: unknown): unknown {
+  if (!err || typeof err !== "object") {
+    return undefined;
+  }
+  const { code, cause } = err as { code?: unknown; cause?: unknown };
+  return code ?? errorCode(cause);
+}
+
+function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function categoryFromMessage(message: string): ErrorCategory {
+  return (
+    MESSAGE_CATEGORIES.find(([pattern]) => pattern.test(message))?.[1] ??
+    "internal"
+  );
+}
+
+/**
+ * Whether retrying the same call may succeed: rate limits, server errors,
+ * timeouts and network failures.
+ */
+export function isTransientError(err: unknown) {
+  if (err instanceof AirtopTimeoutError) {
+    return true;
+  }
+  if (err instanceof AirtopError) {
+    const status = err.statusCode ?? 0;
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const code = errorCode(err);
+  return (
+    (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) ||
+    (err instanceof TypeError && err.message === "fetch failed")
+  );
+}
+
+export function classifyError(err: unknown): ErrorCategory {
+  const message = errorMessage(err);
+  if (err instanceof BudgetExceededError) {
+    return "budget_exceeded";
+  }
+  if (err instanceof SessionPoolError) {
+    return "validation";
+  }
+  if (err instanceof AirtopError) {
+    if (categoryFromMessage(message) === "session_expired") {
+      return "session_expired";
+    }
+    switch (err.statusCode) {
+      case 401:
+      case 403:
+        return "auth";
+      case 404:
+        return "not_found";
+      case 410:
+        return "session_expired";
+      case 429:
+        return "rate_limited";
+      case 400:
+      case 422:
+        return "validation";
+    }
+  }
+  if (isTransientError(err)) {
+    return "internal";
+  }
+  return categoryFromMessage(message);
+}
+
+// Errors returned in an Airtop response envelope only carry a message and code
+export function classifyIssues(issues: (Issue | AirtopError)[]): ErrorCategory {
+  const categories = issues.map((issue) =>
+    issue instanceof AirtopError
+      ? classifyError(issue)
+      : categoryFromMessage(`${issue.code ?? ""} ${issue.message}`),
+  );
+  return categories.find((category) => category !== "internal") ?? "internal";
+}
+
+/**
+ * A tool error result. The category is repeated in `_meta.errorCategory`
+ * for clients that handle errors programmatically.
+ */
+export function errorResult(text: string, category: ErrorCategory) {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      } as const,
+    ],
+    isError: true,
+    _meta: { errorCategory: category },
+  };
+}
+
+// A successful tool result carrying `data` as JSON text
+export function jsonResult(data: unknown) {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(data),
+      } as const,
+    ],
+  };
+}
+
+export function reportAirtopErrors(errors: (Issue | AirtopError)[]) {
+  // Log the raw errors for debugging purposes
+  console.error("Airtop API returned errors:", errors);
+
+  const formatted = errors.length
+    ? errors.map((error) => error?.message || JSON.stringify(error)).join("\n")
+    : "Unknown error (empty)";
+  const category = classifyIssues(errors);
+  return errorResult(
+    `Errors from the API (${category}):\n${formatted}`,
+    category,
+  );
+}
+
+export function reportToolError(toolName: string, err: unknown) {
+  const category = classifyError(err);
+  return errorResult(
+    `Error during ${toolName} (${category}): ${errorMessage(err)}`,
+    category,
+  );
+}
+
+export function cancelledResult(toolName: string) {
+  return errorResult(`${toolName} was cancelled`, "cancelled");
+}
+
+// Exponential backoff with equal jitter, so concurrent retries spread out
+export function retryDelay(attempt: number, policy: RetryPolicy) {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+// Backend calls that only read, so repeating one after a transient failure
+// can't repeat a side effect such as a click, a keystroke or a new session
+const READ_ONLY_CALLS = {
+  sessions: ["getInfo"],
+  windows: [
+    "list",
+    "getWindowInfo",
+    "pageQuery",
+    "scrapeContent",
+    "screenshot",
+  ],
+  files: ["list", "waitForDownloadAvailable"],
+} as const;
+
+function abortSignalOf(args: unknown[]) {
+  const options = args.find(
+    (arg): arg is { abortSignal?: AbortSignal } =>
+      !!arg && typeof arg === "object" && "abortSignal" in arg,
+  );
+  return options?.abortSignal;
+}
+
+/**
+ * Calls `call` until it succeeds, fails with an error that isn't transient,
+ * or runs out of attempts, backing off between attempts.
+ */
+export async function withRetries<T>(
+  name: string,
+  call: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      if (
+        attempt >= policy.attempts ||
+        !isTransientError(err) ||
+        signal?.aborted
+      ) {
+        throw err;
+      }
+      const delay = retryDelay(attempt, policy);
+      console.warn(
+        `${name} failed (attempt ${attempt}/${policy.attempts}), retrying in ${Math.round(delay)}ms: ${errorMessage(err)}`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+function retrying<T extends object>(
+  group: string,
+  target: T,
+  methods: readonly string[],
+  policy: RetryPolicy,
+): T {
+  return new Proxy(target, {
+    get(obj, prop, receiver) {
+      const value: unknown = Reflect.get(obj, prop, receiver);
+      if (typeof value !== "function") {
+        return value;
+      }
+      const call = (value as (...args: unknown[]) => Promise<unknown>).bind(
+        obj,
+      );
+      if (typeof prop !== "string" || !methods.includes(prop)) {
+        return call;
+      }
+      return (...args: unknown[]) =>
+        withRetries(
+          `${group}.${prop}`,
+          () => call(...args),
+          policy,
+          abortSignalOf(args),
+        );
+    },
+  });
+}
+
+/**
+ * Wrap a backend so read-only calls are retried on transient failures.
+ * Calls with side effects are never retried: the failed attempt may still
+ * have taken effect in the browser.
+ */
+export function retryReadOnlyCalls(
+  backend: BrowserBackend,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): BrowserBackend {
+  return {
+    sessions: retrying(
+      "sessions",
+      backend.sessions,
+      READ_ONLY_CALLS.sessions,
+      policy,
+    ),
+    windows: retrying(
+      "windows",
+      backend.windows,
+      READ_ONLY_CALLS.windows,
+      policy,
+    ),
+    profiles: backend.profiles,
+    files: retrying("files", backend.files, READ_ONLY_CALLS.files, policy),
+    input: backend.input,
+  };
+}
+
+/**
+ * Runs every tool call, turning any error a tool throws into a categorized
+ * error result.
+ */
+export function errorHandlingMiddleware(): ToolMiddleware {
+  return async ({ name, extra }, next) => {
+    try {
+      return await next();
+    } catch (err) {
+      // Aborted requests fail however they fail; report the cancellation
+      if (extra.signal.aborted) {
+        return cancelledResult(name);
+      }
+      console.error(`${name} failed:`, err);
+      return reportToolError(name, err);
+    }
+  };
+}
+
+/**
+ * Ends a tool call as soon as the client cancels it, with a cancelled
+ * result, rather than waiting for work that no longer has a recipient.
+ * Tools pass the request's abort signal on to Airtop so in-flight requests
+ * stop too.
+ */
+export function cancellationMiddleware(): ToolMiddleware {
+  return ({ name, extra }, next) => {
+    const { signal } = extra;
+    if (signal.aborted) {
+      return Promise.resolve(cancelledResult(name));
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => resolve(cancelledResult(name));
+      signal.addEventListener("abort", onAbort, { once: true });
+      next()
+        .then(resolve, (err) =>
+          signal.aborted
+            ? resolve(cancelledResult(name))
+            : reject(err as Error),
+        )
+        .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  };
+}
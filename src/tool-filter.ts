@@ -0,0 +1,59 @@
+export const TOOL_PRESETS = {
+  // Every tool the server provides
+  all: undefined,
+  // Observe pages without clicking, typing, uploading or replaying actions:
+  // session and window creation, page queries and extraction
+  "read-only": [
+    "createSession",
+    "createSessionWithOptions",
+    "createWindow",
+    // So a read-only client can end what it starts instead of leaving the
+    // session running until it times out
+    "closeWindow",
+    "terminateSession",
+    "getWindowInfo",
+    "pageQuery",
+    "scrape",
+    "paginatedExtraction",
+    // pageQuery over many URLs, each in a window it opens and closes itself
+    "batchQuery",
+  ],
+} as const satisfies Record<string, readonly string[] | undefined>;
+
+export type ToolPreset = keyof typeof TOOL_PRESETS;
+
+export const TOOL_PRESET_NAMES = Object.keys(TOOL_PRESETS) as [
+  ToolPreset,
+  ...ToolPreset[],
+];
+
+export interface ToolFilterOptions {
+  preset?: ToolPreset;
+  // Only these tools, within the preset
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * Decide which tools to register: a tool must be in the preset and the
+ * allowlist (when given), and not in the denylist.
+ */
+export function createToolFilter({
+  preset = "all",
+  allow,
+  deny = [],
+}: ToolFilterOptions = {}) {
+  const presetTools: readonly string[] | undefined = TOOL_PRESETS[preset];
+  return (name: string) =>
+    (!presetTools || presetTools.includes(name)) &&
+    (!allow || allow.includes(name)) &&
+    !deny.includes(name);
+}
+
+// Allowlist and denylist entries that don't name any tool, likely typos
+export function unknownToolNames(
+  { allow = [], deny = [] }: ToolFilterOptions,
+  toolNames: string[],
+) {
+  return [...allow, ...deny].filter((name) => !toolNames.includes(name));
+}
@@ -0,0 +1,149 @@
+import {
+  McpServer,
+  RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+export type ToolArgs = Record<string, unknown>;
+
+export interface ToolCall {
+  name: string;
+  args: ToolArgs;
+  extra: ToolExtra;
+}
+
+/**
+ * Runs around every tool call. Call next() to continue to the next
+ * middleware and finally the tool itself.
+ */
+export type ToolMiddleware = (
+  call: ToolCall,
+  next: () => Promise<CallToolResult>,
+) => Promise<CallToolResult>;
+
+type AnyToolCallback = (...callbackArgs: unknown[]) => unknown;
+
+/**
+ * Routes every tool registered on a server through a shared middleware chain,
+ * and lets server-side features invoke registered tools by name.
+ *
+ * Must be created before any tool is registered: it wraps the server's
+ * tool() and registerTool() so that later registrations are captured.
+ * Tools that isEnabled rejects are removed again as soon as they register.
+ */
+export class ToolPipeline {
+  private middleware: ToolMiddleware[] = [];
+  private tools = new Map<string, RegisteredTool>();
+  private disabled = new Set<string>();
+
+  constructor(
+    server: McpServer,
+    private readonly isEnabled: (name: string) => boolean = () => true,
+  ) {
+    const tool = server.tool.bind(server) as (
+      ...toolArgs: unknown[]
+    ) => RegisteredTool;
+    server.tool = ((...toolArgs: unknown[]) => {
+      const name = toolArgs[0] as string;
+      const callback = toolArgs.pop() as AnyToolCallback;
+      return this.track(name, tool(...toolArgs, this.wrap(name, callback)));
+    }) as McpServer["tool"];
+
+    const registerTool = server.registerTool.bind(server) as (
+      ...toolArgs: unknown[]
+    ) => RegisteredTool;
+    server.registerTool = ((
+      name: string,
+      config: unknown,
+      callback: AnyToolCallback,
+    ) =>
+      this.track(
+        name,
+        registerTool(name, config, this.wrap(name, callback)),
+      )) as McpServer["registerTool"];
+  }
+
+  use(middleware: ToolMiddleware) {
+    this.middleware.push(middleware);
+  }
+
+  has(name: string) {
+    return this.tools.has(name);
+  }
+
+  get toolNames() {
+    return [...this.tools.keys()];
+  }
+
+  // Tools that were registered but filtered out
+  get disabledToolNames() {
+    return [...this.disabled];
+  }
+
+  /**
+   * Call a registered tool from inside the server, validating its arguments
+   * the same way a client call would.
+   */
+  async invoke(
+    name: string,
+    args: ToolArgs,
+    extra: ToolExtra,
+  ): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool || !tool.enabled) {
+      return {
+        content: [{ type: "text", text: `Tool ${name} not found` }],
+        isError: true,
+      };
+    }
+    const callback = tool.callback as AnyToolCallback;
+    if (!tool.inputSchema) {
+      return (await callback(extra)) as CallToolResult;
+    }
+    const parsed = await tool.inputSchema.safeParseAsync(args);
+    if (!parsed.success) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Invalid arguments for tool ${name}: ${parsed.error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+    return (await callback(parsed.data, extra)) as CallToolResult;
+  }
+
+  private track(name: string, tool: RegisteredTool) {
+    if (this.isEnabled(name)) {
+      this.tools.set(name, tool);
+    } else {
+      tool.remove();
+      this.disabled.add(name);
+    }
+    return tool;
+  }
+
+  // Tools with an input schema are called with (args, extra), others with (extra)
+  private wrap(name: string, callback: AnyToolCallback): AnyToolCallback {
+    return (...callbackArgs: unknown[]) => {
+      const extra = callbackArgs[callbackArgs.length - 1] as ToolExtra;
+      const args = callbackArgs.length > 1 ? (callbackArgs[0] as ToolArgs) : {};
+      const run = (index: number): Promise<CallToolResult> => {
+        const middleware = this.middleware[index];
+        if (!middleware) {
+          return Promise.resolve(callback(...callbackArgs) as CallToolResult);
+        }
+        return middleware({ name, args, extra }, () => run(index + 1));
+      };
+      return run(0);
+    };
+  }
+}
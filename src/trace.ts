@@ -0,0 +1,446 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { ToolArgs, ToolMiddleware, ToolPipeline } from "./tool-pipeline.js";
+
+export const DEFAULT_TRACE_DIR = "traces";
+
+// Tools whose result `id` is a new session rather than some other object
+const SESSION_CREATING_TOOLS = new Set([
+  "createSession",
+  "createSessionWithOptions",
+]);
+
+// Tools that are never recorded or replayed as trace steps
+const UNTRACED_TOOLS = new Set(["replayTrace"]);
+
+type VariableKind = "session" | "window";
+
+// A single recorded tool call, with session and window IDs replaced by {{variables}}
+export interface TraceStep {
+  step: number;
+  tool: string;
+  args: ToolArgs;
+  // Variables first produced by this step, e.g. ["session1"]
+  bindings: string[];
+  result: {
+    isError: boolean;
+    content: unknown[];
+    structuredContent?: unknown;
+  };
+  durationMs: number;
+  recordedAt: string;
+}
+
+export interface ReplayStepReport {
+  step: number;
+  tool: string;
+  status: "ok" | "skipped" | "diverged";
+  reason?: string;
+}
+
+export interface ReplayReport {
+  traceFile: string;
+  completed: boolean;
+  divergedAt?: number;
+  variables: Record<string, string>;
+  steps: ReplayStepReport[];
+}
+
+export interface ReplayOptions {
+  // Run against this existing session instead of creating one
+  sessionId?: string;
+  stopOnDivergence?: boolean;
+  // Also require each step's text output to match the recording
+  compareOutput?: boolean;
+}
+
+/**
+ * Maps concrete session and window IDs to stable variable names so a trace
+ * can be replayed against different sessions.
+ */
+class TraceVariables {
+  private values = new Map<string, string>();
+  private names = new Map<string, string>();
+  private counters: Record<VariableKind, number> = { session: 0, window: 0 };
+
+  // Name a newly seen ID, returning undefined for IDs already bound
+  bind(kind: VariableKind, value: string) {
+    if (this.names.has(value)) {
+      return undefined;
+    }
+    const name = `${kind}${++this.counters[kind]}`;
+    this.set(name, value);
+    return name;
+  }
+
+  set(name: string, value: string) {
+    this.values.set(name, value);
+    this.names.set(value, name);
+  }
+
+  has(name: string) {
+    return this.values.has(name);
+  }
+
+  isBound(value: string) {
+    return this.names.has(value);
+  }
+
+  // Replace concrete IDs with {{variable}} placeholders
+  abstract<T>(value: T): T {
+    // Longest first, in case one ID contains another
+    const ids = [...this.names].sort(([a], [b]) => b.length - a.length);
+    return mapStrings(value, (text) => {
+      let result = text;
+      for (const [id, name] of ids) {
+        result = result.split(id).join(`{{${name}}}`);
+      }
+      return result;
+    });
+  }
+
+  // Replace {{variable}} placeholders with the IDs bound in this run
+  resolve<T>(value: T): T {
+    return mapStrings(value, (text) =>
+      text.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => {
+        return this.values.get(name) ?? placeholder;
+      }),
+    );
+  }
+
+  toJSON() {
+    return Object.fromEntries(this.values);
+  }
+}
+
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === "string") {
+    return map(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item: unknown) => mapStrings(item, map)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]),
+    ) as T;
+  }
+  return value;
+}
+
+// Session and window IDs a tool result introduces, in order
+function extractIds(tool: string, result: CallToolResult) {
+  const ids: { kind: VariableKind; value: string }[] = [];
+  for (const item of result.content ?? []) {
+    if (item.type !== "text") {
+      continue;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(item.text);
+    } catch {
+      continue;
+    }
+    if (!parsed || typeof parsed !== "object") {
+      continue;
+    }
+    const record = parsed as Record<string, unknown>;
+    if (SESSION_CREATING_TOOLS.has(tool) && typeof record.id === "string") {
+      ids.push({ kind: "session", value: record.id });
+    }
+    if (typeof record.sessionId === "string") {
+      ids.push({ kind: "session", value: record.sessionId });
+    }
+    if (typeof record.windowId === "string") {
+      ids.push({ kind: "window", value: record.windowId });
+    }
+  }
+  return ids;
+}
+
+// Keep traces small and readable: images are recorded without their data
+function summarizeResult(result: CallToolResult): TraceStep["result"] {
+  return {
+    isError: !!result.isError,
+    content: (result.content ?? []).map((item) =>
+      item.type === "image" || item.type === "audio"
+        ? { type: item.type, mimeType: item.mimeType }
+        : item,
+    ),
+    ...(result.structuredContent && {
+      structuredContent: result.structuredContent,
+    }),
+  };
+}
+
+function resultText(result: TraceStep["result"]) {
+  return result.content
+    .map((item) =>
+      item && typeof item === "object" && "text" in item
+        ? String(item.text)
+        : "",
+    )
+    .join("\n");
+}
+
+/**
+ * Appends every tool call made through a server to a JSONL trace file.
+ */
+export class TraceRecorder {
+  readonly file: string;
+  private variables = new TraceVariables();
+  private step = 0;
+  private writes: Promise<void> = Promise.resolve();
+
+  // redact removes secrets from recorded arguments and results
+  constructor(
+    dir: string,
+    private redact: <T>(value: T) => T = (value) => value,
+  ) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    this.file = path.resolve(
+      dir,
+      `trace-${stamp}-${randomUUID().slice(0, 8)}.jsonl`,
+    );
+  }
+
+  middleware: ToolMiddleware = async ({ name, args }, next) => {
+    if (UNTRACED_TOOLS.has(name)) {
+      return next();
+    }
+    const step = ++this.step;
+    const recordedArgs = this.variables.abstract(this.redact(args));
+    const startedAt = Date.now();
+    const result = await next();
+    const bindings = result.isError
+      ? []
+      : extractIds(name, result).flatMap(
+          ({ kind, value }) => this.variables.bind(kind, value) ?? [],
+        );
+    this.write({
+      step,
+      tool: name,
+      args: recordedArgs,
+      bindings,
+      result: this.variables.abstract(this.redact(summarizeResult(result))),
+      durationMs: Date.now() - startedAt,
+      recordedAt: new Date(startedAt).toISOString(),
+    });
+    return result;
+  };
+
+  private write(step: TraceStep) {
+    this.writes = this.writes
+      .then(async () => {
+        await mkdir(path.dirname(this.file), { recursive: true });
+        await appendFile(this.file, `${JSON.stringify(step)}\n`);
+      })
+      .catch((error) => {
+        console.warn(`Failed to write trace ${this.file}: ${String(error)}`);
+      });
+  }
+}
+
+export async function readTrace(file: string): Promise<TraceStep[]> {
+  const text = await readFile(file, "utf8");
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as TraceStep;
+      } catch {
+        throw new Error(`Invalid trace line ${index + 1} in ${file}`);
+      }
+    });
+}
+
+/**
+ * Re-run recorded steps, binding the trace's variables to the sessions and
+ * windows created in this run, and report the first step that diverged.
+ */
+export async function replayTrace(
+  traceFile: string,
+  steps: TraceStep[],
+  invoke: (name: string, args: ToolArgs) => Promise<CallToolResult>,
+  options: ReplayOptions = {},
+): Promise<ReplayReport> {
+  const { sessionId, stopOnDivergence = true, compareOutput = false } = options;
+  const variables = new TraceVariables();
+  if (sessionId) {
+    variables.set("session1", sessionId);
+  }
+  const report: ReplayReport = {
+    traceFile,
+    completed: true,
+    variables: {},
+    steps: [],
+  };
+
+  for (const recorded of steps) {
+    if (UNTRACED_TOOLS.has(recorded.tool)) {
+      continue;
+    }
+    // The recorded step only created a variable we were given up front
+    if (
+      recorded.bindings.length &&
+      recorded.bindings.every((name) => variables.has(name))
+    ) {
+      report.steps.push({
+        step: recorded.step,
+        tool: recorded.tool,
+        status: "skipped",
+      });
+      continue;
+    }
+
+    const result = await invoke(
+      recorded.tool,
+      variables.resolve(recorded.args),
+    );
+    // Bind the IDs this run produced to the variables the recording produced
+    const ids = result.isError
+      ? []
+      : extractIds(recorded.tool, result).filter(
+          ({ value }) => !variables.isBound(value),
+        );
+    const unbound = recorded.bindings.filter((name) => {
+      const index = ids.findIndex(({ kind }) => name.startsWith(kind));
+      if (index === -1) {
+        return true;
+      }
+      variables.set(name, ids.splice(index, 1)[0].value);
+      return false;
+    });
+
+    const actual = variables.abstract(summarizeResult(result));
+    const reason =
+      actual.isError !== recorded.result.isError
+        ? actual.isError
+          ? `Step failed but succeeded when recorded: ${resultText(actual)}`
+          : "Step succeeded but failed when recorded"
+        : unbound.length
+          ? `Step did not produce ${unbound.join(", ")}`
+          : compareOutput && resultText(actual) !== resultText(recorded.result)
+            ? `Output differs from recording: ${resultText(actual)}`
+            : undefined;
+
+    report.steps.push({
+      step: recorded.step,
+      tool: recorded.tool,
+      status: reason ? "diverged" : "ok",
+      ...(reason && { reason }),
+    });
+    if (reason && report.divergedAt === undefined) {
+      report.divergedAt = recorded.step;
+      if (stopOnDivergence) {
+        report.completed = false;
+        break;
+      }
+    }
+  }
+
+  report.variables = variables.toJSON();
+  return report;
+}
+
+/**
+ * Register the replayTrace tool, which replays trace files from traceDir.
+ */
+export function registerTraceTools(
+  server: McpServer,
+  toolPipeline: ToolPipeline,
+  traceDir: string,
+) {
+  server.tool(
+    "replayTrace",
+    "Replay a recorded tool-call trace against a new (or given) session and report which step diverged",
+    {
+      traceFile: z
+        .string()
+        .describe(`Trace file name, relative to the trace directory`),
+      sessionId: z
+        .string()
+        .optional()
+        .describe(
+          "Existing session to replay against instead of creating a new one",
+        ),
+      stopOnDivergence: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Stop at the first diverging step (default: true)"),
+      compareOutput: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          "Also require each step's text output to match the recording (default: false)",
+        ),
+    },
+    async (
+      {
+        traceFile,
+        sessionId,
+        stopOnDivergence,
+        compareOutput,
+      }: {
+        traceFile: string;
+        sessionId?: string;
+        stopOnDivergence?: boolean;
+        compareOutput?: boolean;
+      },
+      extra,
+    ) => {
+      console.warn("replayTrace request", traceFile);
+      const root = path.resolve(traceDir);
+      const file = path.resolve(root, traceFile);
+      if (!file.startsWith(root + path.sep)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Trace file must be inside the trace directory ${root}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      let steps: TraceStep[];
+      try {
+        steps = await readTrace(file);
+      } catch (err) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Failed to read trace ${traceFile}: ${String(err)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const report = await replayTrace(
+        traceFile,
+        steps,
+        (name, args) => toolPipeline.invoke(name, args, extra),
+        { sessionId, stopOnDivergence, compareOutput },
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(report),
+          },
+        ],
+        isError: report.divergedAt !== undefined,
+      };
+    },
+  );
+}
@@ -0,0 +1,355 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { BrowserBackend } from "./backend.js";
+import { DEFAULT_SESSION_TIMEOUT_MINUTES } from "./config.js";
+
+const USAGE_URI = "airtop://usage";
+
+// Every window operation, so a new one can't be left unmetered
+const WINDOW_METHODS: Record<keyof BrowserBackend["windows"], true> = {
+  create: true,
+  list: true,
+  close: true,
+  getWindowInfo: true,
+  loadUrl: true,
+  pageQuery: true,
+  paginatedExtraction: true,
+  click: true,
+  hover: true,
+  type: true,
+  scroll: true,
+  scrapeContent: true,
+  screenshot: true,
+  monitor: true,
+  uploadFileAndSelectInput: true,
+};
+
+// Window operations that run an AI model over the page. Every operation's
+// reported credits count, whether or not it is on this list.
+const AI_METHODS = new Set<string>([
+  "pageQuery",
+  "paginatedExtraction",
+  "monitor",
+  "click",
+  "hover",
+  "type",
+]);
+
+// Whether a window call runs a model: requests that give the coordinates to
+// act at don't need one to find the element
+function isAiCall(method: string, request: unknown) {
+  return (
+    AI_METHODS.has(method) &&
+    !(request as { coordinate?: unknown } | undefined)?.coordinate
+  );
+}
+
+/**
+ * Limits on Airtop usage. Server budgets span every client of the process
+ * since it started, session budgets each session on its own.
+ */
+export interface Budgets {
+  credits?: number;
+  aiCalls?: number;
+  sessionMinutes?: number;
+  sessionCredits?: number;
+  sessionAiCalls?: number;
+}
+
+export class BudgetExceededError extends Error {}
+
+interface SessionUsage {
+  sessionId: string;
+  startedAt: number;
+  // Airtop ends the session after this long, whether or not it is terminated
+  timeoutMinutes: number;
+  aiCalls: number;
+  credits: number;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Tracks session time, AI calls and credits across every client using one
+ * Airtop API key, and refuses new sessions and AI calls once a budget is
+ * used up.
+ */
+export class UsageTracker {
+  private sessions = new Map<string, SessionUsage>();
+  // Totals of sessions that have ended, which are no longer kept
+  private ended = { sessions: 0, minutes: 0, aiCalls: 0, credits: 0 };
+
+  constructor(
+    readonly budgets: Budgets = {},
+    private readonly now = () => Date.now(),
+  ) {}
+
+  sessionStarted(
+    sessionId: string,
+    timeoutMinutes = DEFAULT_SESSION_TIMEOUT_MINUTES,
+  ) {
+    this.session(sessionId).timeoutMinutes = timeoutMinutes;
+  }
+
+  sessionEnded(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+    this.ended.sessions++;
+    this.ended.minutes += this.minutes(session);
+    this.ended.aiCalls += session.aiCalls;
+    this.ended.credits += session.credits;
+  }
+
+  // Failed calls only count towards sessions already tracked, since the
+  // session they name may not exist
+  recordCall(sessionId: string, ai: boolean, credits = 0, failed = false) {
+    const session = failed
+      ? this.sessions.get(sessionId)
+      : this.session(sessionId);
+    if (!session) {
+      return;
+    }
+    if (ai) {
+      session.aiCalls++;
+    }
+    session.credits += credits;
+  }
+
+  // Throws when a server budget leaves no room for another session
+  checkNewSession() {
+    const exceeded = this.serverBudgetExceeded();
+    if (exceeded) {
+      throw new BudgetExceededError(
+        `Usage budget reached (${exceeded}), no new sessions can be created`,
+      );
+    }
+  }
+
+  // Throws when the server's or the session's budget is used up
+  checkAiCall(sessionId: string) {
+    const { sessionCredits, sessionAiCalls } = this.budgets;
+    const session = this.sessions.get(sessionId);
+    const exceeded =
+      this.serverBudgetExceeded() ??
+      (session &&
+        (reached("sessionCredits", session.credits, sessionCredits) ??
+          reached("sessionAiCalls", session.aiCalls, sessionAiCalls)));
+    if (exceeded) {
+      throw new BudgetExceededError(
+        `Usage budget reached (${exceeded}), no more AI calls can be made in session ${sessionId}`,
+      );
+    }
+  }
+
+  totals() {
+    const open = [...this.sessions.values()];
+    const sum = (value: (session: SessionUsage) => number) =>
+      open.reduce((total, session) => total + value(session), 0);
+    return {
+      sessions: this.ended.sessions + open.length,
+      openSessions: open.length,
+      sessionMinutes: this.ended.minutes + sum((s) => this.minutes(s)),
+      aiCalls: this.ended.aiCalls + sum((s) => s.aiCalls),
+      credits: this.ended.credits + sum((s) => s.credits),
+    };
+  }
+
+  report() {
+    return {
+      totals: roundMinutes(this.totals()),
+      budgets: this.budgets,
+      sessions: [...this.sessions.values()].map((session) => ({
+        sessionId: session.sessionId,
+        startedAt: new Date(session.startedAt).toISOString(),
+        minutes: Math.round(this.minutes(session) * 100) / 100,
+        aiCalls: session.aiCalls,
+        credits: session.credits,
+      })),
+    };
+  }
+
+  private serverBudgetExceeded() {
+    const { credits, aiCalls, sessionMinutes } = this.budgets;
+    const totals = this.totals();
+    return (
+      reached("credits", totals.credits, credits) ??
+      reached("aiCalls", totals.aiCalls, aiCalls) ??
+      reached("sessionMinutes", totals.sessionMinutes, sessionMinutes)
+    );
+  }
+
+  // Sessions created outside this server are adopted on first use
+  private session(sessionId: string) {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = {
+        sessionId,
+        startedAt: this.now(),
+        timeoutMinutes: DEFAULT_SESSION_TIMEOUT_MINUTES,
+        aiCalls: 0,
+        credits: 0,
+      };
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  // Capped at the session's timeout, for sessions Airtop ended on its own
+  private minutes(session: SessionUsage) {
+    return Math.min(
+      (this.now() - session.startedAt) / MS_PER_MINUTE,
+      session.timeoutMinutes,
+    );
+  }
+}
+
+/**
+ * A UsageTracker for each Airtop API key, so clients sending keys of their
+ * own each get the budgets rather than sharing the server's.
+ */
+export class UsageTrackers {
+  private trackers = new Map<string, UsageTracker>();
+
+  constructor(
+    readonly budgets: Budgets = {},
+    private readonly now = () => Date.now(),
+  ) {}
+
+  forKey(apiKey: string) {
+    let tracker = this.trackers.get(apiKey);
+    if (!tracker) {
+      tracker = new UsageTracker(this.budgets, this.now);
+      this.trackers.set(apiKey, tracker);
+    }
+    return tracker;
+  }
+}
+
+function reached(name: string, used: number, budget?: number) {
+  return budget !== undefined && used >= budget
+    ? `${name}: ${Math.round(used * 100) / 100} of ${budget}`
+    : undefined;
+}
+
+function roundMinutes<T extends { sessionMinutes: number }>(totals: T) {
+  return {
+    ...totals,
+    sessionMinutes: Math.round(totals.sessionMinutes * 100) / 100,
+  };
+}
+
+function creditsOf(response: unknown) {
+  const credits = (response as { meta?: { usage?: { credits?: unknown } } })
+    ?.meta?.usage?.credits;
+  return typeof credits === "number" ? credits : 0;
+}
+
+/**
+ * Wrap a backend so every session and window call is accounted for in the
+ * tracker, and calls over budget fail before they reach Airtop.
+ */
+export function meterBackend(
+  backend: BrowserBackend,
+  usage: UsageTracker,
+): BrowserBackend {
+  const { sessions } = backend;
+  const windows = Object.fromEntries(
+    Object.keys(WINDOW_METHODS).map((method) => {
+      const call = (
+        backend.windows[method as keyof BrowserBackend["windows"]] as (
+          ...args: unknown[]
+        ) => Promise<unknown>
+      ).bind(backend.windows);
+      return [
+        method,
+        async (sessionId: string, ...args: unknown[]) => {
+          // AI calls take the window ID, then the request
+          const ai = isAiCall(method, args[1]);
+          if (ai) {
+            usage.checkAiCall(sessionId);
+          }
+          const response = await call(sessionId, ...args);
+          usage.recordCall(
+            sessionId,
+            ai,
+            creditsOf(response),
+            !!(response as { errors?: unknown[] } | undefined)?.errors?.length,
+          );
+          return response;
+        },
+      ];
+    }),
+  ) as unknown as BrowserBackend["windows"];
+
+  return {
+    sessions: {
+      create: async (...args) => {
+        usage.checkNewSession();
+        const session = await sessions.create(...args);
+        if (!session.errors && session.data?.id) {
+          usage.sessionStarted(
+            session.data.id,
+            args[0]?.configuration?.timeoutMinutes,
+          );
+        }
+        return session;
+      },
+      terminate: async (sessionId, ...args) => {
+        try {
+          return await sessions.terminate(sessionId, ...args);
+        } finally {
+          usage.sessionEnded(sessionId);
+        }
+      },
+      getInfo: (...args) => sessions.getInfo(...args),
+      saveProfileOnTermination: (...args) =>
+        sessions.saveProfileOnTermination(...args),
+    },
+    windows,
+    profiles: backend.profiles,
+    files: backend.files,
+    input: backend.input,
+  };
+}
+
+/**
+ * Register the getUsage tool and the usage resource, which report usage
+ * totals, budgets and each open session's usage.
+ */
+export function registerUsageTools(server: McpServer, usage: UsageTracker) {
+  server.tool(
+    "getUsage",
+    "Get Airtop usage so far: session minutes, AI calls and credits, in total and per open session, with any budgets that limit them",
+    () => {
+      console.warn("getUsage request");
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(usage.report()),
+          },
+        ],
+      };
+    },
+  );
+
+  server.resource(
+    "usage",
+    USAGE_URI,
+    {
+      description: "Airtop usage and budgets for this server",
+      mimeType: "application/json",
+    },
+    (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(usage.report()),
+        },
+      ],
+    }),
+  );
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { describe, it } from "node:test";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { createTokenVerifier } from "../src/auth.js";
+
+const SECRET = "jwt-secret";
+
+function encode(value: unknown) {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+// Sign a JWT the way an identity provider sharing the secret would
+function signJwt(
+  payload: unknown,
+  { secret = SECRET, header = { alg: "HS256", typ: "JWT" } as unknown } = {},
+) {
+  const unsigned = `${encode(header)}.${encode(payload)}`;
+  const signature = createHmac("sha256", secret)
+    .update(unsigned)
+    .digest("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("auth", () => {
+  const verifier = createTokenVerifier({
+    tokens: ["first-token", "second-token"],
+    jwtSecret: SECRET,
+  })!;
+
+  async function rejects(token: string, message: RegExp) {
+    await assert.rejects(
+      async () => verifier.verifyAccessToken(token),
+      (error: Error) =>
+        error instanceof InvalidTokenError && message.test(error.message),
+    );
+  }
+
+  it("is off when no tokens or JWT secret are configured", () => {
+    assert.equal(createTokenVerifier({}), undefined);
+    assert.equal(createTokenVerifier({ tokens: [] }), undefined);
+  });
+
+  it("accepts the static tokens, each as its own client", async () => {
+    const info = await verifier.verifyAccessToken("second-token");
+    assert.equal(info.clientId, "token-2");
+    assert.equal(info.token, "second-token");
+  });
+
+  it("rejects a token it doesn't know", async () => {
+    await rejects("third-token", /Invalid bearer token/);
+  });
+
+  it("accepts HS256 JWTs signed with the secret", async () => {
+    const exp = now() + 60;
+    const token = signJwt({ sub: "agent-7", scope: "read write", exp });
+    assert.deepEqual(await verifier.verifyAccessToken(token), {
+      token,
+      clientId: "agent-7",
+      scopes: ["read", "write"],
+      expiresAt: exp,
+    });
+  });
+
+  it("rejects JWTs with a bad signature or another algorithm", async () => {
+    await rejects(
+      signJwt({ sub: "agent-7" }, { secret: "wrong" }),
+      /Invalid JWT signature/,
+    );
+    await rejects(
+      signJwt({ sub: "agent-7" }, { header: { alg: "none" } }),
+      /Unsupported JWT algorithm/,
+    );
+  });
+
+  it("rejects expired JWTs and ones not valid yet", async () => {
+    await rejects(signJwt({ sub: "agent-7", exp: now() - 1 }), /expired/);
+    await rejects(
+      signJwt({ sub: "agent-7", nbf: now() + 60 }),
+      /not yet valid/,
+    );
+  });
+
+  it("rejects malformed JWTs as invalid tokens", async () => {
+    await rejects("not.a.jwt", /Malformed JWT/);
+    // Valid JSON, but not an object
+    await rejects(signJwt({ sub: "agent-7" }, { header: null }), /Malformed/);
+    await rejects(signJwt(42), /Malformed JWT/);
+  });
+});
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { UrlResult } from "../src/batch-query.js";
+import { connectTestClient, jsonOf, openWindow } from "./helpers.js";
+
+interface BatchReport {
+  succeeded: number;
+  failed: number;
+  results: UrlResult[];
+}
+
+const URLS = [
+  "https://example.com/a",
+  "https://example.com/b",
+  "https://example.com/c",
+];
+
+const titleSchema = {
+  type: "object",
+  properties: { title: { type: "string" } },
+  required: ["title"],
+};
+
+describe("batchQuery", () => {
+  it("queries every URL in its own window and cleans up after", async () => {
+    const harness = await connectTestClient();
+    for (const title of ["A", "B", "C"]) {
+      harness.backend.respondNext(
+        "windows.pageQuery",
+        JSON.stringify({ title }),
+      );
+    }
+
+    const result = await harness.callTool("batchQuery", {
+      urls: URLS,
+      prompt: "What is the page title?",
+      outputSchema: titleSchema,
+      concurrency: 2,
+    });
+    const report = jsonOf<BatchReport>(result);
+    assert.equal(result.isError, false);
+    assert.equal(report.succeeded, 3);
+    assert.deepEqual(
+      report.results.map(({ url, status }) => ({ url, status })),
+      URLS.map((url) => ({ url, status: "ok" })),
+    );
+    // Pages are queried in parallel, so answers may come back in any order
+    assert.deepEqual(
+      report.results
+        .map(({ result }) => (result as { title: string }).title)
+        .sort(),
+      ["A", "B", "C"],
+    );
+    assert.deepEqual(
+      harness.backend
+        .callsTo("windows.create")
+        .map(({ request }) => (request as { url: string }).url),
+      URLS,
+    );
+    assert.equal(harness.backend.callsTo("windows.close").length, 3);
+    // The batch's own session is terminated once it is done
+    assert.equal(harness.backend.callsTo("sessions.create").length, 1);
+    assert.equal(harness.backend.sessionsById.size, 0);
+    await harness.close();
+  });
+
+  it("reports failures for individual URLs", async () => {
+    const harness = await connectTestClient();
+    harness.backend.failNext("windows.create", [{ message: "Page not found" }]);
+    harness.backend.respondNext("windows.pageQuery", "not JSON");
+    harness.backend.respondNext("windows.pageQuery", '{"title":"C"}');
+
+    const report = jsonOf<BatchReport>(
+      await harness.callTool("batchQuery", {
+        urls: URLS,
+        prompt: "What is the page title?",
+        outputSchema: titleSchema,
+        concurrency: 1,
+      }),
+    );
+    assert.equal(report.succeeded, 1);
+    assert.equal(report.failed, 2);
+    assert.deepEqual(
+      report.results.map(({ status, errorCategory }) => ({
+        status,
+        errorCategory,
+      })),
+      [
+        { status: "error", errorCategory: "not_found" },
+        { status: "error", errorCategory: "validation" },
+        { status: "ok", errorCategory: undefined },
+      ],
+    );
+    assert.deepEqual(report.results[2].result, { title: "C" });
+    await harness.close();
+  });
+
+  it("runs in an existing session and leaves it open", async () => {
+    const harness = await connectTestClient();
+    const { sessionId } = await openWindow(harness);
+
+    const report = jsonOf<BatchReport>(
+      await harness.callTool("batchQuery", {
+        urls: URLS,
+        prompt: "Summarize the page",
+        sessionId,
+      }),
+    );
+    assert.equal(report.succeeded, 3);
+    assert.equal(harness.backend.callsTo("sessions.create").length, 1);
+    // Only the window that was already open is left
+    assert.equal(harness.backend.sessionsById.get(sessionId)?.windows.size, 1);
+    await harness.close();
+  });
+
+  it("rejects an invalid output schema before opening any window", async () => {
+    const harness = await connectTestClient();
+    const result = await harness.callTool("batchQuery", {
+      urls: URLS,
+      prompt: "What is the page title?",
+      outputSchema: "{not json",
+    });
+    assert.deepEqual(result._meta, { errorCategory: "validation" });
+    assert.equal(harness.backend.callsTo("sessions.create").length, 0);
+    await harness.close();
+  });
+});
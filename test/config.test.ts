@@ -0,0 +1,200 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  CONFIG_FILE_NAME,
+  ConfigError,
+  DEFAULT_PROFILES_FILE,
+  loadConfig,
+  parseCli,
+} from "../src/config.js";
+import { connectTestClient, openWindow } from "./helpers.js";
+
+describe("loadConfig", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "airtop-config-"));
+    await writeFile(
+      path.join(dir, CONFIG_FILE_NAME),
+      JSON.stringify({
+        port: 4000,
+        logLevel: "warn",
+        sessionDefaults: { timeoutMinutes: 20, solveCaptcha: true },
+      }),
+    );
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("uses defaults when nothing is configured", async () => {
+    const config = await loadConfig(parseCli([]), {}, tmpdir());
+    assert.deepEqual(config, {
+      host: "127.0.0.1",
+      port: 3456,
+      transport: "stdio",
+      logLevel: "info",
+      monitorTimeoutSeconds: 30,
+      profilesFile: DEFAULT_PROFILES_FILE,
+      sessionDefaults: {},
+      tools: {},
+      files: {},
+      budgets: {},
+      pool: {},
+      auth: {},
+      sessionLimits: {},
+      traces: {},
+    });
+  });
+
+  it("lets env override the file and flags override env", async () => {
+    const config = await loadConfig(
+      parseCli(["--port", "5000", "--listen", "--proxy"]),
+      {
+        AIRTOP_MCP_PORT: "4500",
+        AIRTOP_LOG_LEVEL: "debug",
+        AIRTOP_SESSION_TIMEOUT_MINUTES: "30",
+        AIRTOP_SESSION_EXTENSION_IDS: "abc, def",
+      },
+      dir,
+    );
+    assert.equal(config.port, 5000);
+    assert.equal(config.transport, "http");
+    assert.equal(config.logLevel, "debug");
+    assert.deepEqual(config.sessionDefaults, {
+      timeoutMinutes: 30,
+      solveCaptcha: true,
+      proxy: true,
+      extensionIds: ["abc", "def"],
+    });
+  });
+
+  it("reports invalid values with their source", async () => {
+    await assert.rejects(
+      loadConfig(
+        parseCli([]),
+        { AIRTOP_MCP_PORT: "http", AIRTOP_MCP_TRANSPORT: "pigeon" },
+        dir,
+      ),
+      (error: Error) => {
+        assert.ok(error instanceof ConfigError);
+        assert.match(error.message, /Invalid configuration in environment/);
+        assert.match(error.message, /AIRTOP_MCP_PORT \/ PORT: Expected number/);
+        assert.match(error.message, /AIRTOP_MCP_TRANSPORT: Invalid enum value/);
+        return true;
+      },
+    );
+  });
+
+  it("resolves auth, session limits and traces like other settings", async () => {
+    const file = path.join(dir, "limits.json");
+    await writeFile(
+      file,
+      JSON.stringify({
+        auth: { tokens: ["file-token"], clientApiKeys: true },
+        sessionLimits: { maxSessions: 2, idleTimeoutMinutes: 15 },
+        traces: { dir: "file-traces" },
+      }),
+    );
+    const config = await loadConfig(
+      parseCli(["--config", file, "--max-sessions", "5", "--record-traces"]),
+      {
+        MCP_AUTH_TOKENS: " a, ,b ",
+        MCP_AUTH_JWT_SECRET: "",
+        AIRTOP_MAX_SESSIONS: "3",
+        AIRTOP_TRACE_DIR: "env-traces",
+      },
+      dir,
+    );
+    assert.deepEqual(config.auth, { tokens: ["a", "b"], clientApiKeys: true });
+    assert.deepEqual(config.sessionLimits, {
+      maxSessions: 5,
+      idleTimeoutMinutes: 15,
+    });
+    assert.deepEqual(config.traces, { dir: "env-traces", record: true });
+
+    await assert.rejects(
+      loadConfig(
+        parseCli([]),
+        { AIRTOP_SESSION_IDLE_MINUTES: "-5", AIRTOP_RECORD_TRACES: "yes" },
+        dir,
+      ),
+      (error: Error) => {
+        assert.match(
+          error.message,
+          /AIRTOP_SESSION_IDLE_MINUTES: Number must be greater than 0/,
+        );
+        assert.match(error.message, /AIRTOP_RECORD_TRACES: Expected boolean/);
+        return true;
+      },
+    );
+  });
+
+  it("rejects unknown keys in the config file", async () => {
+    const file = path.join(dir, "typo.json");
+    await writeFile(file, JSON.stringify({ prot: 1 }));
+    await assert.rejects(
+      loadConfig(parseCli(["--config", file]), {}, dir),
+      /Invalid configuration in .*typo\.json:\n {2}- Unrecognized key\(s\) in object: 'prot'/,
+    );
+  });
+
+  it("requires an explicitly named config file to exist", async () => {
+    await assert.rejects(
+      loadConfig(parseCli([]), { AIRTOP_MCP_CONFIG: "missing.json" }, dir),
+      /Cannot read config file/,
+    );
+  });
+
+  it("maps --read-only to the read-only tool preset", async () => {
+    const config = await loadConfig(
+      parseCli(["--read-only", "--deny-tools", "scrape,screenshot"]),
+      { AIRTOP_ALLOW_TOOLS: "pageQuery" },
+      tmpdir(),
+    );
+    assert.deepEqual(config.tools, {
+      preset: "read-only",
+      allow: ["pageQuery"],
+      deny: ["scrape", "screenshot"],
+    });
+  });
+
+  it("rejects unknown flags", () => {
+    assert.throws(() => parseCli(["--prot", "1"]), ConfigError);
+  });
+});
+
+describe("configured defaults", () => {
+  it("applies session defaults and the monitor timeout", async () => {
+    const harness = await connectTestClient({
+      sessionDefaults: { timeoutMinutes: 20, solveCaptcha: true },
+      monitorTimeoutSeconds: 90,
+    });
+    const { sessionId, windowId } = await openWindow(harness);
+    await harness.callTool("createSessionWithOptions", {
+      configuration: { timeoutMinutes: 5 },
+    });
+    await harness.callTool("monitorForCondition", {
+      sessionId,
+      windowId,
+      condition: "page loaded",
+    });
+    await harness.close();
+
+    assert.deepEqual(
+      harness.backend.callsTo("sessions.create").map((call) => call.request),
+      [
+        { configuration: { timeoutMinutes: 20, solveCaptcha: true } },
+        { configuration: { timeoutMinutes: 5, solveCaptcha: true } },
+      ],
+    );
+    assert.deepEqual(harness.backend.callsTo("windows.monitor")[0].request, {
+      condition: "page loaded",
+      timeThresholdSeconds: 90,
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore } from "../src/event-store.js";
+
+function notification(n: number): JSONRPCMessage {
+  return { jsonrpc: "2.0", method: "notifications/message", params: { n } };
+}
+
+async function replay(store: InMemoryEventStore, lastEventId: string) {
+  const sent: [string, JSONRPCMessage][] = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: (eventId, message) => {
+      sent.push([eventId, message]);
+      return Promise.resolve();
+    },
+  });
+  return { streamId, sent };
+}
+
+describe("event store", () => {
+  it("replays the events after the last one seen on the same stream", async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent("a", notification(1));
+    await store.storeEvent("b", notification(2));
+    const third = await store.storeEvent("a", notification(3));
+    const fourth = await store.storeEvent("a", notification(4));
+
+    assert.deepEqual(await replay(store, first), {
+      streamId: "a",
+      sent: [
+        [third, notification(3)],
+        [fourth, notification(4)],
+      ],
+    });
+    assert.deepEqual(await replay(store, fourth), { streamId: "a", sent: [] });
+  });
+
+  it("replays nothing for an unknown event ID", async () => {
+    const store = new InMemoryEventStore();
+    await store.storeEvent("a", notification(1));
+    assert.deepEqual(await replay(store, "a_unknown"), {
+      streamId: "",
+      sent: [],
+    });
+  });
+
+  it("only keeps the latest 500 events of a stream", async () => {
+    const store = new InMemoryEventStore();
+    const oldest = await store.storeEvent("a", notification(0));
+    const next = await store.storeEvent("a", notification(1));
+    for (let n = 2; n <= 500; n++) {
+      await store.storeEvent("a", notification(n));
+    }
+    assert.equal((await replay(store, oldest)).streamId, "");
+    assert.equal((await replay(store, next)).sent.length, 499);
+  });
+});
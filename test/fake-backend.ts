@@ -0,0 +1,745 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { AirtopError } from "@airtop/sdk";
+import {
+  AiPromptResponse,
+  ExternalFile,
+  ExternalSessionAiResponseMetadata,
+  Issue,
+} from "@airtop/sdk/api/index.js";
+import { BrowserBackend, PageInput, Point } from "../src/backend.js";
+
+// Viewports the fake page is tall, for scrolling and full page screenshots
+const FAKE_PAGE_VIEWPORTS = 3;
+
+export type FakeMethod =
+  | `sessions.${keyof BrowserBackend["sessions"]}`
+  | `windows.${keyof BrowserBackend["windows"]}`
+  | `profiles.${keyof BrowserBackend["profiles"]}`
+  | `files.${keyof BrowserBackend["files"]}`
+  | `input.${keyof PageInput}`;
+
+// The part of Airtop's per-request options the fake honors
+interface FakeRequestOptions {
+  abortSignal?: AbortSignal;
+}
+
+// An injected failure: Airtop errors in the response envelope, or a thrown error
+export type FakeFailure = Issue[] | Error;
+
+export interface FakeCall {
+  method: FakeMethod;
+  sessionId?: string;
+  windowId?: string;
+  request?: unknown;
+}
+
+interface FakeWindow {
+  windowId: string;
+  url: string;
+  scrollViewport: number;
+  // Where hovered elements sit, by description
+  elements: Map<string, Point>;
+  pointer?: Point;
+  // Option chosen in each dropdown, by description
+  selections: Map<string, string>;
+  drags: { from?: string; to?: string }[];
+}
+
+// A file the browser downloaded, as Airtop lists it, with its contents
+interface FakeFile {
+  file: ExternalFile;
+  content: Buffer;
+}
+
+interface FakeSession {
+  id: string;
+  profileName?: string;
+  saveProfileAs?: string;
+  windows: Map<string, FakeWindow>;
+}
+
+/**
+ * Deterministic in-memory stand-in for Airtop, so tools can be exercised
+ * without a live account. IDs are sequential, every call is recorded, and
+ * failures or model responses can be queued per method.
+ */
+export class FakeBrowserBackend implements BrowserBackend {
+  readonly calls: FakeCall[] = [];
+  readonly sessionsById = new Map<string, FakeSession>();
+  readonly terminatedSessions: FakeSession[] = [];
+  readonly deletedProfiles: string[] = [];
+  // Calls aborted through their request options while in flight
+  readonly abortedCalls: FakeMethod[] = [];
+  // Native dropdowns on every fake page: option labels by element description
+  readonly selects = new Map<string, string[]>();
+  // Pages that redirect when loaded: where each one ends up, by URL
+  readonly redirects = new Map<string, string>();
+  // Files uploaded to file inputs, read when the upload was made
+  readonly uploads: { fileName: string; content: Buffer }[] = [];
+  private downloads: FakeFile[] = [];
+  private nextId = 1;
+  private failures = new Map<FakeMethod, FakeFailure[]>();
+  private responses = new Map<FakeMethod, string[]>();
+  private delays = new Map<FakeMethod, number[]>();
+
+  // Make the next call to `method` fail
+  failNext(method: FakeMethod, failure: FakeFailure) {
+    this.failures.set(method, [...(this.failures.get(method) ?? []), failure]);
+  }
+
+  // Make the next AI call to `method` take delayMs to answer
+  delayNext(method: FakeMethod, delayMs: number) {
+    this.delays.set(method, [...(this.delays.get(method) ?? []), delayMs]);
+  }
+
+  // Make the next AI call to `method` answer with `modelResponse`
+  respondNext(method: FakeMethod, modelResponse: string) {
+    this.responses.set(method, [
+      ...(this.responses.get(method) ?? []),
+      modelResponse,
+    ]);
+  }
+
+  // Simulate the browser in a session downloading a file
+  addDownload(sessionId: string, fileName: string, content: string | Buffer) {
+    const bytes = typeof content === "string" ? Buffer.from(content) : content;
+    const file: ExternalFile = {
+      id: `file-${this.nextId++}`,
+      orgId: "org-1",
+      sessionIds: [sessionId],
+      fileName,
+      fileType: "browser_download",
+      fileBytes: bytes.length,
+      status: "available",
+      deleted: false,
+      uploadStartTime: new Date(Date.now() + this.downloads.length),
+      visibleInApi: true,
+      visibleInPortal: true,
+    };
+    this.downloads.push({ file, content: bytes });
+    return file;
+  }
+
+  // Simulate Airtop ending a session by itself, e.g. when it times out
+  expireSession(sessionId: string) {
+    this.sessionsById.delete(sessionId);
+  }
+
+  callsTo(method: FakeMethod) {
+    return this.calls.filter((call) => call.method === method);
+  }
+
+  sessions: BrowserBackend["sessions"] = {
+    create: (request) =>
+      this.run(() => {
+        const failed = this.begin({ method: "sessions.create", request });
+        const id = `session-${this.nextId++}`;
+        const session: FakeSession = {
+          id,
+          profileName: request?.configuration?.profileName,
+          windows: new Map(),
+        };
+        if (!failed) {
+          this.sessionsById.set(id, session);
+        }
+        return {
+          data: {
+            id,
+            status: failed ? "failed" : "running",
+            configuration: {
+              timeoutMinutes: request?.configuration?.timeoutMinutes ?? 10,
+            },
+          },
+          meta: {},
+          ...(failed && { errors: failed }),
+        };
+      }),
+
+    getInfo: (id) =>
+      this.run(() => {
+        this.begin({ method: "sessions.getInfo", sessionId: id });
+        const session = this.requireSession(id);
+        return {
+          data: { id: session.id, status: "running", configuration: {} },
+          meta: {},
+        };
+      }),
+
+    terminate: (id) =>
+      this.run(() => {
+        this.begin({ method: "sessions.terminate", sessionId: id });
+        const session = this.requireSession(id);
+        this.sessionsById.delete(id);
+        this.terminatedSessions.push(session);
+      }),
+
+    saveProfileOnTermination: (sessionId, profileName) =>
+      this.run(() => {
+        this.begin({
+          method: "sessions.saveProfileOnTermination",
+          sessionId,
+          request: { profileName },
+        });
+        this.requireSession(sessionId).saveProfileAs = profileName;
+      }),
+  };
+
+  windows: BrowserBackend["windows"] = {
+    create: (sessionId, request) =>
+      this.run(() => {
+        const failed = this.begin({
+          method: "windows.create",
+          sessionId,
+          request,
+        });
+        const session = this.requireSession(sessionId);
+        const windowId = `window-${this.nextId++}`;
+        const url = request?.url ?? "about:blank";
+        if (!failed) {
+          session.windows.set(windowId, {
+            windowId,
+            url,
+            scrollViewport: 0,
+            elements: new Map(),
+            selections: new Map(),
+            drags: [],
+          });
+        }
+        return {
+          data: { windowId, targetId: `target-${windowId}`, url },
+          meta: {},
+          ...(failed && { errors: failed }),
+        };
+      }),
+
+    list: (sessionId) =>
+      this.run(() => {
+        const failed = this.begin({ method: "windows.list", sessionId });
+        const session = this.requireSession(sessionId);
+        return {
+          data: {
+            windows: [...session.windows.values()].map(({ windowId, url }) => ({
+              windowId,
+              targetId: `target-${windowId}`,
+              url,
+              title: `Fake page at ${url}`,
+            })),
+          },
+          meta: {},
+          ...(failed && { errors: failed }),
+        };
+      }),
+
+    close: (sessionId, windowId) =>
+      this.run(() => {
+        const failed = this.begin({
+          method: "windows.close",
+          sessionId,
+          windowId,
+        });
+        this.requireWindow(sessionId, windowId);
+        if (!failed) {
+          this.requireSession(sessionId).windows.delete(windowId);
+        }
+        return {
+          data: { windowId, targetId: `target-${windowId}` },
+          meta: {},
+          ...(failed && { errors: failed }),
+        };
+      }),
+
+    getWindowInfo: (sessionId, windowId, request) =>
+      this.run(() => {
+        const failed = this.begin({
+          method: "windows.getWindowInfo",
+          sessionId,
+          windowId,
+          request,
+        });
+        this.requireWindow(sessionId, windowId);
+        return {
+          data: {
+            windowId,
+            targetId: `target-${windowId}`,
+            liveViewUrl: `https://live.fake.airtop/${sessionId}/${windowId}`,
+          },
+          meta: {},
+          ...(failed && { errors: failed }),
+        };
+      }),
+
+    loadUrl: (sessionId, windowId, request) =>
+      this.run(() => {
+        const failed = this.begin({
+          method: "windows.loadUrl",
+          sessionId,
+          windowId,
+          request,
+        });
+        const window = this.requireWindow(sessionId, windowId);
+        if (!failed) {
+          window.url = this.redirects.get(request.url) ?? request.url;
+          window.scrollViewport = 0;
+        }
+        return {
+          data: { success: !failed },
+          meta: {},
+          ...(failed && { errors: failed }),
+        };
+      }),
+
+    pageQuery: (sessionId, windowId, request, requestOptions) =>
+      this.aiCall(
+        "windows.pageQuery",
+        sessionId,
+        windowId,
+        request,
+        requestOptions,
+      ),
+
+    paginatedExtraction: (sessionId, windowId, request, requestOptions) =>
+      this.aiCall(
+        "windows.paginatedExtraction",
+        sessionId,
+        windowId,
+        request,
+        requestOptions,
+      ),
+
+    click: (sessionId, windowId, request, requestOptions) =>
+      this.aiCall(
+        "windows.click",
+        sessionId,
+        windowId,
+        request,
+        requestOptions,
+      ),
+
+    hover: (sessionId, windowId, request) =>
+      this.run(() => {
+        const result = this.aiResponse(
+          "windows.hover",
+          sessionId,
+          windowId,
+          request,
+        );
+        if (!result.errors) {
+          const window = this.requireWindow(sessionId, windowId);
+          window.pointer = this.elementPoint(
+            window,
+            request.elementDescription,
+          );
+        }
+        return result;
+      }),
+
+    type: (sessionId, windowId, request, requestOptions) =>
+      this.aiCall("windows.type", sessionId, windowId, request, requestOptions),
+
+    monitor: (sessionId, windowId, request, requestOptions) =>
+      this.aiCall(
+        "windows.monitor",
+        sessionId,
+        windowId,
+        request,
+        requestOptions,
+      ),
+
+    scroll: (sessionId, windowId, request) =>
+      this.run(() => {
+        const result = this.aiResponse(
+          "windows.scroll",
+          sessionId,
+          windowId,
+          request,
+        );
+        const window = this.requireWindow(sessionId, windowId);
+        const scrollBy = request?.scrollBy?.yAxis;
+        if (request?.scrollToEdge?.yAxis === "top") {
+          window.scrollViewport = 0;
+        } else if (request?.scrollToEdge?.yAxis === "bottom") {
+          window.scrollViewport = FAKE_PAGE_VIEWPORTS - 1;
+        } else if (scrollBy) {
+          window.scrollViewport = Math.max(
+            0,
+            Math.min(
+              window.scrollViewport + (scrollBy.startsWith("-") ? -1 : 1),
+              FAKE_PAGE_VIEWPORTS - 1,
+            ),
+          );
+        }
+        return result;
+      }),
+
+    screenshot: (sessionId, windowId, request) =>
+      this.run(() => {
+        const response = this.aiResponse(
+          "windows.screenshot",
+          sessionId,
+          windowId,
+          request,
+        );
+        const window = this.requireWindow(sessionId, windowId);
+        const pixels = Buffer.from(
+          `${window.url}#viewport-${window.scrollViewport}`,
+        ).toString("base64");
+        return {
+          ...response,
+          meta: {
+            ...response.meta,
+            screenshots: response.errors
+              ? []
+              : [{ dataUrl: `data:image/jpeg;base64,${pixels}` }],
+          },
+        };
+      }),
+
+    scrapeContent: (sessionId, windowId, request) =>
+      this.run(() => {
+        const failed = this.begin({
+          method: "windows.scrapeContent",
+          sessionId,
+          windowId,
+          request,
+        });
+        const window = this.requireWindow(sessionId, windowId);
+        return {
+          data: {
+            modelResponse: {
+              title: `Fake page at ${window.url}`,
+              scrapedContent: {
+                contentType: "text/plain",
+                text:
+                  this.takeResponse("windows.scrapeContent") ??
+                  `Content of ${window.url}`,
+              },
+            },
+          },
+          meta: this.aiMeta(failed),
+          ...(failed && { errors: failed }),
+        };
+      }),
+
+    uploadFileAndSelectInput: (sessionId, windowId, configuration) =>
+      this.run(() => {
+        const aiResponse = this.aiResponse(
+          "windows.uploadFileAndSelectInput",
+          sessionId,
+          windowId,
+          configuration,
+        );
+        this.uploads.push({
+          fileName:
+            configuration.fileName ??
+            configuration.uploadFilePath.split("/").pop()!,
+          content: readFileSync(configuration.uploadFilePath),
+        });
+        return { fileId: `file-${this.nextId++}`, aiResponse };
+      }),
+  };
+
+  profiles: BrowserBackend["profiles"] = {
+    delete: (request) =>
+      this.run(() => {
+        this.begin({ method: "profiles.delete", request });
+        const names = request?.profileNames ?? [];
+        this.deletedProfiles.push(...(Array.isArray(names) ? names : [names]));
+      }),
+  };
+
+  files: BrowserBackend["files"] = {
+    list: (request) =>
+      this.run(() => {
+        const failed = this.begin({ method: "files.list", request });
+        const sessionIds = [request?.sessionIds ?? []].flat();
+        const files = this.downloads
+          .map(({ file }) => file)
+          .filter(
+            (file) =>
+              !sessionIds.length ||
+              file.sessionIds?.some((id) => sessionIds.includes(id)),
+          );
+        return {
+          data: {
+            files,
+            pagination: {
+              currentLimit: request?.limit ?? 10,
+              currentPage: 1,
+              finalCount: files.length,
+              hasMore: false,
+              initialCount: 1,
+              nextOffset: files.length,
+              numberOfPages: 1,
+              totalItems: files.length,
+            },
+          },
+          meta: {},
+          ...(failed && { errors: failed }),
+        };
+      }),
+
+    waitForDownloadAvailable: (fileId) =>
+      this.run(() => {
+        this.begin({
+          method: "files.waitForDownloadAvailable",
+          request: fileId,
+        });
+        const { file } = this.requireFile(fileId);
+        file.status = "available";
+        return {
+          data: {
+            ...file,
+            fileType: "browser_download",
+            status: "available",
+            downloadUrl: `https://files.example.com/${fileId}`,
+          },
+          meta: {},
+        };
+      }),
+
+    download: (fileId, destinationPath) =>
+      this.run(() => {
+        this.begin({ method: "files.download", request: fileId });
+        writeFileSync(destinationPath, this.requireFile(fileId).content);
+      }),
+  };
+
+  input: PageInput = {
+    trackPointer: (sessionId, windowId) =>
+      this.inputCall(
+        "input.trackPointer",
+        sessionId,
+        windowId,
+        undefined,
+        (window) => {
+          window.pointer = undefined;
+        },
+      ),
+
+    pointerPosition: (sessionId, windowId) =>
+      this.inputCall(
+        "input.pointerPosition",
+        sessionId,
+        windowId,
+        undefined,
+        (window) => window.pointer,
+      ),
+
+    pressKeys: (sessionId, windowId, chords) =>
+      this.inputCall("input.pressKeys", sessionId, windowId, chords, () => {}),
+
+    selectOption: (sessionId, windowId, at, option) =>
+      this.inputCall(
+        "input.selectOption",
+        sessionId,
+        windowId,
+        { at, option },
+        (window) => {
+          const element = this.elementAt(window, at);
+          const labels = element && this.selects.get(element);
+          if (!labels) {
+            return undefined;
+          }
+          const selected = labels.find(
+            (label) => label.toLowerCase() === option.toLowerCase(),
+          );
+          if (!selected) {
+            return { available: labels };
+          }
+          window.selections.set(element, selected);
+          return { selected };
+        },
+      ),
+
+    drag: (sessionId, windowId, from, to) =>
+      this.inputCall(
+        "input.drag",
+        sessionId,
+        windowId,
+        { from, to },
+        (window) => {
+          window.drags.push({
+            from: this.elementAt(window, from),
+            to: this.elementAt(window, to),
+          });
+        },
+      ),
+
+    readPage: (sessionId, windowId, format, signal) => {
+      if (signal?.aborted) {
+        this.abortedCalls.push("input.readPage");
+        return Promise.reject(new Error("input.readPage aborted"));
+      }
+      return this.inputCall(
+        "input.readPage",
+        sessionId,
+        windowId,
+        { format },
+        (window) => ({
+          title: `Fake page at ${window.url}`,
+          url: window.url,
+          text:
+            this.takeResponse("input.readPage") ??
+            (format === "markdown"
+              ? `# Fake page\n\nContent of ${window.url}`
+              : `- [Home](${window.url})`),
+        }),
+      );
+    },
+
+    disconnect: (sessionId) => {
+      this.calls.push({ method: "input.disconnect", sessionId });
+    },
+  };
+
+  // Record the call and apply any queued failure: thrown errors are thrown,
+  // envelope errors are returned for the caller to put in its response
+  private begin(call: FakeCall): Issue[] | undefined {
+    this.calls.push(call);
+    const failure = this.failures.get(call.method)?.shift();
+    if (failure instanceof Error) {
+      throw failure;
+    }
+    return failure;
+  }
+
+  private takeResponse(method: FakeMethod) {
+    return this.responses.get(method)?.shift();
+  }
+
+  private aiMeta(failed?: Issue[]): ExternalSessionAiResponseMetadata {
+    return {
+      status: failed ? "failure" : "success",
+      usage: { id: `usage-${this.nextId++}`, credits: 1 },
+    };
+  }
+
+  // Run a fake operation, turning thrown errors into rejections like a real request
+  private run<T>(operation: () => T): Promise<T> {
+    try {
+      return Promise.resolve(operation());
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+  }
+
+  private aiCall(
+    method: FakeMethod,
+    sessionId: string,
+    windowId: string,
+    request: unknown,
+    requestOptions?: FakeRequestOptions,
+  ) {
+    const respond = () =>
+      this.run(() => this.aiResponse(method, sessionId, windowId, request));
+    const delayMs = this.delays.get(method)?.shift();
+    if (delayMs === undefined) {
+      return respond();
+    }
+    return this.wait(method, delayMs, requestOptions?.abortSignal).then(
+      respond,
+    );
+  }
+
+  // Take as long as a slow request, failing if the request is aborted first
+  private wait(method: FakeMethod, delayMs: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        this.abortedCalls.push(method);
+        reject(new Error(`${method} aborted`));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, delayMs);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private aiResponse(
+    method: FakeMethod,
+    sessionId: string,
+    windowId: string,
+    request: unknown,
+  ): AiPromptResponse {
+    const failed = this.begin({ method, sessionId, windowId, request });
+    this.requireWindow(sessionId, windowId);
+    return {
+      data: {
+        modelResponse: this.takeResponse(method) ?? `${method} succeeded`,
+      },
+      meta: this.aiMeta(failed),
+      ...(failed && { errors: failed }),
+    };
+  }
+
+  // Page input has no response envelope, so envelope failures are thrown
+  private inputCall<T>(
+    method: FakeMethod,
+    sessionId: string,
+    windowId: string,
+    request: unknown,
+    operation: (window: FakeWindow) => T,
+  ) {
+    return this.run(() => {
+      const failed = this.begin({ method, sessionId, windowId, request });
+      if (failed) {
+        throw new Error(failed.map((issue) => issue.message).join("\n"));
+      }
+      return operation(this.requireWindow(sessionId, windowId));
+    });
+  }
+
+  // Lay hovered elements out down the page in the order they're first seen
+  private elementPoint(window: FakeWindow, description: string) {
+    let point = window.elements.get(description);
+    if (!point) {
+      point = { x: 100, y: 50 + 40 * window.elements.size };
+      window.elements.set(description, point);
+    }
+    return point;
+  }
+
+  private elementAt(window: FakeWindow, { x, y }: Point) {
+    for (const [description, point] of window.elements) {
+      if (point.x === x && point.y === y) {
+        return description;
+      }
+    }
+    return undefined;
+  }
+
+  private requireFile(fileId: string) {
+    const file = this.downloads.find(({ file }) => file.id === fileId);
+    if (!file) {
+      throw new AirtopError({
+        message: `File ${fileId} not found`,
+        statusCode: 404,
+      });
+    }
+    return file;
+  }
+
+  private requireSession(sessionId: string) {
+    const session = this.sessionsById.get(sessionId);
+    if (!session) {
+      throw new AirtopError({
+        message: `Session ${sessionId} not found`,
+        statusCode: 404,
+      });
+    }
+    return session;
+  }
+
+  private requireWindow(sessionId: string, windowId: string) {
+    const window = this.requireSession(sessionId).windows.get(windowId);
+    if (!window) {
+      throw new AirtopError({
+        message: `Window ${windowId} not found in session ${sessionId}`,
+        statusCode: 404,
+      });
+    }
+    return window;
+  }
+}
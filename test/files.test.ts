@@ -0,0 +1,308 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { once } from "node:events";
+import {
+  mkdir,
+  mkdtemp,
+  readFile,
+  rm,
+  symlink,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  CallToolResult,
+  EmbeddedResource,
+} from "@modelcontextprotocol/sdk/types.js";
+import express from "express";
+import { maxRequestBodyBytes } from "../src/files.js";
+import { createMcpServer } from "../src/mcp-server.js";
+import { FakeBrowserBackend } from "./fake-backend.js";
+import {
+  connectTestClient,
+  jsonOf,
+  openWindow,
+  TestHarness,
+  textOf,
+} from "./helpers.js";
+
+describe("files", () => {
+  let dir: string;
+  let uploadDir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "airtop-files-"));
+    uploadDir = path.join(dir, "uploads");
+    await mkdir(uploadDir);
+    await writeFile(path.join(uploadDir, "report.pdf"), "%PDF report");
+    await writeFile(path.join(dir, "private.key"), "secret key");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("fileInput", () => {
+    let harness: TestHarness;
+
+    beforeEach(async () => {
+      harness = await connectTestClient({
+        files: { uploadDirs: [uploadDir], maxUploadBytes: 64 },
+      });
+    });
+
+    afterEach(async () => {
+      await harness.close();
+    });
+
+    async function upload(args: Record<string, unknown>) {
+      const { sessionId, windowId } = await openWindow(harness);
+      return harness.callTool("fileInput", {
+        sessionId,
+        windowId,
+        elementDescription: "the upload button",
+        ...args,
+      });
+    }
+
+    it("uploads files inside the allowed directories", async () => {
+      const result = jsonOf<{ fileId: string; success: boolean }>(
+        await upload({ filePath: path.join(uploadDir, "report.pdf") }),
+      );
+      assert.equal(result.success, true);
+      assert.match(result.fileId, /^file-/);
+      assert.deepEqual(harness.backend.uploads, [
+        { fileName: "report.pdf", content: Buffer.from("%PDF report") },
+      ]);
+    });
+
+    it("refuses files outside the allowed directories", async () => {
+      await symlink(
+        path.join(dir, "private.key"),
+        path.join(uploadDir, "link.key"),
+      );
+      for (const filePath of [
+        path.join(dir, "private.key"),
+        path.join(uploadDir, "..", "private.key"),
+        path.join(uploadDir, "link.key"),
+      ]) {
+        const result = await upload({ filePath });
+        assert.deepEqual(result._meta, { errorCategory: "validation" });
+        assert.match(textOf(result), /outside the directories/);
+      }
+      assert.equal(
+        harness.backend.callsTo("windows.uploadFileAndSelectInput").length,
+        0,
+      );
+    });
+
+    it("reports missing and oversized files", async () => {
+      const missing = await upload({
+        filePath: path.join(uploadDir, "missing.pdf"),
+      });
+      assert.deepEqual(missing._meta, { errorCategory: "not_found" });
+
+      await writeFile(path.join(uploadDir, "large.bin"), Buffer.alloc(65));
+      const large = await upload({
+        filePath: path.join(uploadDir, "large.bin"),
+      });
+      assert.deepEqual(large._meta, { errorCategory: "validation" });
+      assert.match(textOf(large), /65 bytes, more than the 64 byte/);
+    });
+
+    it("uploads inline content", async () => {
+      const result = await upload({
+        content: Buffer.from("name,score\nada,10\n").toString("base64"),
+        fileName: "scores.csv",
+      });
+      assert.equal(jsonOf<{ success: boolean }>(result).success, true);
+      assert.deepEqual(harness.backend.uploads, [
+        {
+          fileName: "scores.csv",
+          content: Buffer.from("name,score\nada,10\n"),
+        },
+      ]);
+    });
+
+    it("needs exactly one of filePath and content", async () => {
+      const neither = await upload({});
+      assert.deepEqual(neither._meta, { errorCategory: "validation" });
+      const unnamed = await upload({ content: "aGVsbG8=" });
+      assert.match(textOf(unnamed), /fileName is required/);
+    });
+
+    it("reports upload failures", async () => {
+      harness.backend.failNext(
+        "windows.uploadFileAndSelectInput",
+        new Error("file upload failed"),
+      );
+      const result = await upload({
+        filePath: path.join(uploadDir, "report.pdf"),
+      });
+      assert.equal(result.isError, true);
+      assert.match(
+        textOf(result),
+        /Error during fileInput .*file upload failed/,
+      );
+    });
+  });
+
+  it("accepts inline uploads larger than 100 kB over HTTP", async () => {
+    const maxUploadBytes = 512 * 1024;
+    const backend = new FakeBrowserBackend();
+    const server = createMcpServer("test-key", 0, {
+      backend,
+      files: { maxUploadBytes },
+    });
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+    });
+    await server.connect(transport);
+    const app = express();
+    app.post(
+      "/mcp",
+      express.json({ limit: maxRequestBodyBytes(maxUploadBytes) }),
+      (req, res) => void transport.handleRequest(req, res, req.body),
+    );
+    const listener = app.listen(0, "127.0.0.1");
+    await once(listener, "listening");
+    const { port } = listener.address() as AddressInfo;
+    const client = new Client({ name: "airtop-mcp-test", version: "1.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(
+        new URL(`http://127.0.0.1:${port}/mcp`),
+      ),
+    );
+    const call = async (name: string, args: Record<string, unknown>) =>
+      jsonOf<Record<string, string>>(
+        (await client.callTool({ name, arguments: args })) as CallToolResult,
+      );
+
+    try {
+      const session = await call("createSession", {});
+      const window = await call("createWindow", {
+        sessionId: session.id,
+        url: "https://example.com",
+      });
+      const file = Buffer.alloc(300 * 1024, "a");
+      const result = await call("fileInput", {
+        sessionId: session.id,
+        windowId: window.windowId,
+        elementDescription: "the upload button",
+        content: file.toString("base64"),
+        fileName: "large.txt",
+      });
+      assert.equal(result.success, true);
+      assert.deepEqual(backend.uploads, [
+        { fileName: "large.txt", content: file },
+      ]);
+    } finally {
+      await client.close();
+      await server.close();
+      listener.close();
+    }
+  });
+
+  it("only uploads inline content when no directories are allowed", async () => {
+    const harness = await connectTestClient();
+    const { sessionId, windowId } = await openWindow(harness);
+    const result = await harness.callTool("fileInput", {
+      sessionId,
+      windowId,
+      elementDescription: "the upload button",
+      filePath: path.join(uploadDir, "report.pdf"),
+    });
+    assert.match(textOf(result), /Uploading files by path is disabled/);
+    await harness.close();
+  });
+
+  describe("downloadFile", () => {
+    it("returns the latest download as an embedded resource", async () => {
+      const harness = await connectTestClient();
+      const { sessionId } = await openWindow(harness);
+      harness.backend.addDownload(sessionId, "old.csv", "a,b\n");
+      const file = harness.backend.addDownload(sessionId, "latest.pdf", "%PDF");
+
+      const result = await harness.callTool("downloadFile", { sessionId });
+      assert.deepEqual(jsonOf(result), {
+        fileId: file.id,
+        fileName: "latest.pdf",
+        fileBytes: 4,
+      });
+      const resource = result.content[1] as EmbeddedResource;
+      assert.deepEqual(resource.resource, {
+        uri: `airtop://files/${file.id}`,
+        mimeType: "application/pdf",
+        blob: Buffer.from("%PDF").toString("base64"),
+      });
+      await harness.close();
+    });
+
+    it("saves downloads into the download directory", async () => {
+      const downloadDir = path.join(dir, "downloads");
+      const harness = await connectTestClient({ files: { downloadDir } });
+      const { sessionId } = await openWindow(harness);
+      const files = [
+        harness.backend.addDownload(sessionId, "report.csv", "first"),
+        harness.backend.addDownload(sessionId, "report.csv", "second"),
+      ];
+
+      const saved = [];
+      for (const file of files) {
+        const result = await harness.callTool("downloadFile", {
+          sessionId,
+          fileId: file.id,
+        });
+        assert.equal(result.content.length, 1);
+        saved.push(jsonOf<{ savedTo: string }>(result).savedTo);
+      }
+      assert.deepEqual(saved, [
+        path.join(downloadDir, "report.csv"),
+        path.join(downloadDir, "report (1).csv"),
+      ]);
+      assert.equal(await readFile(saved[1], "utf8"), "second");
+      await harness.close();
+    });
+
+    it("refuses to return large downloads inline", async () => {
+      const harness = await connectTestClient({
+        files: { maxInlineDownloadBytes: 3 },
+      });
+      const { sessionId } = await openWindow(harness);
+      harness.backend.addDownload(sessionId, "big.zip", "1234");
+      const result = await harness.callTool("downloadFile", {
+        sessionId,
+        fileName: "big.zip",
+      });
+      assert.deepEqual(result._meta, { errorCategory: "validation" });
+      assert.match(textOf(result), /Configure downloadDir/);
+      await harness.close();
+    });
+
+    it("reports sessions without a matching download", async () => {
+      const harness = await connectTestClient();
+      const { sessionId } = await openWindow(harness);
+      const none = await harness.callTool("downloadFile", {
+        sessionId,
+        waitSeconds: 0,
+      });
+      assert.deepEqual(none._meta, { errorCategory: "not_found" });
+      assert.match(textOf(none), /Click the download link first/);
+
+      harness.backend.addDownload(sessionId, "a.txt", "a");
+      const unmatched = await harness.callTool("downloadFile", {
+        sessionId,
+        fileName: "b.txt",
+        waitSeconds: 0,
+      });
+      assert.match(textOf(unmatched), /Downloads: a.txt/);
+      await harness.close();
+    });
+  });
+});
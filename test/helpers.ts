@@ -0,0 +1,71 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  CallToolResult,
+  ClientCapabilities,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createMcpServer, McpServerOptions } from "../src/mcp-server.js";
+import { FakeBrowserBackend } from "./fake-backend.js";
+
+export interface TestHarness {
+  client: Client;
+  backend: FakeBrowserBackend;
+  callTool(
+    name: string,
+    args?: Record<string, unknown>,
+  ): Promise<CallToolResult>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a server backed by a fresh fake and connect an in-process client to
+ * it, declaring the given client capabilities.
+ */
+export async function connectTestClient(
+  options: McpServerOptions = {},
+  capabilities: ClientCapabilities = {},
+): Promise<TestHarness> {
+  const backend = new FakeBrowserBackend();
+  const server = createMcpServer("test-key", 0, { backend, ...options });
+  const client = new Client(
+    { name: "airtop-mcp-test", version: "1.0.0" },
+    { capabilities },
+  );
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+  return {
+    client,
+    backend,
+    callTool: async (name, args = {}) =>
+      (await client.callTool({ name, arguments: args })) as CallToolResult,
+    close: () => client.close(),
+  };
+}
+
+export function textOf(result: CallToolResult) {
+  return result.content
+    .map((item) => (item.type === "text" ? item.text : ""))
+    .join("\n");
+}
+
+export function jsonOf<T = Record<string, unknown>>(result: CallToolResult) {
+  return JSON.parse(textOf(result)) as T;
+}
+
+// Create a session with one window, returning their IDs
+export async function openWindow(
+  harness: TestHarness,
+  url = "https://example.com",
+) {
+  const session = jsonOf<{ id: string }>(
+    await harness.callTool("createSession"),
+  );
+  const window = jsonOf<{ windowId: string }>(
+    await harness.callTool("createWindow", { sessionId: session.id, url }),
+  );
+  return { sessionId: session.id, windowId: window.windowId };
+}
@@ -0,0 +1,254 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { AddressInfo } from "node:net";
+import { describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import {
+  CallToolResult,
+  LATEST_PROTOCOL_VERSION,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createHttpApp, HttpServerOptions } from "../src/http-server.js";
+import { FakeBrowserBackend } from "./fake-backend.js";
+import { jsonOf } from "./helpers.js";
+
+interface SseEvent {
+  id?: string;
+  data: unknown;
+}
+
+// Serve the app on a free port with a fake backend
+async function startHttpServer(options: HttpServerOptions = {}) {
+  const backend = new FakeBrowserBackend();
+  const { app } = createHttpApp({
+    apiKey: "test-key",
+    ...options,
+    server: { backend, ...options.server },
+  });
+  const listener = app.listen(0, "127.0.0.1");
+  await once(listener, "listening");
+  const { port } = listener.address() as AddressInfo;
+  return {
+    backend,
+    url: new URL(`http://127.0.0.1:${port}/mcp`),
+    close: () => {
+      listener.closeAllConnections();
+      listener.close();
+    },
+  };
+}
+
+// Read SSE events off a response until `count` have arrived
+async function readEvents(response: Response, count: number) {
+  const reader = response
+    .body!.pipeThrough(new TextDecoderStream())
+    .getReader();
+  const events: SseEvent[] = [];
+  let buffer = "";
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const fields = Object.fromEntries(
+        buffer
+          .slice(0, end)
+          .split("\n")
+          .map((line) => [
+            line.slice(0, line.indexOf(":")),
+            line.slice(line.indexOf(":") + 1).trim(),
+          ]),
+      );
+      buffer = buffer.slice(end + 2);
+      if (fields.data) {
+        events.push({ id: fields.id, data: JSON.parse(fields.data) });
+      }
+    }
+  }
+  await reader.cancel();
+  return events;
+}
+
+describe("HTTP server", () => {
+  it("serves a client session until the client deletes it", async () => {
+    const server = await startHttpServer();
+    const transport = new StreamableHTTPClientTransport(server.url);
+    const client = new Client({ name: "airtop-mcp-test", version: "1.0.0" });
+    try {
+      await client.connect(transport);
+      const sessionId = transport.sessionId!;
+      assert.ok(sessionId);
+
+      const session = jsonOf<{ id: string }>(
+        (await client.callTool({
+          name: "createSession",
+          arguments: {},
+        })) as CallToolResult,
+      );
+      assert.ok(server.backend.sessionsById.has(session.id));
+
+      await transport.terminateSession();
+      // The client's browser sessions end with its MCP session
+      assert.deepEqual(
+        server.backend.terminatedSessions.map(({ id }) => id),
+        [session.id],
+      );
+      const after = await fetch(server.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          accept: "application/json, text/event-stream",
+          "mcp-session-id": sessionId,
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+      });
+      assert.equal(after.status, 400);
+    } finally {
+      await client.close();
+      server.close();
+    }
+  });
+
+  it("rejects requests without a valid bearer token", async () => {
+    const server = await startHttpServer({
+      auth: { tokens: ["owner-token"], jwtSecret: "jwt-secret" },
+    });
+    const post = (authorization?: string) =>
+      fetch(server.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...(authorization && { authorization }),
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+      });
+    // A JWT whose header is JSON, but not an object
+    const malformed = [null, {}, "signature"]
+      .map((part) => Buffer.from(JSON.stringify(part)).toString("base64url"))
+      .join(".");
+    try {
+      assert.equal((await post()).status, 401);
+      assert.equal((await post("Bearer wrong-token")).status, 401);
+      assert.equal((await post(`Bearer ${malformed}`)).status, 401);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("refuses another client's session", async () => {
+    const server = await startHttpServer({
+      auth: { tokens: ["owner-token", "other-token"] },
+    });
+    const transport = new StreamableHTTPClientTransport(server.url, {
+      requestInit: { headers: { authorization: "Bearer owner-token" } },
+    });
+    const client = new Client({ name: "airtop-mcp-test", version: "1.0.0" });
+    try {
+      await client.connect(transport);
+      const headers = {
+        authorization: "Bearer other-token",
+        "mcp-session-id": transport.sessionId!,
+      };
+      const posted = await fetch(server.url, {
+        method: "POST",
+        headers: {
+          ...headers,
+          "content-type": "application/json",
+          accept: "application/json, text/event-stream",
+        },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "tools/call",
+          params: { name: "createSession", arguments: {} },
+        }),
+      });
+      assert.equal(posted.status, 403);
+      const deleted = await fetch(server.url, { method: "DELETE", headers });
+      assert.equal(deleted.status, 403);
+      assert.equal(server.backend.callsTo("sessions.create").length, 0);
+      // The owner can still use it
+      await client.callTool({ name: "createSession", arguments: {} });
+      assert.equal(server.backend.callsTo("sessions.create").length, 1);
+    } finally {
+      await client.close();
+      server.close();
+    }
+  });
+
+  it("replays events the client missed after Last-Event-ID", async () => {
+    const server = await startHttpServer();
+    let sessionId = "";
+    const post = async (message: Record<string, unknown>) => {
+      const response = await fetch(server.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          accept: "application/json, text/event-stream",
+          ...(sessionId && { "mcp-session-id": sessionId }),
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", ...message }),
+      });
+      sessionId ||= response.headers.get("mcp-session-id") ?? "";
+      return response.text();
+    };
+    const openStream = (lastEventId?: string) =>
+      fetch(server.url, {
+        headers: {
+          accept: "text/event-stream",
+          "mcp-session-id": sessionId,
+          ...(lastEventId && { "last-event-id": lastEventId }),
+        },
+      });
+
+    try {
+      await post({
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: LATEST_PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: "airtop-mcp-test", version: "1.0.0" },
+        },
+      });
+      await post({ method: "notifications/initialized" });
+      const stream = await openStream();
+
+      // Opening a session and a window each change the resource list
+      const session = await post({
+        id: 2,
+        method: "tools/call",
+        params: { name: "createSession", arguments: {} },
+      });
+      const { id } = JSON.parse(
+        (
+          JSON.parse(session.match(/^data: (.*)$/m)![1]) as {
+            result: CallToolResult;
+          }
+        ).result.content[0].text as string,
+      ) as { id: string };
+      await post({
+        id: 3,
+        method: "tools/call",
+        params: {
+          name: "createWindow",
+          arguments: { sessionId: id, url: "https://example.com" },
+        },
+      });
+      const [first, second] = await readEvents(stream, 2);
+      assert.deepEqual(first.data, {
+        jsonrpc: "2.0",
+        method: "notifications/resources/list_changed",
+      });
+
+      const resumed = await openStream(first.id);
+      assert.equal(resumed.status, 200);
+      assert.deepEqual(await readEvents(resumed, 1), [second]);
+    } finally {
+      server.close();
+    }
+  });
+});
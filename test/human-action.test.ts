@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  ElicitRequest,
+  ElicitRequestSchema,
+  ElicitResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { UsageTracker } from "../src/usage.js";
+import {
+  connectTestClient,
+  jsonOf,
+  openWindow,
+  TestHarness,
+} from "./helpers.js";
+
+describe("requestHumanAction", () => {
+  let harness: TestHarness;
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  // Connect a client that answers elicitation requests with respond
+  async function connectEliciting(
+    respond: (request: ElicitRequest) => Promise<ElicitResult>,
+  ) {
+    harness = await connectTestClient({}, { elicitation: {} });
+    harness.client.setRequestHandler(ElicitRequestSchema, respond);
+    return openWindow(harness);
+  }
+
+  async function windowResource(sessionId: string, windowId: string) {
+    const { contents } = await harness.client.readResource({
+      uri: `airtop://sessions/${sessionId}/windows/${windowId}`,
+    });
+    return JSON.parse(contents[0].text as string) as {
+      humanAction?: { instructions: string; outcome: string };
+    };
+  }
+
+  it("asks the user to confirm and fill in a form", async () => {
+    const requests: ElicitRequest[] = [];
+    const { sessionId, windowId } = await connectEliciting((request) => {
+      requests.push(request);
+      return Promise.resolve({ action: "accept", content: { code: "123456" } });
+    });
+
+    const result = await harness.callTool("requestHumanAction", {
+      sessionId,
+      windowId,
+      instructions: "Log in to your account",
+      fields: [{ name: "code", description: "Your 2FA code" }],
+    });
+    assert.deepEqual(jsonOf(result), {
+      outcome: "completed",
+      liveViewUrl: `https://live.fake.airtop/${sessionId}/${windowId}`,
+      values: { code: "123456" },
+    });
+    const [{ params }] = requests;
+    assert.match(params.message, /Log in to your account/);
+    assert.match(params.message, /https:\/\/live\.fake\.airtop\//);
+    assert.deepEqual(params.requestedSchema, {
+      type: "object",
+      properties: {
+        code: { type: "string", title: "code", description: "Your 2FA code" },
+      },
+      required: ["code"],
+    });
+    const window = await windowResource(sessionId, windowId);
+    assert.equal(window.humanAction?.outcome, "completed");
+    assert.equal(window.humanAction?.instructions, "Log in to your account");
+  });
+
+  it("records declined and timed out requests", async () => {
+    let answer: Promise<ElicitResult> = Promise.resolve({ action: "decline" });
+    const { sessionId, windowId } = await connectEliciting(() => answer);
+    const request = {
+      sessionId,
+      windowId,
+      instructions: "Solve the captcha",
+      timeoutSeconds: 0.05,
+    };
+
+    const declined = await harness.callTool("requestHumanAction", request);
+    assert.equal(jsonOf(declined).outcome, "declined");
+
+    answer = new Promise(() => {});
+    const timedOut = await harness.callTool("requestHumanAction", request);
+    assert.equal(jsonOf(timedOut).outcome, "timed_out");
+    const window = await windowResource(sessionId, windowId);
+    assert.equal(window.humanAction?.outcome, "timed_out");
+  });
+
+  it("polls the page when the client can't ask the user", async () => {
+    harness = await connectTestClient();
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.respondNext("windows.pageQuery", '{"done": true}');
+
+    const done = await harness.callTool("requestHumanAction", {
+      sessionId,
+      windowId,
+      instructions: "Log in",
+      doneCondition: "the account menu is visible",
+      fields: [{ name: "code" }],
+    });
+    assert.deepEqual(jsonOf(done), {
+      outcome: "completed",
+      liveViewUrl: `https://live.fake.airtop/${sessionId}/${windowId}`,
+      missingFields: ["code"],
+    });
+    const [query] = harness.backend.callsTo("windows.pageQuery");
+    assert.match(
+      (query.request as { prompt: string }).prompt,
+      /the account menu is visible/,
+    );
+
+    harness.backend.respondNext("windows.pageQuery", '{"done": false}');
+    const timedOut = await harness.callTool("requestHumanAction", {
+      sessionId,
+      windowId,
+      instructions: "Log in",
+      timeoutSeconds: 0.01,
+    });
+    assert.equal(jsonOf(timedOut).outcome, "timed_out");
+  });
+
+  it("stops polling once the usage budget is used up", async () => {
+    harness = await connectTestClient({
+      usage: new UsageTracker({ sessionAiCalls: 0 }),
+    });
+    const { sessionId, windowId } = await openWindow(harness);
+    const result = await harness.callTool("requestHumanAction", {
+      sessionId,
+      windowId,
+      instructions: "Log in",
+    });
+    assert.deepEqual(result._meta, { errorCategory: "budget_exceeded" });
+    assert.equal(harness.backend.callsTo("windows.pageQuery").length, 0);
+  });
+});
@@ -0,0 +1,230 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { parseKeyChord } from "../src/keys.js";
+import {
+  connectTestClient,
+  jsonOf,
+  openWindow,
+  TestHarness,
+  textOf,
+} from "./helpers.js";
+
+describe("parseKeyChord", () => {
+  it("parses keys and combinations", () => {
+    assert.deepEqual(parseKeyChord("Control+A"), {
+      modifiers: ["Control"],
+      key: { key: "a", code: "KeyA", keyCode: 65, text: "a" },
+    });
+    assert.equal(parseKeyChord("shift+a")?.key.key, "A");
+    assert.equal(parseKeyChord("esc")?.key.key, "Escape");
+    assert.deepEqual(parseKeyChord("Cmd+Shift+Tab")?.modifiers, [
+      "Meta",
+      "Shift",
+    ]);
+    assert.equal(parseKeyChord("Control++")?.key.key, "+");
+    assert.equal(parseKeyChord("F5")?.key.keyCode, 116);
+  });
+
+  it("rejects unknown names", () => {
+    assert.equal(parseKeyChord("Hyper+A"), undefined);
+    assert.equal(parseKeyChord("Enterr"), undefined);
+    assert.equal(parseKeyChord(""), undefined);
+  });
+});
+
+describe("interaction tools", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await connectTestClient();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  function lastRequest(
+    method: Parameters<TestHarness["backend"]["callsTo"]>[0],
+  ) {
+    return harness.backend.callsTo(method).at(-1)?.request;
+  }
+
+  it("passes click, type and scroll options to Airtop", async () => {
+    const target = await openWindow(harness);
+    await harness.callTool("click", {
+      ...target,
+      elementDescription: "the row",
+      clickType: "doubleClick",
+    });
+    assert.deepEqual(lastRequest("windows.click"), {
+      elementDescription: "the row",
+      configuration: { clickType: "doubleClick" },
+    });
+
+    await harness.callTool("type", {
+      ...target,
+      text: "airtop",
+      elementDescription: "the search box",
+      clearFirst: true,
+      pressEnter: true,
+    });
+    assert.deepEqual(lastRequest("windows.type"), {
+      text: "airtop",
+      elementDescription: "the search box",
+      clearInputField: true,
+      pressEnterKey: true,
+    });
+
+    const scrolls = [
+      [{ direction: "down" }, { scrollBy: { yAxis: "100%" } }],
+      [
+        { direction: "left", amount: "300px" },
+        { scrollBy: { xAxis: "-300px" } },
+      ],
+      [
+        { toEdge: "bottom", scrollWithin: "the results list" },
+        { scrollToEdge: { yAxis: "bottom" }, scrollWithin: "the results list" },
+      ],
+    ] as const;
+    for (const [args, request] of scrolls) {
+      await harness.callTool("scroll", { ...target, ...args });
+      assert.deepEqual(lastRequest("windows.scroll"), request);
+    }
+  });
+
+  it("rejects scroll amounts Airtop can't read", async () => {
+    const target = await openWindow(harness);
+    await assert.rejects(
+      harness.callTool("scroll", {
+        ...target,
+        direction: "down",
+        amount: "a lot",
+      }),
+      /Invalid arguments for tool scroll/,
+    );
+    assert.equal(harness.backend.callsTo("windows.scroll").length, 0);
+  });
+
+  it("presses keys after focusing an element", async () => {
+    const target = await openWindow(harness);
+    const result = await harness.callTool("pressKeys", {
+      ...target,
+      keys: ["Control+A", "Backspace"],
+      elementDescription: "the notes field",
+    });
+    assert.deepEqual(jsonOf(result), { pressed: ["Control+A", "Backspace"] });
+    assert.equal(harness.backend.callsTo("windows.click").length, 1);
+    const chords = lastRequest("input.pressKeys") as { key: { key: string } }[];
+    assert.deepEqual(
+      chords.map((chord) => chord.key.key),
+      ["a", "Backspace"],
+    );
+  });
+
+  it("reports unknown keys without pressing any", async () => {
+    const target = await openWindow(harness);
+    const result = await harness.callTool("pressKeys", {
+      ...target,
+      keys: ["Enter", "Hyper+X"],
+    });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Unknown keys: Hyper\+X/);
+    assert.equal(harness.backend.callsTo("input.pressKeys").length, 0);
+  });
+
+  describe("selectOption", () => {
+    it("chooses an option in a native dropdown", async () => {
+      const target = await openWindow(harness);
+      harness.backend.selects.set("the country dropdown", ["Canada", "France"]);
+      const result = await harness.callTool("selectOption", {
+        ...target,
+        elementDescription: "the country dropdown",
+        option: "france",
+      });
+      assert.deepEqual(jsonOf(result), { selected: "France" });
+      const window = harness.backend.sessionsById
+        .get(target.sessionId)!
+        .windows.get(target.windowId)!;
+      assert.equal(window.selections.get("the country dropdown"), "France");
+    });
+
+    it("lists the options when none match", async () => {
+      const target = await openWindow(harness);
+      harness.backend.selects.set("the size dropdown", ["Small", "Large"]);
+      const result = await harness.callTool("selectOption", {
+        ...target,
+        elementDescription: "the size dropdown",
+        option: "Medium",
+      });
+      assert.deepEqual(result._meta, { errorCategory: "validation" });
+      assert.match(textOf(result), /Options: Small, Large/);
+    });
+
+    it("clicks through dropdowns that aren't native", async () => {
+      const target = await openWindow(harness);
+      const result = await harness.callTool("selectOption", {
+        ...target,
+        elementDescription: "the theme picker",
+        option: "Dark",
+      });
+      assert.deepEqual(jsonOf(result), { selected: "Dark" });
+      assert.deepEqual(
+        harness.backend
+          .callsTo("windows.click")
+          .map(
+            (call) =>
+              (call.request as { elementDescription: string })
+                .elementDescription,
+          ),
+        [
+          "the theme picker",
+          'the "Dark" option in the list opened from the theme picker',
+        ],
+      );
+    });
+
+    it("reports dropdowns that can't be found", async () => {
+      const target = await openWindow(harness);
+      harness.backend.failNext("windows.hover", [
+        { message: "Element not found" },
+      ]);
+      const result = await harness.callTool("selectOption", {
+        ...target,
+        elementDescription: "the missing dropdown",
+        option: "Any",
+      });
+      assert.deepEqual(result._meta, { errorCategory: "not_found" });
+      assert.equal(harness.backend.callsTo("input.selectOption").length, 0);
+    });
+  });
+
+  it("drags one element onto another", async () => {
+    const target = await openWindow(harness);
+    const result = await harness.callTool("drag", {
+      ...target,
+      sourceDescription: "the first card",
+      targetDescription: "the Done column",
+    });
+    assert.equal(result.isError, undefined);
+    const window = harness.backend.sessionsById
+      .get(target.sessionId)!
+      .windows.get(target.windowId)!;
+    assert.deepEqual(window.drags, [
+      { from: "the first card", to: "the Done column" },
+    ]);
+  });
+
+  it("reports page input failures", async () => {
+    const target = await openWindow(harness);
+    harness.backend.failNext(
+      "input.pressKeys",
+      new Error("CDP connection closed"),
+    );
+    const result = await harness.callTool("pressKeys", {
+      ...target,
+      keys: ["Escape"],
+    });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /CDP connection closed/);
+  });
+});
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  applyLogFormat,
+  formatLogLine,
+  withLogContext,
+} from "../src/logging.js";
+
+describe("JSON logging", () => {
+  const original = { ...console };
+
+  afterEach(() => {
+    Object.assign(console, original);
+  });
+
+  it("includes the log context of the current request", async () => {
+    const time = new Date("2025-01-01T00:00:00Z");
+    const line = await withLogContext({ requestId: "req-1" }, () =>
+      withLogContext({ tool: "scrape" }, async () => {
+        await Promise.resolve();
+        return formatLogLine("warn", ["scrape request", "text", 3], time);
+      }),
+    );
+    assert.deepEqual(JSON.parse(line), {
+      time: "2025-01-01T00:00:00.000Z",
+      level: "warn",
+      requestId: "req-1",
+      tool: "scrape",
+      message: "scrape request text 3",
+    });
+    assert.doesNotMatch(formatLogLine("info", ["outside"], time), /req-1/);
+  });
+
+  it("writes console output as JSON lines at the method's level", () => {
+    const lines: string[] = [];
+    applyLogFormat("json", (line) => lines.push(line));
+    console.log("started on %s", "127.0.0.1:3456");
+    console.error(new Error("boom"));
+
+    const [started, failed] = lines.map(
+      (line) => JSON.parse(line) as { level: string; message: string },
+    );
+    assert.equal(started.level, "info");
+    assert.equal(started.message, "started on 127.0.0.1:3456");
+    assert.equal(failed.level, "error");
+    assert.match(failed.message, /^Error: boom\n {4}at /);
+  });
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Counter, Histogram, ServerMetrics } from "../src/metrics.js";
+import { connectTestClient, openWindow } from "./helpers.js";
+
+describe("metrics", () => {
+  it("renders counters and cumulative histogram buckets", () => {
+    const counter = new Counter("calls_total", "Calls.");
+    counter.inc({ tool: 'say "hi"' });
+    counter.inc({ tool: 'say "hi"' }, 2);
+    const histogram = new Histogram("duration_seconds", "Duration.", [1, 5]);
+    histogram.observe({ tool: "a" }, 0.5);
+    histogram.observe({ tool: "a" }, 3);
+    histogram.observe({ tool: "a" }, 10);
+
+    assert.deepEqual(counter.render(), [
+      "# HELP calls_total Calls.",
+      "# TYPE calls_total counter",
+      'calls_total{tool="say \\"hi\\""} 3',
+    ]);
+    assert.deepEqual(histogram.render(), [
+      "# HELP duration_seconds Duration.",
+      "# TYPE duration_seconds histogram",
+      'duration_seconds_bucket{tool="a",le="1"} 1',
+      'duration_seconds_bucket{tool="a",le="5"} 2',
+      'duration_seconds_bucket{tool="a",le="+Inf"} 3',
+      'duration_seconds_sum{tool="a"} 13.5',
+      'duration_seconds_count{tool="a"} 3',
+    ]);
+  });
+
+  it("counts tool calls, failures by category and open browsers", async () => {
+    const metrics = new ServerMetrics();
+    const harness = await connectTestClient({ metrics });
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.failNext(
+      "windows.scrapeContent",
+      new Error("Session not found"),
+    );
+    const failed = await harness.callTool("scrape", { sessionId, windowId });
+    const category = failed._meta?.errorCategory as string;
+
+    assert.equal(
+      metrics.toolCalls.get({ tool: "createWindow", outcome: "success" }),
+      1,
+    );
+    assert.equal(
+      metrics.toolCalls.get({ tool: "scrape", outcome: "error" }),
+      1,
+    );
+    assert.equal(metrics.toolErrors.get({ tool: "scrape", category }), 1);
+    const text = metrics.render();
+    assert.match(
+      text,
+      /^airtop_mcp_tool_duration_seconds_count\{tool="scrape"\} 1$/m,
+    );
+    assert.match(text, /^airtop_mcp_active_sessions 1$/m);
+    assert.match(text, /^airtop_mcp_active_windows 1$/m);
+    await harness.close();
+  });
+});
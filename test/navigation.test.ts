@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { serializeWindow } from "../src/session-registry.js";
+import {
+  connectTestClient,
+  jsonOf,
+  openWindow,
+  TestHarness,
+  textOf,
+} from "./helpers.js";
+
+type SerializedWindow = ReturnType<typeof serializeWindow>;
+
+describe("navigation tools", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await connectTestClient();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  // The URL the fake browser window is showing
+  function currentUrl(sessionId: string, windowId: string) {
+    return harness.backend.sessionsById.get(sessionId)?.windows.get(windowId)
+      ?.url;
+  }
+
+  it("passes window options to createWindow", async () => {
+    const { id } = jsonOf<{ id: string }>(
+      await harness.callTool("createSession"),
+    );
+    await harness.callTool("createWindow", {
+      sessionId: id,
+      url: "https://example.com",
+      screenResolution: "1280x720",
+      waitUntil: "domContentLoaded",
+    });
+    assert.deepEqual(harness.backend.callsTo("windows.create")[0].request, {
+      url: "https://example.com",
+      screenResolution: "1280x720",
+      waitUntil: "domContentLoaded",
+      waitUntilTimeoutSeconds: undefined,
+    });
+  });
+
+  it("navigates and moves through history", async () => {
+    const { sessionId, windowId } = await openWindow(harness, "https://a.test");
+    const navigated = jsonOf<SerializedWindow>(
+      await harness.callTool("navigate", {
+        sessionId,
+        windowId,
+        url: "https://b.test",
+      }),
+    );
+    assert.equal(navigated.url, "https://b.test");
+    assert.equal(navigated.canGoBack, true);
+
+    const back = jsonOf<SerializedWindow>(
+      await harness.callTool("goBack", { sessionId, windowId }),
+    );
+    assert.equal(back.url, "https://a.test");
+    assert.equal(back.canGoForward, true);
+    assert.equal(currentUrl(sessionId, windowId), "https://a.test");
+
+    await harness.callTool("goForward", { sessionId, windowId });
+    assert.equal(currentUrl(sessionId, windowId), "https://b.test");
+
+    await harness.callTool("reload", { sessionId, windowId });
+    assert.deepEqual(
+      harness.backend.callsTo("windows.loadUrl").map((call) => call.request),
+      [
+        { url: "https://b.test", waitUntil: "load" },
+        { url: "https://a.test", waitUntil: "load" },
+        { url: "https://b.test", waitUntil: "load" },
+        { url: "https://b.test", waitUntil: "load" },
+      ].map((request) => ({ ...request, waitUntilTimeoutSeconds: undefined })),
+    );
+  });
+
+  it("goes back from pages reached outside the navigation tools", async () => {
+    const { sessionId, windowId } = await openWindow(harness, "https://a.test");
+    // As if a click had followed a link
+    harness.backend.sessionsById.get(sessionId)!.windows.get(windowId)!.url =
+      "https://a.test/clicked";
+
+    await harness.callTool("goBack", { sessionId, windowId });
+    assert.equal(currentUrl(sessionId, windowId), "https://a.test");
+    const forward = jsonOf<SerializedWindow>(
+      await harness.callTool("goForward", { sessionId, windowId }),
+    );
+    assert.equal(forward.url, "https://a.test/clicked");
+  });
+
+  it("keeps where redirects end up in history, not the URL asked for", async () => {
+    const { sessionId, windowId } = await openWindow(harness, "https://a.test");
+    harness.backend.redirects.set("https://b.test", "https://b.test/login");
+    const navigated = jsonOf<SerializedWindow>(
+      await harness.callTool("navigate", {
+        sessionId,
+        windowId,
+        url: "https://b.test",
+      }),
+    );
+    assert.equal(navigated.url, "https://b.test/login");
+
+    const back = jsonOf<SerializedWindow>(
+      await harness.callTool("goBack", { sessionId, windowId }),
+    );
+    assert.equal(back.url, "https://a.test");
+    assert.equal(back.canGoBack, false);
+
+    // Going forward redirects again, and still leaves one entry per page
+    harness.backend.redirects.set(
+      "https://b.test/login",
+      "https://b.test/home",
+    );
+    const forward = jsonOf<SerializedWindow>(
+      await harness.callTool("goForward", { sessionId, windowId }),
+    );
+    assert.equal(forward.url, "https://b.test/home");
+    assert.equal(forward.canGoForward, false);
+    await harness.callTool("goBack", { sessionId, windowId });
+    assert.equal(currentUrl(sessionId, windowId), "https://a.test");
+  });
+
+  it("reports when there is no history to move through", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    const result = await harness.callTool("goBack", { sessionId, windowId });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /no earlier page/);
+    assert.deepEqual(result._meta, { errorCategory: "validation" });
+  });
+
+  it("reports navigation errors", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.failNext("windows.loadUrl", [{ message: "DNS failure" }]);
+    const result = await harness.callTool("navigate", {
+      sessionId,
+      windowId,
+      url: "https://nowhere.test",
+    });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /DNS failure/);
+  });
+
+  it("lists and closes windows, keeping resources in sync", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    const second = jsonOf<{ windowId: string }>(
+      await harness.callTool("createWindow", {
+        sessionId,
+        url: "https://second.test",
+      }),
+    );
+
+    const closed = await harness.callTool("closeWindow", {
+      sessionId,
+      windowId,
+    });
+    assert.equal(closed.isError, undefined);
+    const listed = jsonOf<{ windows: SerializedWindow[] }>(
+      await harness.callTool("listWindows", { sessionId }),
+    );
+    assert.deepEqual(
+      listed.windows.map((window) => [window.windowId, window.title]),
+      [[second.windowId, "Fake page at https://second.test"]],
+    );
+
+    const { resources } = await harness.client.listResources();
+    assert.ok(!resources.some((resource) => resource.uri.endsWith(windowId)));
+  });
+
+  it("reports closing an unknown window", async () => {
+    const { sessionId } = await openWindow(harness);
+    const result = await harness.callTool("closeWindow", {
+      sessionId,
+      windowId: "missing",
+    });
+    assert.deepEqual(result._meta, { errorCategory: "not_found" });
+  });
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { ProfileRecord, ProfileRegistry } from "../src/profile-registry.js";
+import { connectTestClient, jsonOf, TestHarness, textOf } from "./helpers.js";
+
+describe("profiles", () => {
+  let dir: string;
+  let file: string;
+  let profiles: ProfileRegistry;
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "airtop-profiles-"));
+    file = path.join(dir, "profiles.json");
+    profiles = await ProfileRegistry.load(file);
+    harness = await connectTestClient({ profiles });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+    await profiles.flush();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function createProfileSession(profileName: string, notes?: string) {
+    return jsonOf<{ id: string }>(
+      await harness.callTool("createSessionWithOptions", {
+        configuration: { profileName },
+        profileNotes: notes,
+      }),
+    ).id;
+  }
+
+  it("records profiles sessions use and save, across restarts", async () => {
+    const sessionId = await createProfileSession(
+      "github",
+      "Logged in as ci-bot",
+    );
+    await harness.callTool("terminateSession", { sessionId });
+    await profiles.flush();
+
+    const reloaded = await ProfileRegistry.load(file);
+    const profile = reloaded.get("github");
+    assert.equal(profile?.createdBySessionId, sessionId);
+    assert.equal(profile?.notes, "Logged in as ci-bot");
+    assert.ok(profile?.lastSavedAt);
+  });
+
+  it("lists and describes known profiles", async () => {
+    await createProfileSession("linear");
+    await createProfileSession("github");
+    const listed = jsonOf<{ profiles: ProfileRecord[] }>(
+      await harness.callTool("listProfiles"),
+    );
+    assert.deepEqual(
+      listed.profiles.map((profile) => profile.name),
+      ["github", "linear"],
+    );
+
+    const info = jsonOf<ProfileRecord>(
+      await harness.callTool("getProfileInfo", { profileName: "linear" }),
+    );
+    assert.equal(info.lastSavedAt, undefined);
+    const unknown = await harness.callTool("getProfileInfo", {
+      profileName: "jira",
+    });
+    assert.deepEqual(unknown._meta, { errorCategory: "not_found" });
+  });
+
+  it("updates notes", async () => {
+    await createProfileSession("github");
+    const updated = jsonOf<ProfileRecord>(
+      await harness.callTool("setProfileNotes", {
+        profileName: "github",
+        notes: "Personal account, do not use for CI",
+      }),
+    );
+    assert.equal(updated.notes, "Personal account, do not use for CI");
+  });
+
+  it("deletes profiles from Airtop and the registry", async () => {
+    await createProfileSession("github");
+    const result = await harness.callTool("deleteProfile", {
+      profileName: "github",
+    });
+    assert.deepEqual(jsonOf(result), {
+      profileName: "github",
+      deleted: true,
+      wasRecorded: true,
+    });
+    assert.deepEqual(harness.backend.deletedProfiles, ["github"]);
+    assert.equal(profiles.get("github"), undefined);
+  });
+
+  it("keeps the record when Airtop fails to delete", async () => {
+    await createProfileSession("github");
+    harness.backend.failNext("profiles.delete", new Error("Profile is in use"));
+    const result = await harness.callTool("deleteProfile", {
+      profileName: "github",
+    });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Profile is in use/);
+    assert.ok(profiles.get("github"));
+  });
+});
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Progress } from "@modelcontextprotocol/sdk/types.js";
+import { cancellationMiddleware } from "../src/tool-errors.js";
+import { ToolExtra } from "../src/tool-pipeline.js";
+import { connectTestClient, openWindow, TestHarness } from "./helpers.js";
+
+describe("long-running tools", () => {
+  let harness: TestHarness;
+  let sessionId: string;
+  let windowId: string;
+
+  beforeEach(async () => {
+    harness = await connectTestClient({ progressIntervalMs: 20 });
+    ({ sessionId, windowId } = await openWindow(harness));
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  function monitor(options: {
+    onprogress?: (progress: Progress) => void;
+    signal?: AbortSignal;
+  }) {
+    return harness.client.callTool(
+      {
+        name: "monitorForCondition",
+        arguments: {
+          sessionId,
+          windowId,
+          condition: "the report has loaded",
+          timeoutSeconds: 5,
+        },
+      },
+      undefined,
+      options,
+    );
+  }
+
+  it("reports progress while waiting", async () => {
+    harness.backend.delayNext("windows.monitor", 150);
+    const updates: Progress[] = [];
+    const result = await monitor({
+      onprogress: (progress) => updates.push(progress),
+    });
+    assert.equal(result.isError, undefined);
+    assert.ok(updates.length >= 2, `${updates.length} progress updates`);
+    for (const [index, update] of updates.entries()) {
+      assert.equal(update.total, 5);
+      assert.match(update.message!, /^Waiting for: the report has loaded/);
+      assert.ok(index === 0 || update.progress > updates[index - 1].progress);
+    }
+  });
+
+  it("aborts the Airtop request when the client cancels", async () => {
+    harness.backend.delayNext("windows.monitor", 5000);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    await assert.rejects(monitor({ signal: controller.signal }));
+    for (
+      let wait = 0;
+      wait < 50 && !harness.backend.abortedCalls.length;
+      wait++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.deepEqual(harness.backend.abortedCalls, ["windows.monitor"]);
+  });
+
+  it("aborts clicks and typing when the client cancels", async () => {
+    for (const [tool, args] of [
+      ["click", { elementDescription: "the submit button" }],
+      ["type", { text: "hello" }],
+    ] as const) {
+      harness.backend.delayNext(`windows.${tool}`, 5000);
+      await assert.rejects(
+        harness.client.callTool(
+          { name: tool, arguments: { sessionId, windowId, ...args } },
+          undefined,
+          { signal: AbortSignal.timeout(50) },
+        ),
+      );
+    }
+    for (
+      let wait = 0;
+      wait < 50 && harness.backend.abortedCalls.length < 2;
+      wait++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.deepEqual(harness.backend.abortedCalls, [
+      "windows.click",
+      "windows.type",
+    ]);
+  });
+});
+
+describe("cancellationMiddleware", () => {
+  it("ends the call with a cancelled result as soon as it is aborted", async () => {
+    const controller = new AbortController();
+    const call = {
+      name: "paginatedExtraction",
+      args: {},
+      extra: { signal: controller.signal } as ToolExtra,
+    };
+    const result = cancellationMiddleware()(call, () => new Promise(() => {}));
+    controller.abort();
+    assert.deepEqual(await result, {
+      content: [{ type: "text", text: "paginatedExtraction was cancelled" }],
+      isError: true,
+      _meta: { errorCategory: "cancelled" },
+    });
+  });
+
+  it("passes through results and errors of calls that aren't cancelled", async () => {
+    const call = {
+      name: "scrape",
+      args: {},
+      extra: { signal: new AbortController().signal } as ToolExtra,
+    };
+    const result = { content: [] };
+    assert.equal(
+      await cancellationMiddleware()(call, () => Promise.resolve(result)),
+      result,
+    );
+    await assert.rejects(
+      cancellationMiddleware()(call, () => Promise.reject(new Error("boom"))),
+      /boom/,
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { loadPromptTemplates } from "../src/prompts.js";
+import { connectTestClient } from "./helpers.js";
+
+function textsOf(result: GetPromptResult) {
+  return result.messages.map(({ content }) =>
+    content.type === "text" ? content.text : "",
+  );
+}
+
+describe("prompts", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "airtop-prompts-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("offers the workflow prompts whose tools are registered", async () => {
+    const all = await connectTestClient();
+    const { prompts } = await all.client.listPrompts();
+    assert.deepEqual(prompts.map(({ name }) => name).sort(), [
+      "extract-table-to-json",
+      "fill-form",
+      "login-with-handoff",
+      "monitor-until",
+    ]);
+    await all.close();
+
+    const readOnly = await connectTestClient({
+      tools: { preset: "read-only" },
+    });
+    const names = (await readOnly.client.listPrompts()).prompts.map(
+      ({ name }) => name,
+    );
+    assert.equal(names.includes("fill-form"), false);
+    assert.equal(names.includes("extract-table-to-json"), true);
+    await readOnly.close();
+  });
+
+  it("expands prompts into steps using the real tools", async () => {
+    const harness = await connectTestClient();
+    const login = await harness.client.getPrompt({
+      name: "login-with-handoff",
+      arguments: { url: "https://app.example.com", profileName: "work" },
+    });
+    const [text] = textsOf(login);
+    assert.match(
+      text,
+      /"createSessionWithOptions" with configuration\.profileName "work"/,
+    );
+    assert.match(text, /"getWindowInfo" and send me its liveViewUrl/);
+
+    const extract = await harness.client.getPrompt({
+      name: "extract-table-to-json",
+      arguments: {
+        data: "the invoices table",
+        fields: "number, amount",
+        sessionId: "session-1",
+        windowId: "window-1",
+      },
+    });
+    const [extractText] = textsOf(extract);
+    assert.match(extractText, /Work in window window-1 of session session-1/);
+    assert.match(extractText, /properties "number", "amount"/);
+    await harness.close();
+  });
+
+  it("adds templates from a directory, replacing built-ins by name", async () => {
+    await writeFile(
+      path.join(dir, "weekly-report.json"),
+      JSON.stringify({
+        name: "weekly-report",
+        description: "Download the weekly report",
+        tools: ["downloadFile"],
+        arguments: [{ name: "team", required: true }, { name: "week" }],
+        messages: [
+          {
+            role: "user",
+            text: "Get the {{team}} report for {{week}} as {{secret:USER}}.",
+          },
+        ],
+      }),
+    );
+    await writeFile(
+      path.join(dir, "monitor-until.json"),
+      JSON.stringify({
+        name: "monitor-until",
+        messages: [{ role: "user", text: "Our own monitoring steps" }],
+      }),
+    );
+    await writeFile(path.join(dir, "notes.txt"), "not a template");
+
+    const harness = await connectTestClient({
+      prompts: await loadPromptTemplates(dir),
+    });
+    const report = await harness.client.getPrompt({
+      name: "weekly-report",
+      arguments: { team: "sales" },
+    });
+    assert.deepEqual(textsOf(report), [
+      "Get the sales report for  as {{secret:USER}}.",
+    ]);
+    const monitor = await harness.client.getPrompt({ name: "monitor-until" });
+    assert.deepEqual(textsOf(monitor), ["Our own monitoring steps"]);
+    await harness.close();
+
+    const readOnly = await connectTestClient({
+      prompts: await loadPromptTemplates(dir),
+      tools: { preset: "read-only" },
+    });
+    const names = (await readOnly.client.listPrompts()).prompts.map(
+      ({ name }) => name,
+    );
+    assert.equal(names.includes("weekly-report"), false);
+    await readOnly.close();
+  });
+
+  it("rejects invalid templates", async () => {
+    await writeFile(
+      path.join(dir, "broken.json"),
+      JSON.stringify({ name: "no spaces allowed", messages: [] }),
+    );
+    await assert.rejects(
+      loadPromptTemplates(dir),
+      /Invalid prompt template .*broken\.json: name: use letters, digits, - and _; messages: /,
+    );
+    await assert.rejects(
+      loadPromptTemplates(path.join(dir, "missing")),
+      /Cannot read prompts directory/,
+    );
+  });
+});
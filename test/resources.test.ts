@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { connectTestClient, jsonOf } from "./helpers.js";
+
+interface SessionResource {
+  sessionId: string;
+  profileName?: string;
+  windows: { windowId: string; url?: string }[];
+}
+
+describe("session resources", () => {
+  it("lists the sessions and windows opened through the server", async () => {
+    const harness = await connectTestClient();
+    const session = jsonOf<{ id: string }>(
+      await harness.callTool("createSessionWithOptions", {
+        configuration: { profileName: "work" },
+      }),
+    );
+    const window = jsonOf<{ windowId: string }>(
+      await harness.callTool("createWindow", {
+        sessionId: session.id,
+        url: "https://example.com",
+      }),
+    );
+    const sessionUri = `airtop://sessions/${session.id}`;
+    const windowUri = `${sessionUri}/windows/${window.windowId}`;
+
+    const { resources } = await harness.client.listResources();
+    assert.deepEqual(
+      resources
+        .map(({ uri }) => uri)
+        .filter((uri) => uri.startsWith("airtop://sessions"))
+        .sort(),
+      ["airtop://sessions", sessionUri, windowUri],
+    );
+
+    const read = async <T>(uri: string) =>
+      JSON.parse(
+        (await harness.client.readResource({ uri })).contents[0].text as string,
+      ) as T;
+    const [listed] = await read<SessionResource[]>("airtop://sessions");
+    assert.equal(listed.sessionId, session.id);
+    assert.equal(listed.profileName, "work");
+    assert.deepEqual(
+      listed.windows.map(({ windowId, url }) => ({ windowId, url })),
+      [{ windowId: window.windowId, url: "https://example.com" }],
+    );
+    assert.deepEqual(await read(sessionUri), listed);
+    assert.deepEqual(await read(windowUri), listed.windows[0]);
+    await harness.close();
+  });
+
+  it("notifies clients when sessions and windows change", async () => {
+    const harness = await connectTestClient();
+    let notifications = 0;
+    harness.client.setNotificationHandler(
+      ResourceListChangedNotificationSchema,
+      () => {
+        notifications++;
+      },
+    );
+    const session = jsonOf<{ id: string }>(
+      await harness.callTool("createSession"),
+    );
+    await harness.callTool("createWindow", {
+      sessionId: session.id,
+      url: "https://example.com",
+    });
+    await harness.callTool("terminateSession", { sessionId: session.id });
+    assert.equal(notifications, 3);
+
+    const { contents } = await harness.client.readResource({
+      uri: "airtop://sessions",
+    });
+    assert.deepEqual(JSON.parse(contents[0].text as string), []);
+    await harness.close();
+  });
+
+  it("reports unknown sessions and windows", async () => {
+    const harness = await connectTestClient();
+    await assert.rejects(
+      harness.client.readResource({ uri: "airtop://sessions/missing" }),
+      /Unknown session: missing/,
+    );
+    await assert.rejects(
+      harness.client.readResource({
+        uri: "airtop://sessions/missing/windows/nope",
+      }),
+      /Unknown window: nope/,
+    );
+    await harness.close();
+  });
+});
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { StepResult } from "../src/run-steps.js";
+import {
+  connectTestClient,
+  jsonOf,
+  openWindow,
+  TestHarness,
+} from "./helpers.js";
+
+interface RunStepsReport {
+  completed: boolean;
+  steps: StepResult[];
+  variables: Record<string, string>;
+}
+
+describe("runSteps", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await connectTestClient();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("runs steps in order and interpolates captured output", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.respondNext("windows.pageQuery", '{"user":{"name":"Ada"}}');
+    const result = await harness.callTool("runSteps", {
+      sessionId,
+      windowId,
+      steps: [
+        { action: "navigate", url: "https://example.com/login" },
+        { action: "pageQuery", prompt: "Who is it?", captureAs: "who" },
+        { action: "type", text: "{{who.user.name}}" },
+        { action: "click", elementDescription: "submit" },
+      ],
+    });
+    const report = jsonOf<RunStepsReport>(result);
+    assert.equal(result.isError, false);
+    assert.equal(report.completed, true);
+    assert.deepEqual(
+      report.steps.map((step) => step.status),
+      ["ok", "ok", "ok", "ok"],
+    );
+    assert.deepEqual(harness.backend.callsTo("windows.type")[0].request, {
+      text: "Ada",
+    });
+    assert.equal(
+      harness.backend.sessionsById.get(sessionId)?.windows.get(windowId)?.url,
+      "https://example.com/login",
+    );
+  });
+
+  it("records navigate steps in the window's history", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.redirects.set(
+      "https://example.com/login",
+      "https://example.com/login?next=%2F",
+    );
+    await harness.callTool("runSteps", {
+      sessionId,
+      windowId,
+      steps: [{ action: "navigate", url: "https://example.com/login" }],
+    });
+    const { contents } = await harness.client.readResource({
+      uri: `airtop://sessions/${sessionId}/windows/${windowId}`,
+    });
+    const window = JSON.parse(contents[0].text as string) as {
+      url: string;
+      canGoBack: boolean;
+    };
+    assert.equal(window.url, "https://example.com/login?next=%2F");
+    assert.equal(window.canGoBack, true);
+  });
+
+  it("skips the remaining steps after a failure", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.failNext("windows.click", [{ message: "No such button" }]);
+    const result = await harness.callTool("runSteps", {
+      sessionId,
+      windowId,
+      steps: [
+        { action: "click", elementDescription: "missing" },
+        { action: "scroll" },
+      ],
+    });
+    const report = jsonOf<RunStepsReport>(result);
+    assert.equal(result.isError, true);
+    assert.deepEqual(
+      report.steps.map((step) => [step.status, step.error]),
+      [
+        ["error", "No such button"],
+        ["skipped", undefined],
+      ],
+    );
+    assert.equal(harness.backend.callsTo("windows.scroll").length, 0);
+  });
+
+  it("keeps going when stopOnError is false", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    const result = await harness.callTool("runSteps", {
+      sessionId,
+      windowId,
+      stopOnError: false,
+      steps: [
+        { action: "type", text: "{{unknown}}" },
+        { action: "monitor", condition: "page loaded" },
+      ],
+    });
+    const report = jsonOf<RunStepsReport>(result);
+    assert.equal(report.completed, false);
+    assert.deepEqual(
+      report.steps.map((step) => step.status),
+      ["error", "ok"],
+    );
+    assert.match(report.steps[0].error ?? "", /Unknown variable/);
+  });
+
+  it("times out a step that runs past its own timeout", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.delayNext("windows.monitor", 5000);
+    const result = await harness.callTool("runSteps", {
+      sessionId,
+      windowId,
+      steps: [
+        {
+          action: "monitor",
+          condition: "the report has loaded",
+          timeoutSeconds: 0.05,
+        },
+        { action: "scroll" },
+      ],
+    });
+    const report = jsonOf<RunStepsReport>(result);
+    assert.equal(result.isError, true);
+    assert.deepEqual(
+      report.steps.map((step) => [step.status, step.error]),
+      [
+        ["timeout", "Step timed out after 0.05 seconds"],
+        ["skipped", undefined],
+      ],
+    );
+    assert.deepEqual(harness.backend.abortedCalls, ["windows.monitor"]);
+  });
+
+  it("aborts the current step and runs no more once cancelled", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.delayNext("windows.monitor", 5000);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    await assert.rejects(
+      harness.client.callTool(
+        {
+          name: "runSteps",
+          arguments: {
+            sessionId,
+            windowId,
+            stopOnError: false,
+            steps: [
+              { action: "monitor", condition: "the report has loaded" },
+              { action: "scroll" },
+            ],
+          },
+        },
+        undefined,
+        { signal: controller.signal },
+      ),
+    );
+    for (
+      let wait = 0;
+      wait < 50 && !harness.backend.abortedCalls.length;
+      wait++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.deepEqual(harness.backend.abortedCalls, ["windows.monitor"]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal(harness.backend.callsTo("windows.scroll").length, 0);
+  });
+});
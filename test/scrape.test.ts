@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { ResourceLink } from "@modelcontextprotocol/sdk/types.js";
+import { splitPages } from "../src/content-store.js";
+import {
+  connectTestClient,
+  jsonOf,
+  openWindow,
+  TestHarness,
+  textOf,
+} from "./helpers.js";
+
+interface ScrapePage {
+  title?: string;
+  url?: string;
+  format: string;
+  contentType: string;
+  content: string;
+  page?: number;
+  pages?: number;
+  nextCursor?: string;
+}
+
+// 30 numbered lines of 100 characters
+const LONG_TEXT = Array.from(
+  { length: 30 },
+  (_, line) => `${String(line).padStart(2, "0")} ${"x".repeat(96)}\n`,
+).join("");
+
+describe("splitPages", () => {
+  it("breaks pages after newlines", () => {
+    assert.deepEqual(splitPages(LONG_TEXT, 1050), [0, 1000, 2000]);
+  });
+
+  it("breaks mid-line when there is no newline to break at", () => {
+    assert.deepEqual(splitPages("a".repeat(25), 10), [0, 10, 20]);
+  });
+});
+
+describe("scrape", () => {
+  let harness: TestHarness;
+  let sessionId: string;
+  let windowId: string;
+
+  beforeEach(async () => {
+    harness = await connectTestClient();
+    ({ sessionId, windowId } = await openWindow(harness));
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("returns short content whole", async () => {
+    const result = jsonOf<ScrapePage>(
+      await harness.callTool("scrape", { sessionId, windowId }),
+    );
+    assert.deepEqual(result, {
+      title: "Fake page at https://example.com",
+      format: "text",
+      contentType: "text/plain",
+      content: "Content of https://example.com",
+    });
+  });
+
+  it("reads the page as markdown or links", async () => {
+    const markdown = jsonOf<ScrapePage>(
+      await harness.callTool("scrape", {
+        sessionId,
+        windowId,
+        format: "markdown",
+      }),
+    );
+    assert.equal(
+      markdown.content,
+      "# Fake page\n\nContent of https://example.com",
+    );
+    assert.equal(markdown.contentType, "text/markdown");
+    assert.equal(markdown.url, "https://example.com");
+
+    const links = jsonOf<ScrapePage>(
+      await harness.callTool("scrape", {
+        sessionId,
+        windowId,
+        format: "links",
+      }),
+    );
+    assert.equal(links.content, "- [Home](https://example.com)");
+    assert.deepEqual(
+      harness.backend.callsTo("input.readPage").map((call) => call.request),
+      [{ format: "markdown" }, { format: "links" }],
+    );
+    assert.equal(harness.backend.callsTo("windows.scrapeContent").length, 0);
+  });
+
+  it("continues long content with cursors", async () => {
+    harness.backend.respondNext("windows.scrapeContent", LONG_TEXT);
+    const pages: ScrapePage[] = [
+      jsonOf<ScrapePage>(
+        await harness.callTool("scrape", {
+          sessionId,
+          windowId,
+          maxLength: 1050,
+        }),
+      ),
+    ];
+    while (pages[pages.length - 1].nextCursor) {
+      pages.push(
+        jsonOf<ScrapePage>(
+          await harness.callTool("scrape", {
+            sessionId,
+            windowId,
+            cursor: pages[pages.length - 1].nextCursor,
+          }),
+        ),
+      );
+    }
+    assert.deepEqual(
+      pages.map(({ page, pages }) => [page, pages]),
+      [
+        [1, 3],
+        [2, 3],
+        [3, 3],
+      ],
+    );
+    assert.equal(pages.map((page) => page.content).join(""), LONG_TEXT);
+    assert.equal(harness.backend.callsTo("windows.scrapeContent").length, 1);
+  });
+
+  it("rejects unknown cursors", async () => {
+    const result = await harness.callTool("scrape", {
+      sessionId,
+      windowId,
+      cursor: "missing:1",
+    });
+    assert.deepEqual(result._meta, { errorCategory: "validation" });
+    assert.match(textOf(result), /Scrape the window again/);
+  });
+
+  it("returns resource links to stored content", async () => {
+    harness.backend.respondNext("windows.scrapeContent", LONG_TEXT);
+    const result = await harness.callTool("scrape", {
+      sessionId,
+      windowId,
+      maxLength: 1050,
+      asResource: true,
+    });
+    const summary = jsonOf<{ contentId: string; pages: number }>({
+      content: result.content.slice(0, 1),
+    });
+    assert.equal(summary.pages, 3);
+    const links = result.content.slice(1) as ResourceLink[];
+    assert.deepEqual(
+      links.map((link) => link.type),
+      ["resource_link", "resource_link", "resource_link"],
+    );
+
+    const second = await harness.client.readResource({ uri: links[1].uri });
+    assert.deepEqual(second.contents, [
+      {
+        uri: `airtop://content/${summary.contentId}/pages/2`,
+        mimeType: "text/plain",
+        text: LONG_TEXT.slice(1000, 2000),
+      },
+    ]);
+    await assert.rejects(
+      harness.client.readResource({
+        uri: `airtop://content/${summary.contentId}/pages/4`,
+      }),
+      /Unknown or expired content page/,
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import {
+  decryptSecrets,
+  encryptSecrets,
+  SecretError,
+  SecretStore,
+} from "../src/secrets.js";
+import { readTrace } from "../src/trace.js";
+import {
+  connectTestClient,
+  jsonOf,
+  openWindow,
+  TestHarness,
+  textOf,
+} from "./helpers.js";
+
+const PASSWORD = "correct-horse-battery";
+
+describe("SecretStore", () => {
+  const store = new SecretStore({ GH_PASSWORD: PASSWORD, PIN: "12" });
+
+  it("resolves placeholders and reports unknown ones", () => {
+    assert.equal(store.resolve("pw={{secret:GH_PASSWORD}}"), `pw=${PASSWORD}`);
+    assert.deepEqual(
+      store.unknownNames("{{secret:GH_PASSWORD}} {{secret:MISSING}}"),
+      ["MISSING"],
+    );
+    assert.throws(() => store.resolve("{{secret:MISSING}}"), SecretError);
+  });
+
+  it("redacts values in nested output, except very short ones", () => {
+    assert.deepEqual(
+      store.redact({ text: [`typed ${PASSWORD}`], pin: "12", count: 1 }),
+      { text: ["typed {{secret:GH_PASSWORD}}"], pin: "12", count: 1 },
+    );
+  });
+
+  it("round-trips the encrypted file format", () => {
+    const encrypted = encryptSecrets({ GH_PASSWORD: PASSWORD }, "passphrase");
+    assert.ok(!JSON.stringify(encrypted).includes(PASSWORD));
+    assert.deepEqual(decryptSecrets(encrypted, "passphrase"), {
+      GH_PASSWORD: PASSWORD,
+    });
+    assert.throws(() => decryptSecrets(encrypted, "wrong"), SecretError);
+  });
+
+  it("loads the secrets file and environment, the environment winning", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "airtop-secrets-"));
+    const file = path.join(dir, "secrets.json");
+    await writeFile(
+      file,
+      JSON.stringify(encryptSecrets({ A: "from-file", B: "file-only" }, "pw")),
+    );
+    const loaded = await SecretStore.load(
+      { AIRTOP_SECRETS_KEY: "pw", AIRTOP_SECRET_A: "from-env" },
+      file,
+    );
+    await rm(dir, { recursive: true, force: true });
+    assert.equal(
+      loaded.resolve("{{secret:A}} {{secret:B}}"),
+      "from-env file-only",
+    );
+    await assert.rejects(SecretStore.load({}, file), /AIRTOP_SECRETS_KEY/);
+  });
+});
+
+describe("secret placeholders in tools", () => {
+  let harness: TestHarness;
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "airtop-trace-"));
+    harness = await connectTestClient({
+      secrets: new SecretStore({ GH_PASSWORD: PASSWORD }),
+      traces: { dir, record: true },
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("types the secret but never returns or records it", async () => {
+    const target = await openWindow(harness);
+    harness.backend.respondNext("windows.type", `Typed ${PASSWORD}`);
+    const result = await harness.callTool("type", {
+      ...target,
+      text: "{{secret:GH_PASSWORD}}",
+      elementDescription: "the password field",
+    });
+    assert.deepEqual(harness.backend.callsTo("windows.type")[0].request, {
+      text: PASSWORD,
+      elementDescription: "the password field",
+    });
+    assert.equal(
+      jsonOf<{ modelResponse: string }>(result).modelResponse,
+      "Typed {{secret:GH_PASSWORD}}",
+    );
+
+    let steps: unknown[] = [];
+    while (steps.length < 3) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const [file] = await readdir(dir);
+      steps = file ? await readTrace(path.join(dir, file)) : [];
+    }
+    assert.ok(!JSON.stringify(steps).includes(PASSWORD));
+  });
+
+  it("rejects unknown secrets before calling Airtop", async () => {
+    const target = await openWindow(harness);
+    const result = await harness.callTool("type", {
+      ...target,
+      text: "{{secret:NOPE}}",
+    });
+    assert.deepEqual(result._meta, { errorCategory: "validation" });
+    assert.match(textOf(result), /Unknown secrets: NOPE/);
+    assert.equal(harness.backend.callsTo("windows.type").length, 0);
+  });
+
+  it("resolves secrets in runSteps", async () => {
+    const target = await openWindow(harness);
+    const result = await harness.callTool("runSteps", {
+      ...target,
+      steps: [
+        { action: "type", text: "{{secret:GH_PASSWORD}}" },
+        { action: "type", text: "{{secret:NOPE}}" },
+      ],
+    });
+    assert.equal(
+      (harness.backend.callsTo("windows.type")[0].request as { text: string })
+        .text,
+      PASSWORD,
+    );
+    const { steps } = jsonOf<{ steps: { status: string; error?: string }[] }>(
+      result,
+    );
+    assert.equal(steps[1].status, "error");
+    assert.match(steps[1].error!, /Unknown secrets: NOPE/);
+  });
+});
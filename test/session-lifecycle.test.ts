@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import {
+  countSessions,
+  SessionLifecycleManager,
+  SessionLimits,
+  terminateAllSessions,
+} from "../src/session-lifecycle.js";
+import { SessionRegistry } from "../src/session-registry.js";
+import { connectTestClient, jsonOf } from "./helpers.js";
+
+function createManager(limits: SessionLimits = {}) {
+  const registry = new SessionRegistry();
+  const terminated: string[] = [];
+  // Sessions whose next terminate call fails
+  const failing = new Set<string>();
+  const manager = new SessionLifecycleManager(
+    registry,
+    (sessionId) => {
+      if (failing.delete(sessionId)) {
+        return Promise.reject(new Error("fetch failed"));
+      }
+      terminated.push(sessionId);
+      return Promise.resolve();
+    },
+    limits,
+  );
+  return { registry, manager, terminated, failing };
+}
+
+describe("session lifecycle", () => {
+  afterEach(async () => {
+    await terminateAllSessions();
+  });
+
+  it("caps sessions across every client, counting ones being created", () => {
+    const first = createManager({ maxSessions: 2 });
+    const second = createManager({ maxSessions: 2 });
+    first.registry.addSession("a");
+    const release = second.manager.reserveSession();
+    assert.ok(release);
+    assert.equal(countSessions(), 2);
+    assert.equal(first.manager.reserveSession(), undefined);
+
+    release();
+    // Releasing twice doesn't free a second slot
+    release();
+    assert.equal(countSessions(), 1);
+    assert.ok(first.manager.reserveSession());
+  });
+
+  it("terminates everything a client opened once it disconnects", async () => {
+    const { registry, manager, terminated } = createManager();
+    registry.addSession("a");
+    registry.addSession("b");
+    await manager.dispose();
+    assert.deepEqual(terminated.sort(), ["a", "b"]);
+    assert.deepEqual(registry.listSessions(), []);
+    assert.equal(countSessions(), 0);
+  });
+
+  it("keeps tracking sessions that fail to terminate", async () => {
+    const { registry, manager, terminated, failing } = createManager();
+    registry.addSession("a");
+    failing.add("a");
+    await assert.rejects(manager.terminate("a"), /fetch failed/);
+    assert.ok(registry.getSession("a"));
+    assert.equal(countSessions(), 1);
+
+    // Still counted after the client disconnects, and tried again at shutdown
+    failing.add("a");
+    await manager.dispose();
+    assert.equal(countSessions(), 1);
+    await terminateAllSessions();
+    assert.deepEqual(terminated, ["a"]);
+    assert.equal(countSessions(), 0);
+  });
+
+  it("never terminates sessions adopted from outside the server", async () => {
+    const { registry, manager, terminated } = createManager({
+      maxSessions: 1,
+    });
+    registry.addWindow("external", "window-1", "https://example.com");
+    assert.equal(registry.getSession("external")?.adopted, true);
+    assert.equal(countSessions(), 0);
+    assert.ok(manager.reserveSession());
+
+    await manager.dispose();
+    assert.deepEqual(terminated, []);
+  });
+
+  describe("idle reaper", () => {
+    beforeEach(() => {
+      mock.timers.enable({ apis: ["setInterval", "Date"] });
+    });
+
+    afterEach(() => {
+      mock.timers.reset();
+    });
+
+    it("terminates sessions with no tool activity for too long", async () => {
+      const { registry, manager, terminated } = createManager({
+        idleTimeoutMinutes: 5,
+      });
+      registry.addSession("idle");
+      registry.addSession("busy");
+      registry.syncWindows("external", []);
+      for (let minute = 1; minute <= 6; minute++) {
+        manager.touch("busy");
+        mock.timers.tick(60 * 1000);
+        await Promise.resolve();
+      }
+      assert.deepEqual(terminated, ["idle"]);
+      assert.deepEqual(
+        registry.listSessions().map(({ sessionId }) => sessionId),
+        ["busy", "external"],
+      );
+    });
+  });
+
+  it("terminates a client's sessions through Airtop when it disconnects", async () => {
+    const harness = await connectTestClient();
+    const other = await connectTestClient();
+    const { id } = jsonOf<{ id: string }>(
+      await harness.callTool("createSessionWithOptions", {
+        configuration: { profileName: "work" },
+      }),
+    );
+    const kept = jsonOf<{ id: string }>(await other.callTool("createSession"));
+
+    await harness.close();
+    // Terminating through Airtop saves the session's profile
+    const [terminated] = harness.backend.terminatedSessions;
+    assert.equal(terminated.id, id);
+    assert.equal(terminated.saveProfileAs, "work");
+    assert.ok(other.backend.sessionsById.has(kept.id));
+    await other.close();
+  });
+
+  it("leaves a session another client started running after using it", async () => {
+    const owner = await connectTestClient();
+    const { id } = jsonOf<{ id: string }>(
+      await owner.callTool("createSession"),
+    );
+    // Another server instance using the same Airtop account
+    const other = await connectTestClient({ backend: owner.backend });
+    const window = await other.callTool("createWindow", {
+      sessionId: id,
+      url: "https://example.com",
+    });
+    assert.equal(window.isError, undefined);
+
+    await other.close();
+    assert.ok(owner.backend.sessionsById.has(id));
+    await owner.close();
+    assert.deepEqual(
+      owner.backend.terminatedSessions.map((session) => session.id),
+      [id],
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SessionPool } from "../src/session-pool.js";
+import { UsageTracker } from "../src/usage.js";
+import { FakeBrowserBackend } from "./fake-backend.js";
+import { connectTestClient, jsonOf } from "./helpers.js";
+
+interface Lease {
+  id: string;
+  warm: boolean;
+  expiresAt: string;
+}
+
+async function warmPool(size = 1, now?: () => number) {
+  const backend = new FakeBrowserBackend();
+  const pool = new SessionPool(backend, { size }, {}, now);
+  await pool.warm();
+  return { backend, pool };
+}
+
+describe("session pool", () => {
+  it("hands out warm sessions and starts replacements", async () => {
+    const { backend, pool } = await warmPool();
+    const [warmId] = backend.sessionsById.keys();
+    const harness = await connectTestClient({ backend, pool });
+
+    const lease = jsonOf<Lease>(await harness.callTool("acquireSession"));
+    assert.equal(lease.id, warmId);
+    assert.equal(lease.warm, true);
+    assert.deepEqual(
+      backend.callsTo("sessions.getInfo").map((call) => call.sessionId),
+      [warmId],
+    );
+    assert.deepEqual(pool.counts(), { idle: 1, leased: 1 });
+
+    const { contents } = await harness.client.readResource({
+      uri: "airtop://sessions",
+    });
+    assert.match(contents[0].text as string, new RegExp(warmId));
+    await harness.close();
+    await pool.close();
+  });
+
+  it("returns released sessions to the pool with their windows closed", async () => {
+    const { backend, pool } = await warmPool();
+    const harness = await connectTestClient({ backend, pool });
+    // The replacement fails to start, so the pool has room for the session
+    backend.failNext("sessions.create", new Error("fetch failed"));
+    const lease = jsonOf<Lease>(await harness.callTool("acquireSession"));
+    await harness.callTool("createWindow", {
+      sessionId: lease.id,
+      url: "https://example.com/account",
+    });
+
+    const released = jsonOf(
+      await harness.callTool("releaseSession", { sessionId: lease.id }),
+    );
+    assert.deepEqual(released, { sessionId: lease.id, outcome: "returned" });
+    assert.equal(backend.sessionsById.get(lease.id)?.windows.size, 0);
+    assert.deepEqual(pool.counts(), { idle: 1, leased: 0 });
+
+    const again = jsonOf<Lease>(await harness.callTool("acquireSession"));
+    assert.equal(again.id, lease.id);
+    await harness.close();
+    await pool.close();
+  });
+
+  it("never hands a released session to another client", async () => {
+    const { backend, pool } = await warmPool();
+    const owner = await connectTestClient({ backend, pool });
+    const other = await connectTestClient({ backend, pool });
+    backend.failNext("sessions.create", new Error("fetch failed"));
+    const lease = jsonOf<Lease>(await owner.callTool("acquireSession"));
+    const released = jsonOf(
+      await owner.callTool("releaseSession", { sessionId: lease.id }),
+    );
+    assert.equal(released.outcome, "returned");
+
+    // The session still has the owner's cookies, so it is retired instead
+    const next = jsonOf<Lease>(await other.callTool("acquireSession"));
+    assert.notEqual(next.id, lease.id);
+    assert.equal(next.warm, false);
+    assert.deepEqual(
+      backend.terminatedSessions.map(({ id }) => id),
+      [lease.id],
+    );
+    await owner.close();
+    await other.close();
+    await pool.close();
+  });
+
+  it("recycles sessions that are terminated, keep a profile or are abandoned", async () => {
+    const { backend, pool } = await warmPool();
+    const harness = await connectTestClient({ backend, pool });
+    const terminated = jsonOf<Lease>(await harness.callTool("acquireSession"));
+    await harness.callTool("terminateSession", { sessionId: terminated.id });
+
+    const profiled = jsonOf<Lease>(
+      await harness.callTool("acquireSession", {
+        configuration: { profileName: "work" },
+      }),
+    );
+    assert.equal(profiled.warm, false);
+    const released = jsonOf(
+      await harness.callTool("releaseSession", { sessionId: profiled.id }),
+    );
+    assert.equal(released.outcome, "recycled");
+
+    const abandoned = jsonOf<Lease>(await harness.callTool("acquireSession"));
+    await harness.close();
+    await pool.checkHealth();
+
+    const ended = backend.terminatedSessions.map(({ id }) => id);
+    assert.deepEqual(ended, [terminated.id, profiled.id, abandoned.id]);
+    assert.equal(
+      backend.terminatedSessions.find(({ id }) => id === profiled.id)
+        ?.saveProfileAs,
+      "work",
+    );
+    assert.deepEqual(pool.counts(), { idle: 2, leased: 0 });
+    await pool.close();
+  });
+
+  it("only lets the client that acquired a session give it back", async () => {
+    const { backend, pool } = await warmPool();
+    const owner = await connectTestClient({ backend, pool });
+    const other = await connectTestClient({ backend, pool });
+    const lease = jsonOf<Lease>(await owner.callTool("acquireSession"));
+
+    const released = await other.callTool("releaseSession", {
+      sessionId: lease.id,
+    });
+    assert.deepEqual(released._meta, { errorCategory: "validation" });
+    const terminated = await other.callTool("terminateSession", {
+      sessionId: lease.id,
+    });
+    assert.equal(terminated.isError, true);
+    assert.ok(backend.sessionsById.has(lease.id));
+    assert.deepEqual(pool.counts(), { idle: 1, leased: 1 });
+    await owner.close();
+    await other.close();
+    await pool.close();
+  });
+
+  it("retires idle sessions that are too old or no longer running", async () => {
+    let now = 0;
+    const { backend, pool } = await warmPool(2, () => now);
+    const [first, second] = backend.sessionsById.keys();
+    backend.expireSession(first);
+    await pool.checkHealth();
+    assert.deepEqual(pool.counts(), { idle: 2, leased: 0 });
+    assert.ok(!backend.sessionsById.has(first));
+    assert.ok(backend.sessionsById.has(second));
+
+    const replacement = [...backend.sessionsById.keys()].find(
+      (id) => id !== second,
+    );
+
+    now = 31 * 60 * 1000;
+    await pool.checkHealth();
+    assert.deepEqual(
+      backend.terminatedSessions.map(({ id }) => id),
+      [second, replacement],
+    );
+    assert.deepEqual(pool.counts(), { idle: 2, leased: 0 });
+    await pool.close();
+    assert.equal(backend.sessionsById.size, 0);
+  });
+
+  it("refuses warm sessions once the usage budget is used up", async () => {
+    const { backend, pool } = await warmPool();
+    let now = 0;
+    const usage = new UsageTracker({ sessionMinutes: 10 }, () => now);
+    const harness = await connectTestClient({ backend, pool, usage });
+    await harness.callTool("createSession");
+    now = 11 * 60 * 1000;
+
+    const refused = await harness.callTool("acquireSession");
+    assert.deepEqual(refused._meta, { errorCategory: "budget_exceeded" });
+    assert.equal(backend.callsTo("sessions.getInfo").length, 0);
+    assert.deepEqual(pool.counts(), { idle: 1, leased: 0 });
+    await harness.close();
+    await pool.close();
+  });
+});
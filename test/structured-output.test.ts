@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compileOutputSchema } from "../src/structured-output.js";
+import { connectTestClient, openWindow, textOf } from "./helpers.js";
+
+const titleSchema = {
+  type: "object",
+  properties: { title: { type: "string" }, rank: { type: "integer" } },
+  required: ["title"],
+};
+
+describe("compileOutputSchema", () => {
+  it("checks responses against object and string schemas", () => {
+    for (const schema of [titleSchema, JSON.stringify(titleSchema)]) {
+      const validator = compileOutputSchema(schema);
+      assert.deepEqual(validator.schema, titleSchema);
+      assert.deepEqual(validator.check('{"title":"Example","rank":1}'), {
+        ok: true,
+        value: { title: "Example", rank: 1 },
+      });
+    }
+  });
+
+  it("reports every mismatch with where it is", () => {
+    const validator = compileOutputSchema(titleSchema);
+    assert.deepEqual(validator.check('{"rank":1.5}'), {
+      ok: false,
+      errors: [
+        "response must have required property 'title'",
+        "/rank must be integer",
+      ],
+    });
+    assert.deepEqual(validator.check("Example"), {
+      ok: false,
+      errors: ["response is not valid JSON"],
+    });
+  });
+
+  it("rejects schemas that aren't JSON Schema objects", () => {
+    assert.throws(() => compileOutputSchema("{"), /not valid JSON/);
+    assert.throws(
+      () => compileOutputSchema("[]"),
+      /must be a JSON Schema object/,
+    );
+    assert.throws(
+      () => compileOutputSchema({ type: "text" }),
+      /not a valid JSON Schema/,
+    );
+  });
+
+  it("rejects schemas written for drafts before draft-07", () => {
+    for (const draft of ["draft-04", "draft-06"]) {
+      assert.throws(
+        () =>
+          compileOutputSchema({
+            ...titleSchema,
+            $schema: `http://json-schema.org/${draft}/schema#`,
+          }),
+        new RegExp(`uses JSON Schema ${draft}, which is not supported`),
+      );
+    }
+    assert.ok(
+      compileOutputSchema({
+        ...titleSchema,
+        $schema: "http://json-schema.org/draft-07/schema#",
+      }),
+    );
+  });
+});
+
+describe("structured output tools", () => {
+  it("declare the structured result they return", async () => {
+    const harness = await connectTestClient();
+    const { tools } = await harness.client.listTools();
+    for (const name of ["pageQuery", "paginatedExtraction"]) {
+      const tool = tools.find((candidate) => candidate.name === name);
+      assert.deepEqual(Object.keys(tool?.outputSchema?.properties ?? {}), [
+        "result",
+      ]);
+    }
+    await harness.close();
+  });
+
+  it("send the schema to Airtop in the form each endpoint takes", async () => {
+    const harness = await connectTestClient();
+    const { sessionId, windowId } = await openWindow(harness);
+    for (const tool of ["pageQuery", "paginatedExtraction"] as const) {
+      harness.backend.respondNext(`windows.${tool}`, '{"title":"Example"}');
+      await harness.callTool(tool, {
+        sessionId,
+        windowId,
+        prompt: "Get the title",
+        outputSchema: titleSchema,
+      });
+    }
+    const [query] = harness.backend.callsTo("windows.pageQuery");
+    const [extraction] = harness.backend.callsTo("windows.paginatedExtraction");
+    assert.deepEqual(query.request, {
+      prompt: "Get the title",
+      configuration: { outputSchema: titleSchema },
+    });
+    assert.deepEqual(extraction.request, {
+      prompt: "Get the title",
+      configuration: { outputSchema: JSON.stringify(titleSchema) },
+    });
+    await harness.close();
+  });
+
+  it("report a validation error when the retry doesn't match either", async () => {
+    const harness = await connectTestClient();
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.respondNext("windows.pageQuery", '{"rank":1}');
+    harness.backend.respondNext("windows.pageQuery", '{"rank":2}');
+    const result = await harness.callTool("pageQuery", {
+      sessionId,
+      windowId,
+      prompt: "Get the title",
+      outputSchema: titleSchema,
+    });
+    assert.deepEqual(result._meta, { errorCategory: "validation" });
+    assert.match(
+      textOf(result),
+      /did not match outputSchema:\nresponse must have required property 'title'/,
+    );
+    assert.equal(harness.backend.callsTo("windows.pageQuery").length, 2);
+    await harness.close();
+  });
+});
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { AirtopError, AirtopTimeoutError } from "@airtop/sdk";
+import {
+  classifyError,
+  classifyIssues,
+  isTransientError,
+  retryDelay,
+} from "../src/tool-errors.js";
+import {
+  connectTestClient,
+  jsonOf,
+  openWindow,
+  TestHarness,
+  textOf,
+} from "./helpers.js";
+
+describe("classifyError", () => {
+  const cases: [unknown, string][] = [
+    [new AirtopError({ message: "Unauthorized", statusCode: 401 }), "auth"],
+    [new AirtopError({ message: "Missing", statusCode: 404 }), "not_found"],
+    [
+      new AirtopError({ message: "Session has expired", statusCode: 400 }),
+      "session_expired",
+    ],
+    [
+      new AirtopError({ message: "Slow down", statusCode: 429 }),
+      "rate_limited",
+    ],
+    [new AirtopError({ message: "Bad url", statusCode: 422 }), "validation"],
+    [new AirtopError({ message: "Oops", statusCode: 502 }), "internal"],
+    [new AirtopTimeoutError("Timeout"), "internal"],
+    [new Error("something broke"), "internal"],
+  ];
+  for (const [err, category] of cases) {
+    it(`classifies ${String(err)} as ${category}`, () => {
+      assert.equal(classifyError(err), category);
+    });
+  }
+
+  it("classifies envelope issues by message", () => {
+    assert.equal(
+      classifyIssues([{ message: "Window abc not found" }]),
+      "not_found",
+    );
+    assert.equal(
+      classifyIssues([{ message: "Session abc was terminated" }]),
+      "session_expired",
+    );
+    assert.equal(classifyIssues([{ message: "Unexpected" }]), "internal");
+  });
+});
+
+describe("isTransientError", () => {
+  it("retries rate limits, server errors and network failures only", () => {
+    assert.ok(isTransientError(new AirtopError({ statusCode: 429 })));
+    assert.ok(isTransientError(new AirtopError({ statusCode: 503 })));
+    assert.ok(isTransientError(new AirtopTimeoutError("Timeout")));
+    assert.ok(
+      isTransientError(
+        Object.assign(new TypeError("fetch failed"), {
+          cause: Object.assign(new Error("reset"), { code: "ECONNRESET" }),
+        }),
+      ),
+    );
+    assert.ok(!isTransientError(new AirtopError({ statusCode: 404 })));
+    assert.ok(!isTransientError(new Error("bug")));
+  });
+
+  it("backs off exponentially up to the maximum delay", () => {
+    const policy = { attempts: 5, baseDelayMs: 100, maxDelayMs: 300 };
+    const first = retryDelay(1, policy);
+    assert.ok(first >= 50 && first <= 100);
+    const capped = retryDelay(4, policy);
+    assert.ok(capped >= 150 && capped <= 300);
+  });
+});
+
+describe("error handling middleware", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await connectTestClient({
+      retry: { attempts: 3, baseDelayMs: 1, maxDelayMs: 5 },
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("retries transient failures of read-only calls", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.failNext(
+      "windows.getWindowInfo",
+      new AirtopError({ message: "Bad gateway", statusCode: 502 }),
+    );
+    harness.backend.failNext(
+      "windows.getWindowInfo",
+      new AirtopError({ message: "Too many requests", statusCode: 429 }),
+    );
+    const result = await harness.callTool("getWindowInfo", {
+      sessionId,
+      windowId,
+    });
+    assert.equal(result.isError, undefined);
+    assert.equal(jsonOf<{ windowId: string }>(result).windowId, windowId);
+    assert.equal(harness.backend.callsTo("windows.getWindowInfo").length, 3);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    for (let i = 0; i < 3; i++) {
+      harness.backend.failNext(
+        "windows.getWindowInfo",
+        new AirtopError({ message: "Too many requests", statusCode: 429 }),
+      );
+    }
+    const result = await harness.callTool("getWindowInfo", {
+      sessionId,
+      windowId,
+    });
+    assert.equal(result.isError, true);
+    assert.deepEqual(result._meta, { errorCategory: "rate_limited" });
+    assert.equal(harness.backend.callsTo("windows.getWindowInfo").length, 3);
+  });
+
+  it("never retries calls with side effects", async () => {
+    const badGateway = new AirtopError({
+      message: "Bad gateway",
+      statusCode: 502,
+    });
+    harness.backend.failNext("sessions.create", badGateway);
+    const created = await harness.callTool("createSession");
+    assert.deepEqual(created._meta, { errorCategory: "internal" });
+    assert.equal(harness.backend.callsTo("sessions.create").length, 1);
+
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.failNext("windows.type", badGateway);
+    const typed = await harness.callTool("type", {
+      sessionId,
+      windowId,
+      text: "hello",
+      pressEnter: true,
+    });
+    assert.deepEqual(typed._meta, { errorCategory: "internal" });
+    assert.equal(harness.backend.callsTo("windows.type").length, 1);
+  });
+
+  it("does not retry other failures", async () => {
+    const { sessionId } = await openWindow(harness);
+    const result = await harness.callTool("terminateSession", {
+      sessionId: `${sessionId}-missing`,
+    });
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Error during terminateSession \(not_found\)/);
+    assert.equal(harness.backend.callsTo("sessions.terminate").length, 1);
+  });
+
+  it("categorizes envelope errors", async () => {
+    const { sessionId, windowId } = await openWindow(harness);
+    harness.backend.failNext("windows.monitor", [
+      { message: "Session was terminated" },
+    ]);
+    const result = await harness.callTool("monitorForCondition", {
+      sessionId,
+      windowId,
+      condition: "page loaded",
+    });
+    assert.deepEqual(result._meta, { errorCategory: "session_expired" });
+    assert.match(textOf(result), /^Errors from the API \(session_expired\)/);
+  });
+});
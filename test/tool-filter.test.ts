@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { McpServerOptions } from "../src/mcp-server.js";
+import { SessionPool } from "../src/session-pool.js";
+import { TOOL_PRESETS } from "../src/tool-filter.js";
+import { FakeBrowserBackend } from "./fake-backend.js";
+import { connectTestClient } from "./helpers.js";
+
+async function registeredTools(options: McpServerOptions) {
+  const harness = await connectTestClient(options);
+  const { tools: listed } = await harness.client.listTools();
+  const instructions = harness.client.getInstructions() ?? "";
+  await harness.close();
+  return { names: listed.map((tool) => tool.name).sort(), instructions };
+}
+
+describe("tool filtering", () => {
+  it("registers only observation tools in read-only mode", async () => {
+    // With a pool, whose session tools must still be left out
+    const pool = new SessionPool(new FakeBrowserBackend(), { size: 0 });
+    const { names, instructions } = await registeredTools({
+      tools: { preset: "read-only" },
+      pool,
+    });
+    await pool.close();
+    assert.deepEqual(names, [
+      "batchQuery",
+      "closeWindow",
+      "createSession",
+      "createSessionWithOptions",
+      "createWindow",
+      "getWindowInfo",
+      "pageQuery",
+      "paginatedExtraction",
+      "scrape",
+      "terminateSession",
+    ]);
+    assert.deepEqual(names, [...TOOL_PRESETS["read-only"]].sort());
+    assert.doesNotMatch(instructions, /runSteps/);
+    assert.match(instructions, /pageQuery/);
+  });
+
+  it("applies the allowlist and denylist", async () => {
+    const { names, instructions } = await registeredTools({
+      tools: {
+        allow: ["createSession", "createWindow", "pageQuery", "click"],
+        deny: ["pageQuery"],
+      },
+    });
+    assert.deepEqual(names, ["click", "createSession", "createWindow"]);
+    assert.doesNotMatch(instructions, /pageQuery/);
+    assert.match(instructions, /createWindow/);
+  });
+
+  it("cannot allow tools outside the preset", async () => {
+    const { names } = await registeredTools({
+      tools: { preset: "read-only", allow: ["scrape", "type"] },
+    });
+    assert.deepEqual(names, ["scrape"]);
+  });
+
+  it("reports disabled tools as not found", async () => {
+    const harness = await connectTestClient({
+      tools: { preset: "read-only" },
+    });
+    const result = await harness.client
+      .callTool({
+        name: "click",
+        arguments: {},
+      })
+      .catch((error: Error) => error);
+    await harness.close();
+    assert.ok(result instanceof Error);
+    assert.match(result.message, /Tool click not found/);
+  });
+});
@@ -0,0 +1,456 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { AirtopError } from "@airtop/sdk";
+import {
+  connectTestClient,
+  jsonOf,
+  openWindow,
+  TestHarness,
+  textOf,
+} from "./helpers.js";
+
+const apiError = [{ message: "Airtop is unavailable" }];
+
+describe("tools", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await connectTestClient();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it("registers every tool", async () => {
+    const { tools } = await harness.client.listTools();
+    assert.deepEqual(tools.map((tool) => tool.name).sort(), [
+      "batchQuery",
+      "click",
+      "closeWindow",
+      "createSession",
+      "createSessionWithOptions",
+      "createWindow",
+      "deleteProfile",
+      "downloadFile",
+      "drag",
+      "fileInput",
+      "getProfileInfo",
+      "getUsage",
+      "getWindowInfo",
+      "goBack",
+      "goForward",
+      "hover",
+      "listProfiles",
+      "listWindows",
+      "monitorForCondition",
+      "navigate",
+      "pageQuery",
+      "paginatedExtraction",
+      "pressKeys",
+      "reload",
+      "replayTrace",
+      "requestHumanAction",
+      "runSteps",
+      "scrape",
+      "screenshot",
+      "scroll",
+      "selectOption",
+      "setProfileNotes",
+      "terminateSession",
+      "type",
+    ]);
+  });
+
+  describe("sessions", () => {
+    it("creates and terminates a session", async () => {
+      const created = await harness.callTool("createSession");
+      const { id } = jsonOf<{ id: string }>(created);
+      assert.equal(created.isError, undefined);
+      assert.ok(harness.backend.sessionsById.has(id));
+
+      const terminated = await harness.callTool("terminateSession", {
+        sessionId: id,
+      });
+      assert.equal(textOf(terminated), "Session terminated successfully");
+      assert.equal(harness.backend.terminatedSessions[0].id, id);
+      assert.deepEqual(
+        harness.backend
+          .callsTo("input.disconnect")
+          .map((call) => call.sessionId),
+        [id],
+      );
+    });
+
+    it("reports Airtop errors from createSession", async () => {
+      harness.backend.failNext("sessions.create", apiError);
+      const result = await harness.callTool("createSession");
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /Airtop is unavailable/);
+    });
+
+    it("saves the profile of a session created with a profile name", async () => {
+      const { id } = jsonOf<{ id: string }>(
+        await harness.callTool("createSessionWithOptions", {
+          configuration: { profileName: "work", timeoutMinutes: 5 },
+        }),
+      );
+      const session = harness.backend.sessionsById.get(id);
+      assert.equal(session?.profileName, "work");
+      assert.equal(session?.saveProfileAs, "work");
+    });
+
+    it("still creates the session when saving the profile fails", async () => {
+      harness.backend.failNext(
+        "sessions.saveProfileOnTermination",
+        new Error("profile service down"),
+      );
+      const result = await harness.callTool("createSessionWithOptions", {
+        configuration: { profileName: "work" },
+      });
+      assert.equal(result.isError, undefined);
+    });
+
+    it("reports Airtop errors from createSessionWithOptions", async () => {
+      harness.backend.failNext("sessions.create", apiError);
+      const result = await harness.callTool("createSessionWithOptions", {});
+      assert.equal(result.isError, true);
+      assert.equal(harness.backend.sessionsById.size, 0);
+    });
+
+    it("enforces the session limit", async () => {
+      await harness.close();
+      harness = await connectTestClient({
+        sessionLimits: { maxSessions: 1 },
+      });
+      await harness.callTool("createSession");
+      const result = await harness.callTool("createSession");
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /Session limit reached/);
+    });
+  });
+
+  describe("windows", () => {
+    it("creates a window and returns its live view", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      const info = jsonOf<{ liveViewUrl: string }>(
+        await harness.callTool("getWindowInfo", { sessionId, windowId }),
+      );
+      assert.match(info.liveViewUrl, new RegExp(windowId));
+    });
+
+    it("reports unknown sessions", async () => {
+      const result = await harness.callTool("createWindow", {
+        sessionId: "missing",
+        url: "https://example.com",
+      });
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /Session missing not found/);
+      assert.deepEqual(result._meta, { errorCategory: "not_found" });
+    });
+
+    it("reports Airtop errors from createWindow and getWindowInfo", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      harness.backend.failNext("windows.create", apiError);
+      const created = await harness.callTool("createWindow", {
+        sessionId,
+        url: "https://example.com",
+      });
+      assert.equal(created.isError, true);
+
+      harness.backend.failNext("windows.getWindowInfo", apiError);
+      const info = await harness.callTool("getWindowInfo", {
+        sessionId,
+        windowId,
+      });
+      assert.equal(info.isError, true);
+    });
+  });
+
+  describe("queries", () => {
+    for (const [tool, method] of [
+      ["pageQuery", "windows.pageQuery"],
+      ["paginatedExtraction", "windows.paginatedExtraction"],
+    ] as const) {
+      it(`${tool} returns the model response`, async () => {
+        const { sessionId, windowId } = await openWindow(harness);
+        harness.backend.respondNext(method, "The page is about examples");
+        const result = await harness.callTool(tool, {
+          sessionId,
+          windowId,
+          prompt: "Summarize",
+        });
+        assert.deepEqual(result.structuredContent, {
+          result: "The page is about examples",
+        });
+      });
+
+      it(`${tool} validates and retries against an outputSchema`, async () => {
+        const { sessionId, windowId } = await openWindow(harness);
+        harness.backend.respondNext(method, "not json");
+        harness.backend.respondNext(method, '{"title":"Example"}');
+        const result = await harness.callTool(tool, {
+          sessionId,
+          windowId,
+          prompt: "Get the title",
+          outputSchema: {
+            type: "object",
+            properties: { title: { type: "string" } },
+            required: ["title"],
+          },
+        });
+        assert.deepEqual(result.structuredContent, {
+          result: { title: "Example" },
+        });
+        assert.equal(harness.backend.callsTo(method).length, 2);
+      });
+
+      it(`${tool} reports Airtop and thrown errors`, async () => {
+        const { sessionId, windowId } = await openWindow(harness);
+        harness.backend.failNext(method, apiError);
+        const failed = await harness.callTool(tool, {
+          sessionId,
+          windowId,
+          prompt: "Summarize",
+        });
+        assert.match(textOf(failed), /Errors from the API/);
+
+        harness.backend.failNext(method, new Error("socket hang up"));
+        const thrown = await harness.callTool(tool, {
+          sessionId,
+          windowId,
+          prompt: "Summarize",
+        });
+        assert.equal(thrown.isError, true);
+        assert.match(
+          textOf(thrown),
+          /Error during .* \(internal\): socket hang up/,
+        );
+      });
+    }
+
+    it("rejects an invalid outputSchema", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      const result = await harness.callTool("pageQuery", {
+        sessionId,
+        windowId,
+        prompt: "Summarize",
+        outputSchema: "{not json",
+      });
+      assert.equal(result.isError, true);
+      assert.equal(harness.backend.callsTo("windows.pageQuery").length, 0);
+    });
+
+    it("compiles each call's outputSchema on its own", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      const query = (outputSchema: object, modelResponse: string) => {
+        harness.backend.respondNext("windows.pageQuery", modelResponse);
+        return harness.callTool("pageQuery", {
+          sessionId,
+          windowId,
+          prompt: "Get the page",
+          outputSchema,
+        });
+      };
+      // Two schemas sharing an $id, the second in draft 2020-12
+      const title = await query(
+        {
+          $id: "https://example.com/page.json",
+          type: "object",
+          properties: { title: { type: "string" } },
+          required: ["title"],
+        },
+        '{"title":"Example"}',
+      );
+      const links = await query(
+        {
+          $schema: "https://json-schema.org/draft/2020-12/schema",
+          $id: "https://example.com/page.json",
+          type: "array",
+          prefixItems: [{ type: "string", format: "uri" }],
+        },
+        '["https://example.com"]',
+      );
+      assert.deepEqual(title.structuredContent, {
+        result: { title: "Example" },
+      });
+      assert.deepEqual(links.structuredContent, {
+        result: ["https://example.com"],
+      });
+    });
+  });
+
+  describe("interaction", () => {
+    const interactions = [
+      ["click", "windows.click", { elementDescription: "the login button" }],
+      ["hover", "windows.hover", { elementDescription: "the menu" }],
+      ["type", "windows.type", { text: "hello" }],
+      ["scroll", "windows.scroll", { elementDescription: "the footer" }],
+      ["monitorForCondition", "windows.monitor", { condition: "page loaded" }],
+    ] as const;
+
+    for (const [tool, method, args] of interactions) {
+      it(`${tool} calls ${method}`, async () => {
+        const { sessionId, windowId } = await openWindow(harness);
+        const result = await harness.callTool(tool, {
+          sessionId,
+          windowId,
+          ...args,
+        });
+        assert.equal(result.isError, undefined);
+        assert.equal(
+          jsonOf<{ modelResponse: string }>(result).modelResponse,
+          `${method} succeeded`,
+        );
+        assert.equal(harness.backend.callsTo(method).length, 1);
+      });
+
+      it(`${tool} reports Airtop errors`, async () => {
+        const { sessionId, windowId } = await openWindow(harness);
+        harness.backend.failNext(method, apiError);
+        const result = await harness.callTool(tool, {
+          sessionId,
+          windowId,
+          ...args,
+        });
+        assert.equal(result.isError, true);
+        assert.match(textOf(result), /Airtop is unavailable/);
+      });
+
+      it(`${tool} reports unknown windows`, async () => {
+        const { sessionId } = await openWindow(harness);
+        const result = await harness.callTool(tool, {
+          sessionId,
+          windowId: "missing",
+          ...args,
+        });
+        assert.equal(result.isError, true);
+        assert.match(textOf(result), /Window missing not found/);
+      });
+    }
+
+    it("click passes coordinates through", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      await harness.callTool("click", {
+        sessionId,
+        windowId,
+        elementDescription: "the map",
+        coordinate: { x: 10, y: 20 },
+      });
+      assert.deepEqual(harness.backend.callsTo("windows.click")[0].request, {
+        coordinate: { x: 10, y: 20 },
+        elementDescription: "the map",
+      });
+    });
+  });
+
+  describe("content", () => {
+    it("scrapes the page", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      const result = await harness.callTool("scrape", { sessionId, windowId });
+      assert.match(textOf(result), /Content of https:\/\/example.com/);
+    });
+
+    it("reports scrape failures", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      harness.backend.failNext(
+        "windows.scrapeContent",
+        new AirtopError({ message: "Forbidden", statusCode: 403 }),
+      );
+      const result = await harness.callTool("scrape", { sessionId, windowId });
+      assert.equal(result.isError, true);
+      assert.deepEqual(result._meta, { errorCategory: "auth" });
+    });
+  });
+
+  describe("screenshot", () => {
+    it("returns the viewport as image content", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      const result = await harness.callTool("screenshot", {
+        sessionId,
+        windowId,
+      });
+      assert.equal(result.content.length, 1);
+      assert.equal(result.content[0].type, "image");
+      assert.equal(harness.backend.callsTo("windows.scroll").length, 0);
+    });
+
+    it("captures each viewport of a full page until the bottom", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      const result = await harness.callTool("screenshot", {
+        sessionId,
+        windowId,
+        fullPage: true,
+      });
+      assert.equal(result.content.length, 3);
+      assert.ok(result.content.every((item) => item.type === "image"));
+    });
+
+    it("scrolls the described element into view and captures it", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      const result = await harness.callTool("screenshot", {
+        sessionId,
+        windowId,
+        elementDescription: "the pricing table",
+        fullPage: true,
+      });
+      // Only the element's viewport, even when fullPage is set
+      assert.equal(result.content.length, 1);
+      assert.deepEqual(
+        harness.backend.callsTo("windows.scroll").map(({ request }) => request),
+        [{ scrollToElement: "the pricing table" }],
+      );
+    });
+
+    it("passes the size and quality limits to Airtop", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      await harness.callTool("screenshot", {
+        sessionId,
+        windowId,
+        maxWidth: 800,
+        maxHeight: 600,
+        quality: 40,
+      });
+      await harness.callTool("screenshot", { sessionId, windowId });
+      assert.deepEqual(
+        harness.backend
+          .callsTo("windows.screenshot")
+          .map(({ request }) => request),
+        [
+          {
+            configuration: {
+              screenshot: {
+                maxWidth: 800,
+                maxHeight: 600,
+                quality: 40,
+                scope: "viewport",
+              },
+            },
+          },
+          // Scaled to fit model context by default
+          {
+            configuration: {
+              screenshot: {
+                maxWidth: 1280,
+                maxHeight: undefined,
+                quality: undefined,
+                scope: "viewport",
+              },
+            },
+          },
+        ],
+      );
+    });
+
+    it("reports screenshot errors", async () => {
+      const { sessionId, windowId } = await openWindow(harness);
+      harness.backend.failNext("windows.screenshot", apiError);
+      const result = await harness.callTool("screenshot", {
+        sessionId,
+        windowId,
+      });
+      assert.equal(result.isError, true);
+      assert.match(textOf(result), /Airtop is unavailable/);
+    });
+  });
+});
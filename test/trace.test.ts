@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { readTrace, ReplayReport } from "../src/trace.js";
+import { connectTestClient, jsonOf, openWindow, textOf } from "./helpers.js";
+
+describe("replayTrace", () => {
+  let dir: string;
+  let traceFile: string | undefined;
+
+  // Record one short flow to replay in each test
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "airtop-trace-"));
+    const recording = await connectTestClient({
+      traces: { dir, record: true },
+    });
+    const { sessionId, windowId } = await openWindow(recording);
+    await recording.callTool("click", {
+      sessionId,
+      windowId,
+      elementDescription: "the login button",
+    });
+    await recording.close();
+    // Trace lines are appended in the background
+    while (
+      !traceFile ||
+      (await readTrace(path.join(dir, traceFile))).length < 3
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      [traceFile] = await readdir(dir);
+    }
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records session and window IDs as variables", async () => {
+    const steps = await readTrace(path.join(dir, traceFile!));
+    assert.deepEqual(
+      steps.map(({ step, tool, args, bindings }) => ({
+        step,
+        tool,
+        args,
+        bindings,
+      })),
+      [
+        { step: 1, tool: "createSession", args: {}, bindings: ["session1"] },
+        {
+          step: 2,
+          tool: "createWindow",
+          args: {
+            sessionId: "{{session1}}",
+            url: "https://example.com",
+            waitUntil: "load",
+          },
+          bindings: ["window1"],
+        },
+        {
+          step: 3,
+          tool: "click",
+          args: {
+            sessionId: "{{session1}}",
+            windowId: "{{window1}}",
+            elementDescription: "the login button",
+          },
+          bindings: [],
+        },
+      ],
+    );
+    assert.match(JSON.stringify(steps[0].result), /\{\{session1\}\}/);
+    assert.doesNotMatch(JSON.stringify(steps), /session-\d/);
+  });
+
+  it("replays a recording against new sessions", async () => {
+    const harness = await connectTestClient({ traces: { dir, record: false } });
+    const result = await harness.callTool("replayTrace", { traceFile });
+    const report = jsonOf<ReplayReport>(result);
+    await harness.close();
+
+    assert.equal(result.isError, false);
+    assert.equal(report.completed, true);
+    assert.deepEqual(
+      report.steps.map((step) => [step.tool, step.status]),
+      [
+        ["createSession", "ok"],
+        ["createWindow", "ok"],
+        ["click", "ok"],
+      ],
+    );
+    assert.equal(harness.backend.callsTo("windows.click").length, 1);
+  });
+
+  it("reports the step that diverged", async () => {
+    const harness = await connectTestClient({ traces: { dir, record: false } });
+    harness.backend.failNext("windows.click", [{ message: "Button moved" }]);
+    const result = await harness.callTool("replayTrace", { traceFile });
+    const report = jsonOf<ReplayReport>(result);
+    await harness.close();
+
+    assert.equal(result.isError, true);
+    assert.equal(report.divergedAt, 3);
+    assert.match(report.steps[2].reason ?? "", /Button moved/);
+  });
+
+  it("replays into an existing session without creating one", async () => {
+    const harness = await connectTestClient({ traces: { dir, record: false } });
+    const session = jsonOf<{ id: string }>(
+      await harness.callTool("createSession"),
+    );
+    const report = jsonOf<ReplayReport>(
+      await harness.callTool("replayTrace", {
+        traceFile,
+        sessionId: session.id,
+      }),
+    );
+    await harness.close();
+
+    assert.deepEqual(
+      report.steps.map((step) => step.status),
+      ["skipped", "ok", "ok"],
+    );
+    assert.equal(report.variables.session1, session.id);
+    assert.equal(harness.backend.callsTo("sessions.create").length, 1);
+    assert.deepEqual(
+      harness.backend.callsTo("windows.click").map((call) => call.sessionId),
+      [session.id],
+    );
+  });
+
+  it("refuses trace files outside the trace directory", async () => {
+    const harness = await connectTestClient({ traces: { dir, record: false } });
+    const result = await harness.callTool("replayTrace", {
+      traceFile: "../outside.jsonl",
+    });
+    await harness.close();
+
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /must be inside the trace directory/);
+  });
+});
@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  BudgetExceededError,
+  UsageTracker,
+  UsageTrackers,
+} from "../src/usage.js";
+import { connectTestClient, jsonOf, openWindow } from "./helpers.js";
+
+interface UsageReport {
+  totals: {
+    sessions: number;
+    openSessions: number;
+    sessionMinutes: number;
+    aiCalls: number;
+    credits: number;
+  };
+  sessions: { sessionId: string; aiCalls: number; credits: number }[];
+}
+
+describe("usage", () => {
+  it("reports AI calls and credits per session", async () => {
+    const harness = await connectTestClient({
+      usage: new UsageTracker({}, () => 0),
+    });
+    const { sessionId, windowId } = await openWindow(harness);
+    await harness.callTool("pageQuery", {
+      sessionId,
+      windowId,
+      prompt: "What is on the page?",
+    });
+    await harness.callTool("click", {
+      sessionId,
+      windowId,
+      elementDescription: "the login button",
+    });
+
+    const report = jsonOf<UsageReport>(await harness.callTool("getUsage"));
+    assert.deepEqual(report.totals, {
+      sessions: 1,
+      openSessions: 1,
+      sessionMinutes: 0,
+      aiCalls: 2,
+      credits: 2,
+    });
+    assert.deepEqual(
+      report.sessions.map(({ sessionId, aiCalls, credits }) => ({
+        sessionId,
+        aiCalls,
+        credits,
+      })),
+      [{ sessionId, aiCalls: 2, credits: 2 }],
+    );
+    const { contents } = await harness.client.readResource({
+      uri: "airtop://usage",
+    });
+    assert.deepEqual(JSON.parse(contents[0].text as string), report);
+    await harness.close();
+  });
+
+  it("refuses AI calls over a session's budget", async () => {
+    const harness = await connectTestClient({
+      usage: new UsageTracker({ sessionAiCalls: 1 }),
+    });
+    const { sessionId, windowId } = await openWindow(harness);
+    const query = { sessionId, windowId, prompt: "What is on the page?" };
+    await harness.callTool("pageQuery", query);
+
+    const refused = await harness.callTool("pageQuery", query);
+    assert.deepEqual(refused._meta, { errorCategory: "budget_exceeded" });
+    assert.equal(harness.backend.callsTo("windows.pageQuery").length, 1);
+
+    // Another session has a budget of its own
+    const other = await openWindow(harness);
+    const allowed = await harness.callTool("pageQuery", {
+      ...query,
+      ...other,
+    });
+    assert.equal(allowed.isError, undefined);
+    await harness.close();
+  });
+
+  it("refuses new sessions once the server's budget is used up", async () => {
+    let now = 0;
+    const usage = new UsageTracker({ sessionMinutes: 10 }, () => now);
+    const harness = await connectTestClient({ usage });
+    const { sessionId } = await openWindow(harness);
+
+    now = 6 * 60 * 1000;
+    await harness.callTool("terminateSession", { sessionId });
+    await openWindow(harness);
+    now = 11 * 60 * 1000;
+
+    const refused = await harness.callTool("createSession");
+    assert.deepEqual(refused._meta, { errorCategory: "budget_exceeded" });
+    assert.equal(harness.backend.callsTo("sessions.create").length, 2);
+    assert.deepEqual(usage.totals(), {
+      sessions: 2,
+      openSessions: 1,
+      sessionMinutes: 11,
+      aiCalls: 0,
+      credits: 0,
+    });
+    await harness.close();
+  });
+
+  it("doesn't count clicks at coordinates as AI calls", async () => {
+    const usage = new UsageTracker();
+    const harness = await connectTestClient({ usage });
+    const { sessionId, windowId } = await openWindow(harness);
+    await harness.callTool("click", {
+      sessionId,
+      windowId,
+      elementDescription: "the login button",
+      coordinate: { x: 10, y: 20 },
+    });
+    assert.equal(usage.totals().aiCalls, 0);
+    assert.equal(usage.totals().credits, 1);
+    await harness.close();
+  });
+
+  it("caps a session's minutes at its timeout", async () => {
+    let now = 0;
+    const usage = new UsageTracker({}, () => now);
+    const harness = await connectTestClient({
+      usage,
+      sessionDefaults: { timeoutMinutes: 5 },
+    });
+    await openWindow(harness);
+    // Airtop has ended the session, though it was never terminated
+    now = 60 * 60 * 1000;
+    assert.equal(usage.totals().sessionMinutes, 5);
+    await harness.close();
+  });
+
+  it("ignores failed calls to sessions it doesn't know", () => {
+    const usage = new UsageTracker();
+    usage.recordCall("session-unknown", true, 0, true);
+    assert.equal(usage.totals().sessions, 0);
+  });
+
+  it("keeps separate budgets for each API key", () => {
+    const trackers = new UsageTrackers({ aiCalls: 1 });
+    const first = trackers.forKey("key-1");
+    assert.equal(trackers.forKey("key-1"), first);
+    first.recordCall("session-1", true);
+    assert.throws(() => first.checkAiCall("session-1"), BudgetExceededError);
+    assert.doesNotThrow(() =>
+      trackers.forKey("key-2").checkAiCall("session-2"),
+    );
+  });
+});